@@ -1,5 +1,5 @@
 import React from "react";
-import { FluentProvider, webLightTheme, makeStyles, tokens } from "@fluentui/react-components";
+import { makeStyles, tokens } from "@fluentui/react-components";
 import { ChatOptionsPanel, Login, ErrorBoundary, ChatPanelFSM } from "./components";
 import { AuthProvider, useAuth } from "./auth/AuthContext";
 import { ModelConfigProvider, useModelConfig } from "./config/ModelConfig";
@@ -7,13 +7,20 @@ import { ApiKeysProvider, useApiKeys } from "./context/ApiKeysContext";
 import {
     compactOptionSet,
     basicOptionSet,
+    wizardOptionSet,
     BasicOptions,
     VisualOptionSet,
     AppHeader,
+    CanvasSandboxProvider,
+    parseSandboxLevel,
+    ThemeProvider,
     TamboProvider,
     A2UIProvider,
     registerDefaultA2UIComponents,
+    withControlKinds,
 } from "@promptions/promptions-ui";
+import { customControlKinds } from "./config/ControlKinds";
+import { supportsStructuredOutput } from "./services/ChatService";
 
 registerDefaultA2UIComponents();
 
@@ -61,12 +68,13 @@ const useStyles = makeStyles({
 
 // Available option sets
 const availableOptionSets = [
-    { key: "compact", label: "Compact Options", optionSet: compactOptionSet },
-    { key: "expanded", label: "Expanded Options", optionSet: basicOptionSet },
+    { key: "compact", label: "Compact Options", optionSet: withControlKinds(compactOptionSet, customControlKinds) },
+    { key: "expanded", label: "Expanded Options", optionSet: withControlKinds(basicOptionSet, customControlKinds) },
+    { key: "wizard", label: "Step-by-step Options", optionSet: withControlKinds(wizardOptionSet, customControlKinds) },
 ];
 
 // Default option set
-const defaultOptionSet = basicOptionSet;
+const defaultOptionSet = availableOptionSets[1].optionSet;
 
 function ChatApp() {
     const [currentOptionSet, setCurrentOptionSet] = React.useState<VisualOptionSet<BasicOptions>>(defaultOptionSet);
@@ -125,6 +133,8 @@ function AppContent() {
             provider: selectedModel?.provider,
             model: selectedModel?.id,
             apiKeys,
+            // Lets the server constrain generated props to each component's schema
+            structuredOutput: supportsStructuredOutput(selectedModel),
         }),
         [apiKeys, selectedModel],
     );
@@ -139,26 +149,35 @@ function AppContent() {
 
     return (
         <TamboProvider>
-            <A2UIProvider requestBody={a2uiRequestBody} onError={(err) => console.error("A2UI error:", err)}>
+            <A2UIProvider
+                requestBody={a2uiRequestBody}
+                onError={(err) => console.error("A2UI error:", err)}
+                devtools={import.meta.env.DEV}
+            >
                 <ChatApp />
             </A2UIProvider>
         </TamboProvider>
     );
 }
 
+// Deployments can tighten or relax what model-generated canvas controls may do
+const canvasSandboxLevel = parseSandboxLevel(import.meta.env.VITE_CANVAS_SANDBOX_LEVEL);
+
 function App() {
     return (
-        <FluentProvider theme={webLightTheme}>
+        <ThemeProvider>
             <ErrorBoundary>
                 <AuthProvider>
                     <ApiKeysProvider>
-                        <ModelConfigProvider>
-                            <AppContent />
-                        </ModelConfigProvider>
+                        <CanvasSandboxProvider level={canvasSandboxLevel}>
+                            <ModelConfigProvider>
+                                <AppContent />
+                            </ModelConfigProvider>
+                        </CanvasSandboxProvider>
                     </ApiKeysProvider>
                 </AuthProvider>
             </ErrorBoundary>
-        </FluentProvider>
+        </ThemeProvider>
     );
 }
 
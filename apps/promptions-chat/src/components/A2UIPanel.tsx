@@ -1,5 +1,6 @@
-import { Button, makeStyles, tokens, Text } from "@fluentui/react-components";
-import { A2UIRenderer, useA2UI } from "@promptions/promptions-ui";
+import { useState } from "react";
+import { Button, makeStyles, tokens, Text, Tooltip } from "@fluentui/react-components";
+import { A2UIDevtools, A2UIRenderer, useA2UI } from "@promptions/promptions-ui";
 
 const useStyles = makeStyles({
     container: {
@@ -22,15 +23,24 @@ const useStyles = makeStyles({
         gap: tokens.spacingHorizontalS,
     },
     status: {
+        display: "flex",
+        gap: tokens.spacingHorizontalS,
         marginBottom: tokens.spacingVerticalS,
         color: tokens.colorNeutralForeground3,
         fontSize: tokens.fontSizeBase200,
     },
+    rejected: {
+        color: tokens.colorPaletteRedForeground1,
+        cursor: "help",
+    },
     content: {
         display: "flex",
         flexDirection: "column",
         gap: tokens.spacingVerticalM,
     },
+    devtools: {
+        marginTop: tokens.spacingVerticalM,
+    },
 });
 
 export interface A2UIPanelProps {
@@ -39,9 +49,14 @@ export interface A2UIPanelProps {
 
 export function A2UIPanel({ prompt }: A2UIPanelProps) {
     const styles = useStyles();
-    const { isConnected, isStreaming, rootComponents, connect, disconnect, reset, sendAction } = useA2UI();
+    const { isConnected, isStreaming, rootComponents, connect, disconnect, reset, sendAction, stats } = useA2UI();
+    const { devtools, viewedFrameId } = useA2UI();
+    const [showDevtools, setShowDevtools] = useState(false);
 
-    const status = isStreaming ? "Streaming…" : isConnected ? "Connected" : "Idle";
+    const liveStatus = isStreaming ? "Streaming…" : isConnected ? "Connected" : "Idle";
+    const status = viewedFrameId !== null ? "Viewing a recorded version" : liveStatus;
+    // Counts whole messages as well as components dropped from messages that were otherwise applied
+    const rejections = Object.values(stats.reasons).reduce((total, count) => total + (count ?? 0), 0);
 
     return (
         <section className={styles.container} aria-label="A2UI panel">
@@ -61,9 +76,32 @@ export function A2UIPanel({ prompt }: A2UIPanelProps) {
                     <Button appearance="subtle" disabled={!isConnected && !isStreaming} onClick={disconnect}>
                         Stop
                     </Button>
+                    {devtools && (
+                        <Button appearance="subtle" onClick={() => setShowDevtools((shown) => !shown)}>
+                            {showDevtools ? "Hide devtools" : "Devtools"}
+                        </Button>
+                    )}
                 </div>
             </div>
-            <div className={styles.status}>{status}</div>
+            <div className={styles.status}>
+                <span>{status}</span>
+                {rejections > 0 && (
+                    <Tooltip
+                        relationship="description"
+                        content={
+                            <>
+                                {stats.recent.map((rejection, index) => (
+                                    <div key={index}>{rejection.message}</div>
+                                ))}
+                            </>
+                        }
+                    >
+                        <span className={styles.rejected} tabIndex={0}>
+                            {rejections} rejected
+                        </span>
+                    </Tooltip>
+                )}
+            </div>
 
             <div className={styles.content}>
                 {rootComponents.length ? (
@@ -80,6 +118,12 @@ export function A2UIPanel({ prompt }: A2UIPanelProps) {
                     </Text>
                 )}
             </div>
+
+            {devtools && showDevtools && (
+                <div className={styles.devtools}>
+                    <A2UIDevtools />
+                </div>
+            )}
         </section>
     );
 }
@@ -2,7 +2,13 @@ import React from "react";
 import { makeStyles, tokens } from "@fluentui/react-components";
 import { UserMessage, AssistantMessage, ErrorMessageComponent } from "./";
 import { HistoryMessage } from "../types";
-import { BasicOptions, VisualOptionSet } from "@promptions/promptions-ui";
+import {
+    BasicOptions,
+    OptionHistory,
+    OptionHistoryMove,
+    OptionHistoryView,
+    VisualOptionSet,
+} from "@promptions/promptions-ui";
 
 const useStyles = makeStyles({
     chatRow: {
@@ -69,17 +75,23 @@ const useStyles = makeStyles({
 
 interface ChatHistoryProps {
     history: HistoryMessage[];
-    historySet: (fn: (prev: HistoryMessage[]) => void) => void;
     currentOptionSet: VisualOptionSet<BasicOptions>;
     onRefreshOptions: (messageId: string) => void;
-    onInteract?: (message: string) => void;
+    /** Called when the user changes a message's options; `isLatest` is true for the latest assistant message */
+    onOptionsChange: (messageId: string, previous: BasicOptions, next: BasicOptions, isLatest: boolean) => void;
+    optionHistory: OptionHistory<BasicOptions>;
+    onHistoryMove: (move: OptionHistoryMove<BasicOptions>) => void;
+    /** Whether a message's option history can still be moved through without rewriting earlier turns */
+    canMoveHistory: (messageId: string) => boolean;
 }
 
 export const ChatHistory: React.FC<ChatHistoryProps> = ({
     history,
-    historySet,
     currentOptionSet,
-    onInteract,
+    onOptionsChange,
+    optionHistory,
+    onHistoryMove,
+    canMoveHistory,
 }) => {
     const styles = useStyles();
 
@@ -128,7 +140,7 @@ export const ChatHistory: React.FC<ChatHistoryProps> = ({
                         <AssistantMessage message={message} />
                     </div>
                     <div className={styles.optionsColumn}>
-                        {message.options && !message.options.isEmpty() && (
+                        {message.options && (!message.options.isEmpty() || message.options.getMetadata?.().thought) && (
                             <>
                                 {/* <div className={styles.optionsHeader}>
                                     {onRefreshOptions && (
@@ -145,22 +157,22 @@ export const ChatHistory: React.FC<ChatHistoryProps> = ({
                                 </div> */}
                                 <OptionRenderer
                                     options={message.options as any}
-                                    set={(updatedOptions) => {
-                                        historySet((draft) => {
-                                            const msg = draft.find((m) => m.id === message.id);
-                                            if (msg && msg.role === "assistant") {
-                                                msg.options = updatedOptions as BasicOptions;
-                                            }
-                                        });
-
-                                        // Only trigger interaction if it's the latest message
-                                        if (message.id === latestAssistantId && onInteract) {
-                                            const diff = (updatedOptions as BasicOptions).prettyPrint();
-                                            onInteract(`[Interaction: User modulated the UI. Current state: ${diff}]`);
-                                        }
-                                    }}
+                                    set={(updatedOptions) =>
+                                        onOptionsChange(
+                                            message.id,
+                                            message.options as BasicOptions,
+                                            updatedOptions as BasicOptions,
+                                            message.id === latestAssistantId,
+                                        )
+                                    }
                                     disabled={message.id !== latestAssistantId}
                                 />
+                                <OptionHistoryView
+                                    history={optionHistory}
+                                    messageId={message.id}
+                                    onMove={onHistoryMove}
+                                    disabled={!canMoveHistory(message.id)}
+                                />
                             </>
                         )}
                     </div>
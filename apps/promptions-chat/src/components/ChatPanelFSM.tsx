@@ -5,8 +5,12 @@ import { useApiKeys } from "../context/ApiKeysContext";
 import { ChatInput } from "./ChatInput";
 import { ChatHistory } from "./ChatHistory";
 import { PromptExport } from "./PromptExport";
+import { ElaborationSelector } from "./ElaborationSelector";
 import { A2UIPanel } from "./A2UIPanel";
-import type { VisualOptionSet, BasicOptions } from "@promptions/promptions-ui";
+import { THEME_SETTING_ID } from "../services/PromptionsService";
+import { parseThemeMode, useOptionHistory, useTheme, useUndoRedoShortcuts } from "@promptions/promptions-ui";
+import type { VisualOptionSet, BasicOptions, OptionHistoryMove, ThemeMode } from "@promptions/promptions-ui";
+import type { HistoryMessage } from "../types";
 import { tokens, makeStyles } from "@fluentui/react-components";
 
 const useStyles = makeStyles({
@@ -42,6 +46,18 @@ interface ChatPanelFSMProps {
   chatContainerRef: React.RefObject<HTMLDivElement>;
 }
 
+// The message sent when the user changes the options of the latest response
+function interactionMessage(options: BasicOptions) {
+  return `[Interaction: User modulated the UI. Current state: ${options.prettyPrint()}]`;
+}
+
+// The theme picked in the /settings options, if they are the options given
+function themeSetting(options: BasicOptions): ThemeMode | undefined {
+  const control = options.options.find((c) => c.id === THEME_SETTING_ID);
+  if (control?.kind !== "single-select") return undefined;
+  return parseThemeMode(Array.isArray(control.value) ? control.value[0] : control.value);
+}
+
 // Adapter to convert FSM messages to HistoryMessage format expected by ChatHistory
 function adaptMessages(messages: Message[], optionSet: VisualOptionSet<BasicOptions>) {
   return messages.map((m) => ({
@@ -60,14 +76,21 @@ export function ChatPanelFSM({ currentOptionSet, chatContainerRef }: ChatPanelFS
   const { apiKeys } = useApiKeys();
   const pendingScroll = useRef(false);
   const prevMessagesLength = useRef(0);
+  const optionHistory = useOptionHistory<BasicOptions>();
+  const { setMode: setThemeMode } = useTheme();
 
   const {
     messages,
     isStreaming,
     sendMessage,
+    retractMessage,
     refreshOptions,
     setModel,
     setApiKeys: setFsmApiKeys,
+    changeMessageOptions,
+    elaborationStrategy,
+    setElaborationStrategy,
+    clear,
   } = useStreamingChat(currentOptionSet);
 
   // Sync model and apiKeys to FSM
@@ -112,20 +135,86 @@ export function ChatPanelFSM({ currentOptionSet, chatContainerRef }: ChatPanelFS
   // Adapted history for ChatHistory component
   const adaptedHistory = adaptMessages(messages, currentOptionSet);
 
-  // Create historyState adapter for ChatHistory (read-only for FSM)
+  // ChatHistory and ChatInput edit history with immer-style updaters; translate their edits into FSM events
+  const updateHistory = (fn: (prev: HistoryMessage[]) => void) => {
+    const draft = adaptedHistory.map((m) => ({ ...m })) as HistoryMessage[];
+    const result = (fn(draft) as unknown as HistoryMessage[] | undefined) ?? draft;
+    if (result.length === 0) {
+      optionHistory.forget();
+      clear();
+      return;
+    }
+    for (const m of result) {
+      const before = adaptedHistory.find((h) => h.id === m.id);
+      if (m.role === "assistant" && before && m.options !== before.options) {
+        changeMessageOptions(m.id, m.options as BasicOptions);
+      }
+    }
+  };
+
   const historyState = {
     get: adaptedHistory,
-    set: () => {}, // FSM manages state internally
+    set: updateHistory,
   };
 
   const handleRefreshOptions = (messageId: string) => {
     refreshOptions(messageId);
   };
 
-  const handleInteract = (message: string) => {
-    sendMessage(message);
+  // Switch the app theme when a change picks a different theme in the /settings options
+  const applyThemeSetting = (previous: BasicOptions, next: BasicOptions) => {
+    const mode = themeSetting(next);
+    if (mode && mode !== themeSetting(previous)) setThemeMode(mode);
   };
 
+  // Changes to the latest options are sent on as an interaction; the user message carries the id recorded in
+  // the history so stepping back over the change can retract it
+  const handleOptionsChange = (messageId: string, previous: BasicOptions, next: BasicOptions, isLatest: boolean) => {
+    const interactionId = isLatest ? crypto.randomUUID() : undefined;
+    optionHistory.record(messageId, previous, next, interactionId);
+    changeMessageOptions(messageId, next);
+    applyThemeSetting(previous, next);
+    if (interactionId) {
+      sendMessage(interactionMessage(next), interactionId);
+    }
+  };
+
+  // Older messages can only be moved through while the exchange after them is the one their options caused
+  const canMoveHistory = (messageId: string) => {
+    if (messageId === lastAssistantMessage?.id) return true;
+    const current = optionHistory.getEntries(messageId)[optionHistory.getIndex(messageId)];
+    const index = messages.findIndex((m) => m.id === messageId);
+    return (
+      !!current?.interactionId && index === messages.length - 3 && messages[index + 1].id === current.interactionId
+    );
+  };
+
+  const applyHistoryMove = (move: OptionHistoryMove<BasicOptions> | undefined) => {
+    if (!move) return;
+    for (const entry of move.undone) {
+      if (entry.interactionId) retractMessage(entry.interactionId);
+    }
+    const current = messages.find((m) => m.id === move.messageId)?.options;
+    changeMessageOptions(move.messageId, move.options);
+    if (current) applyThemeSetting(current, move.options);
+    // Re-sending a redone change supersedes any exchange since, so it only happens on the latest message
+    const resent = [...move.redone].reverse().find((entry) => entry.interactionId);
+    if (resent?.interactionId && move.undone.length === 0 && move.messageId === lastAssistantMessage?.id) {
+      sendMessage(interactionMessage(move.options), resent.interactionId);
+    }
+  };
+
+  useUndoRedoShortcuts(
+    () => {
+      const messageId = optionHistory.activeMessageId;
+      if (messageId && canMoveHistory(messageId)) applyHistoryMove(optionHistory.undo(messageId));
+    },
+    () => {
+      const messageId = optionHistory.activeMessageId;
+      if (messageId && canMoveHistory(messageId)) applyHistoryMove(optionHistory.redo(messageId));
+    },
+  );
+
   const lastResponse = messages[messages.length - 1];
   const isInputDisabled =
     isStreaming || (lastResponse?.role === "assistant" && (!lastResponse.optionsDone || !lastResponse.contentDone));
@@ -135,10 +224,12 @@ export function ChatPanelFSM({ currentOptionSet, chatContainerRef }: ChatPanelFS
       <div className={styles.messagesContainer}>
         <ChatHistory
           history={adaptedHistory}
-          historySet={() => {}}
           currentOptionSet={currentOptionSet}
           onRefreshOptions={handleRefreshOptions}
-          onInteract={handleInteract}
+          onOptionsChange={handleOptionsChange}
+          optionHistory={optionHistory}
+          onHistoryMove={applyHistoryMove}
+          canMoveHistory={canMoveHistory}
         />
         <A2UIPanel prompt={a2uiPrompt} />
       </div>
@@ -146,6 +237,7 @@ export function ChatPanelFSM({ currentOptionSet, chatContainerRef }: ChatPanelFS
         <div className={styles.inputWrapper}>
           <ChatInput disabled={isInputDisabled} send={sendMessage} historyState={historyState} />
         </div>
+        <ElaborationSelector strategy={elaborationStrategy} onChange={setElaborationStrategy} disabled={isStreaming} />
         <PromptExport history={adaptedHistory} />
       </div>
     </div>
@@ -0,0 +1,42 @@
+import React from "react";
+import { Dropdown, Option, Tooltip, makeStyles } from "@fluentui/react-components";
+import { ElaborationStrategy, elaborationStrategies } from "@promptions/promptions-ui";
+
+const useStyles = makeStyles({
+    dropdown: {
+        minWidth: "180px",
+    },
+});
+
+interface ElaborationSelectorProps {
+    strategy: ElaborationStrategy;
+    onChange: (strategyId: string) => void;
+    disabled?: boolean;
+}
+
+/**
+ * Picks how the conversation's option selections are presented to the answer model.
+ */
+export const ElaborationSelector: React.FC<ElaborationSelectorProps> = ({ strategy, onChange, disabled }) => {
+    const styles = useStyles();
+
+    return (
+        <Tooltip content={`Selections format: ${strategy.description}`} relationship="description">
+            <Dropdown
+                className={styles.dropdown}
+                size="small"
+                aria-label="Selections format"
+                value={strategy.label}
+                selectedOptions={[strategy.id]}
+                disabled={disabled}
+                onOptionSelect={(_, data) => data.optionValue && onChange(data.optionValue)}
+            >
+                {elaborationStrategies.map((option) => (
+                    <Option key={option.id} value={option.id} text={option.label}>
+                        {option.label}
+                    </Option>
+                ))}
+            </Dropdown>
+        </Tooltip>
+    );
+};
@@ -25,7 +25,7 @@ import {
     History24Regular,
 } from "@fluentui/react-icons";
 import { HistoryMessage, ResponseMessage, RequestMessage } from "../types";
-import { BasicOptions } from "@promptions/promptions-ui";
+import { BasicOptions, formatNumericValue, getChoiceLabel, SerializedOptions } from "@promptions/promptions-ui";
 
 const useStyles = makeStyles({
     dialogContent: {
@@ -124,7 +124,11 @@ interface PromptExportProps {
 
 type ExportFormat = "markdown" | "json" | "timeline";
 
+/** Version of the JSON export; version 1 only carried the readable `selections` summary */
+const EXPORT_VERSION = 2;
+
 interface ConversationExport {
+    version: number;
     exportedAt: string;
     messageCount: number;
     messages: ExportedMessage[];
@@ -133,7 +137,9 @@ interface ConversationExport {
 interface ExportedMessage {
     role: "user" | "assistant" | "error";
     content: string;
-    options?: {
+    /** Complete options, restorable with `OptionSet.fromJSON` */
+    options?: SerializedOptions;
+    selections?: {
         label: string;
         selectedValue: string;
         availableOptions: string[];
@@ -144,7 +150,7 @@ interface ExportedMessage {
 /**
  * Formats options from a ResponseMessage into a readable format
  */
-function formatOptions(options: BasicOptions): ExportedMessage["options"] {
+function formatOptions(options: BasicOptions): ExportedMessage["selections"] {
     if (!options || options.isEmpty()) return undefined;
 
     return options.options
@@ -155,15 +161,23 @@ function formatOptions(options: BasicOptions): ExportedMessage["options"] {
 
             if (opt.kind === "single-select") {
                 const val = Array.isArray(opt.value) ? opt.value[0] : opt.value;
-                selectedValue = opt.options[val] || val;
+                selectedValue = getChoiceLabel(opt, val);
                 availableOptions = Object.values(opt.options);
             } else if (opt.kind === "binary-select") {
                 selectedValue = opt.options[opt.value];
                 availableOptions = [opt.options.enabled, opt.options.disabled];
+            } else if (opt.kind === "slider" || opt.kind === "range") {
+                const format = (value: number) => formatNumericValue(value, opt.unit);
+                selectedValue =
+                    opt.kind === "slider" ? format(opt.value) : `${format(opt.value[0])} – ${format(opt.value[1])}`;
+                availableOptions = [`${format(opt.min)} – ${format(opt.max)}`];
+            } else if (opt.kind === "text-input") {
+                selectedValue = opt.value;
+                availableOptions = [];
             } else {
                 // multi-select
                 const vals = Array.isArray(opt.value) ? opt.value : [opt.value];
-                selectedValue = vals.map((v: string) => opt.options[v] || v).join(", ");
+                selectedValue = vals.map((v: string) => getChoiceLabel(opt, v)).join(", ");
                 availableOptions = Object.values(opt.options);
             }
 
@@ -189,13 +203,14 @@ function historyToExport(history: HistoryMessage[]): ConversationExport {
             });
         } else if (msg.role === "assistant") {
             const assistantMsg = msg as ResponseMessage;
-            const options = formatOptions(assistantMsg.options as BasicOptions);
+            const selections = formatOptions(assistantMsg.options as BasicOptions);
             messages.push({
                 role: "assistant",
                 content: assistantMsg.content,
-                options,
-                optionsFormatted: options
-                    ? options.map((o) => `${o.label}: ${o.selectedValue}`).join("\n")
+                options: assistantMsg.options.isEmpty() ? undefined : assistantMsg.options.toJSON(),
+                selections,
+                optionsFormatted: selections
+                    ? selections.map((o) => `${o.label}: ${o.selectedValue}`).join("\n")
                     : undefined,
             });
         } else if (msg.role === "error") {
@@ -207,6 +222,7 @@ function historyToExport(history: HistoryMessage[]): ConversationExport {
     }
 
     return {
+        version: EXPORT_VERSION,
         exportedAt: new Date().toISOString(),
         messageCount: messages.length,
         messages,
@@ -227,11 +243,13 @@ function exportToMarkdown(data: ConversationExport): string {
             md += `## 👤 User\n\n${msg.content}\n\n`;
         } else if (msg.role === "assistant") {
             md += `## 🤖 Assistant\n\n`;
-            if (msg.options && msg.options.length > 0) {
+            if (msg.selections && msg.selections.length > 0) {
                 md += `### Selected Options\n\n`;
-                for (const opt of msg.options) {
+                for (const opt of msg.selections) {
                     md += `- **${opt.label}:** ${opt.selectedValue}\n`;
-                    md += `  - Available: ${opt.availableOptions.join(", ")}\n`;
+                    if (opt.availableOptions.length > 0) {
+                        md += `  - Available: ${opt.availableOptions.join(", ")}\n`;
+                    }
                 }
                 md += `\n`;
             }
@@ -382,12 +400,12 @@ export const PromptExport: React.FC<PromptExportProps> = ({ history }) => {
                                                           : "⚠️ Error"}
                                                 </span>
                                             </div>
-                                            {msg.options && msg.options.length > 0 && (
+                                            {msg.selections && msg.selections.length > 0 && (
                                                 <div
                                                     className={styles.optionChange}
                                                     aria-label="Selected options"
                                                 >
-                                                    {msg.options.map((opt, optIdx) => (
+                                                    {msg.selections.map((opt, optIdx) => (
                                                         <Badge
                                                             key={optIdx}
                                                             appearance="outline"
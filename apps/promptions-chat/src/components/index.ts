@@ -10,5 +10,6 @@ export { Login } from "./Login";
 export { ModelSelector } from "./ModelSelector";
 export { ErrorBoundary, ErrorFallback } from "./ErrorBoundary";
 export { PromptExport } from "./PromptExport";
+export { ElaborationSelector } from "./ElaborationSelector";
 export { A2UIPanel } from "./A2UIPanel";
 export { ChatPanelFSM } from "./ChatPanelFSM";
@@ -0,0 +1,79 @@
+import * as z from "zod";
+import { Dropdown, Option } from "@fluentui/react-components";
+import { controlBaseShape } from "@promptions/promptions-ui";
+import type { ControlRendererProps, VisualControlKind } from "@promptions/promptions-ui";
+
+const ticketPickerControl = z
+    .object({
+        kind: z.literal("ticket-picker"),
+        ...controlBaseShape,
+        tickets: z.record(z.string(), z.string()),
+        value: z.string(),
+    })
+    .refine((control) => control.value in control.tickets, {
+        message: "Value must be one of the ticket keys",
+        path: ["value"],
+    });
+
+type TicketPickerControl = z.infer<typeof ticketPickerControl>;
+
+function ticketTitle(control: TicketPickerControl): string {
+    return `${control.value}: ${control.tickets[control.value]}`;
+}
+
+const TicketPicker: React.FC<ControlRendererProps<TicketPickerControl>> = ({
+    control,
+    onChange,
+    disabled,
+    compact,
+}) => (
+    <Dropdown
+        size={compact ? "small" : "medium"}
+        value={ticketTitle(control)}
+        selectedOptions={[control.value]}
+        disabled={disabled}
+        aria-label={control.label}
+        onOptionSelect={(_, data) => {
+            if (data.optionValue) onChange({ ...control, value: data.optionValue });
+        }}
+    >
+        {Object.entries(control.tickets).map(([key, title]) => (
+            <Option key={key} value={key} text={`${key}: ${title}`}>
+                {`${key}: ${title}`}
+            </Option>
+        ))}
+    </Dropdown>
+);
+
+/**
+ * Pick one ticket of the internal tracker, e.g. the one a bug report or a release note is about.
+ */
+const ticketPickerKind: VisualControlKind<TicketPickerControl> = {
+    kind: "ticket-picker",
+    schema: ticketPickerControl,
+    schemaSpec: `interface TicketPickerControl {
+  kind: "ticket-picker";
+  id?: string;
+  label: string;
+  description?: string;
+  /** Tickets the user can pick from, keyed by ticket key, e.g. { "PROJ-123": "Login fails on Safari" } */
+  tickets: Record<string, string>;
+  /** Key of the selected ticket; must be one of the keys in tickets */
+  value: string;
+}`,
+    prettyPrint: (control) => `${control.label}: ${ticketTitle(control)}`,
+    formatAnswer: (control) => ticketTitle(control),
+    formatQuestion: (control) => `Which ticket is this about (${control.label})?`,
+    completePartial: (control) => {
+        const tickets = control.tickets && typeof control.tickets === "object" ? control.tickets : {};
+        return { ...control, tickets, value: control.value ?? Object.keys(tickets)[0] };
+    },
+    Component: TicketPicker,
+};
+
+/**
+ * Domain-specific control kinds offered to the model on top of the built-in ones, such as a ticket picker backed
+ * by an internal tracker. Each kind brings its zod schema, schema-spec snippet, pretty printer and renderer
+ * component; every option set the app offers understands every kind listed here.
+ */
+export const customControlKinds = [ticketPickerKind];
@@ -1,10 +1,12 @@
-import { useCallback, useEffect } from "react";
+import { useCallback, useEffect, useRef } from "react";
 import { useMachine } from "@xstate/react";
 import { fromCallback, setup } from "xstate";
 import { ChatService, ApiKeys } from "../services/ChatService";
 import type { ModelInfo } from "../config/ModelConfig";
-import type { VisualOptionSet, BasicOptions } from "@promptions/promptions-ui";
+import { DEFAULT_ELABORATION_STRATEGY, getElaborationStrategy } from "@promptions/promptions-ui";
+import type { VisualOptionSet, BasicOptions, ElaborationStrategy } from "@promptions/promptions-ui";
 import { PromptionsService, ChatMessage } from "../services/PromptionsService";
+import { loadConversation, saveConversation } from "../services/ConversationStorage";
 
 export interface Message {
   id: string;
@@ -18,15 +20,22 @@ export interface Message {
 interface ChatContext {
   messages: Message[];
   pendingMessage: string;
+  /** Id for the pending user message when the sender needs to refer to it later, e.g. to retract it */
+  pendingMessageId: string;
   refreshMessageId: string;
+  /** Options of the refreshed message before the refresh, merged into every streamed update */
+  refreshBaseOptions: BasicOptions | null;
   error: string | null;
   selectedModel: ModelInfo | null;
   apiKeys: ApiKeys;
   optionSet: VisualOptionSet<BasicOptions> | null;
+  /** How option selections are presented to the answer model, chosen per conversation */
+  elaborationStrategy: ElaborationStrategy;
 }
 
 type ChatEvent =
-  | { type: "SEND"; content: string }
+  | { type: "SEND"; content: string; id?: string }
+  | { type: "RETRACT"; messageId: string }
   | { type: "CANCEL" }
   | { type: "RETRY" }
   | { type: "REFRESH_OPTIONS"; messageId: string }
@@ -37,7 +46,11 @@ type ChatEvent =
   | { type: "STREAM_ERROR"; error: string }
   | { type: "MODEL_CHANGE"; model: ModelInfo }
   | { type: "API_KEYS_CHANGE"; apiKeys: ApiKeys }
-  | { type: "OPTION_SET_CHANGE"; optionSet: VisualOptionSet<BasicOptions> };
+  | { type: "OPTION_SET_CHANGE"; optionSet: VisualOptionSet<BasicOptions> }
+  | { type: "OPTIONS_CHANGE"; messageId: string; options: BasicOptions }
+  | { type: "ELABORATION_CHANGE"; strategy: ElaborationStrategy }
+  | { type: "RESTORE"; messages: Message[]; elaborationStrategy: ElaborationStrategy }
+  | { type: "CLEAR" };
 
 type StreamOptionsInput = {
   messages: Message[];
@@ -46,6 +59,8 @@ type StreamOptionsInput = {
   apiKeys: ApiKeys;
   isRefresh: boolean;
   refreshMessageId: string;
+  refreshBaseOptions: BasicOptions | null;
+  elaborationStrategy: ElaborationStrategy;
 };
 
 type StreamContentInput = {
@@ -53,28 +68,31 @@ type StreamContentInput = {
   optionSet: VisualOptionSet<BasicOptions> | null;
   model: ModelInfo | null;
   apiKeys: ApiKeys;
+  elaborationStrategy: ElaborationStrategy;
 };
 
+// Render a message's selections with the conversation's strategy: an optional question turn, then the answer
+function elaborateOptions(options: BasicOptions, strategy: ElaborationStrategy): ChatMessage[] {
+  const elaborated = strategy.elaborate(options);
+  if (!elaborated) return [];
+  const output: ChatMessage[] = [];
+  if (elaborated.question) {
+    output.push({ role: "assistant", content: elaborated.question });
+  }
+  output.push({ role: "user", content: elaborated.answer });
+  return output;
+}
+
 // Helper to convert Message[] to ChatMessage[]
-function elaborateMessagesWithOptions(messages: Message[]): ChatMessage[] {
+function elaborateMessagesWithOptions(messages: Message[], strategy: ElaborationStrategy): ChatMessage[] {
   const output: ChatMessage[] = [];
   for (const msg of messages) {
     if (msg.role === "user") {
       output.push({ role: "user", content: msg.content });
     }
     if (msg.role === "assistant" && msg.options) {
-      const options = msg.options;
-      if (options.prettyPrintAsConversation) {
-        const { question, answer } = options.prettyPrintAsConversation();
-        output.push({ role: "assistant", content: question });
-        output.push({ role: "user", content: answer });
-        output.push({ role: "assistant", content: msg.content });
-      } else if (options.prettyPrint) {
-        output.push({ role: "user", content: options.prettyPrint() });
-        output.push({ role: "assistant", content: msg.content });
-      } else {
-        output.push({ role: "assistant", content: msg.content });
-      }
+      output.push(...elaborateOptions(msg.options, strategy));
+      output.push({ role: "assistant", content: msg.content });
     }
   }
   return output;
@@ -101,7 +119,7 @@ const chatSetup = setup({
         try {
           // Build history for options request
           const msgs = input.isRefresh ? input.messages.slice(0, -1) : input.messages.slice(0, -2);
-          const history = elaborateMessagesWithOptions(msgs);
+          const history = elaborateMessagesWithOptions(msgs, input.elaborationStrategy);
           const userMessage = input.isRefresh
             ? input.messages.find((m) => m.id === input.refreshMessageId)?.content
             : input.messages[input.messages.length - 2]?.content;
@@ -111,22 +129,30 @@ const chatSetup = setup({
           }
 
           if (input.isRefresh) {
-            const refreshMsg = input.messages.find((m) => m.id === input.refreshMessageId);
-            if (refreshMsg?.options) {
-              await promptions.refreshOptions(refreshMsg.options, history, (options, done) => {
+            if (input.refreshBaseOptions) {
+              await promptions.refreshOptions(
+                input.refreshBaseOptions,
+                history,
+                (options, done) => {
+                  sendBack({ type: "OPTIONS_UPDATE", options: options as BasicOptions, done });
+                  if (done) {
+                    sendBack({ type: "OPTIONS_DONE" });
+                  }
+                },
+                { signal: abortController.signal, model: input.model },
+              );
+            }
+          } else {
+            await promptions.getOptions(
+              history,
+              (options, done) => {
                 sendBack({ type: "OPTIONS_UPDATE", options: options as BasicOptions, done });
                 if (done) {
                   sendBack({ type: "OPTIONS_DONE" });
                 }
-              });
-            }
-          } else {
-            await promptions.getOptions(history, (options, done) => {
-              sendBack({ type: "OPTIONS_UPDATE", options: options as BasicOptions, done });
-              if (done) {
-                sendBack({ type: "OPTIONS_DONE" });
-              }
-            });
+              },
+              { signal: abortController.signal, model: input.model },
+            );
           }
         } catch (err) {
           if (err instanceof DOMException && err.name === "AbortError") {
@@ -155,13 +181,13 @@ const chatSetup = setup({
               content:
                 "You are a helpful AI chat bot. When responding to a user consider whether they have provided any additional settings or selections. If they have, do not ask them extra follow-up questions but continue with their intent based on the context.",
             },
-            ...elaborateMessagesWithOptions(input.messages.slice(0, -1)),
+            ...elaborateMessagesWithOptions(input.messages.slice(0, -1), input.elaborationStrategy),
           ];
 
           // Add the current message's options
           const lastMsg = input.messages[input.messages.length - 1];
-          if (lastMsg?.options?.prettyPrint) {
-            history.push({ role: "user", content: lastMsg.options.prettyPrint() });
+          if (lastMsg?.options) {
+            history.push(...elaborateOptions(lastMsg.options, input.elaborationStrategy));
           }
 
           await chat.streamChat(
@@ -190,27 +216,67 @@ const chatSetup = setup({
   },
 });
 
+const queueMessage = chatSetup.assign(({ event }) => {
+  const e = event as { type: "SEND"; content: string; id?: string };
+  return { pendingMessage: e.content, pendingMessageId: e.id ?? "" };
+});
+
+// Conversation edits, accepted whenever no request is in flight
+const clearMessages = chatSetup.assign({ messages: [], error: null });
+
+const restoreMessages = chatSetup.assign(({ event }) => {
+  const e = event as { type: "RESTORE"; messages: Message[]; elaborationStrategy: ElaborationStrategy };
+  return { messages: e.messages, elaborationStrategy: e.elaborationStrategy };
+});
+
+const changeElaboration = chatSetup.assign({
+  elaborationStrategy: ({ event }) => (event as { type: "ELABORATION_CHANGE"; strategy: ElaborationStrategy }).strategy,
+});
+
+const changeOptions = chatSetup.assign({
+  messages: ({ context, event }) => {
+    const e = event as { type: "OPTIONS_CHANGE"; messageId: string; options: BasicOptions };
+    return context.messages.map((m) => (m.id === e.messageId ? { ...m, options: e.options } : m));
+  },
+});
+
+// Only the last exchange can be retracted, so earlier answers never lose the messages they were based on
+const canRetract = ({ context, event }: { context: ChatContext; event: ChatEvent }) => {
+  const index = context.messages.findIndex((m) => m.id === (event as { type: "RETRACT"; messageId: string }).messageId);
+  return index >= 0 && index >= context.messages.length - 2;
+};
+
+const retractMessage = chatSetup.assign({
+  messages: ({ context, event }) => {
+    const e = event as { type: "RETRACT"; messageId: string };
+    return context.messages.slice(0, context.messages.findIndex((m) => m.id === e.messageId));
+  },
+});
+
 const chatMachine = chatSetup.createMachine({
   id: "streamingChat",
   initial: "idle",
   context: {
     messages: [],
     pendingMessage: "",
+    pendingMessageId: "",
     refreshMessageId: "",
+    refreshBaseOptions: null,
     error: null,
     selectedModel: null,
     apiKeys: {},
     optionSet: null,
+    elaborationStrategy: DEFAULT_ELABORATION_STRATEGY,
   },
   states: {
     idle: {
       on: {
-        SEND: {
-          target: "preparing",
-          actions: chatSetup.assign({
-            pendingMessage: ({ event }) => (event as { type: "SEND"; content: string }).content,
-          }),
-        },
+        SEND: { target: "preparing", actions: queueMessage },
+        RESTORE: { actions: restoreMessages },
+        CLEAR: { actions: clearMessages },
+        OPTIONS_CHANGE: { actions: changeOptions },
+        RETRACT: { guard: canRetract, actions: retractMessage },
+        ELABORATION_CHANGE: { actions: changeElaboration },
         MODEL_CHANGE: {
           actions: chatSetup.assign({
             selectedModel: ({ event }) => (event as { type: "MODEL_CHANGE"; model: ModelInfo }).model,
@@ -233,7 +299,11 @@ const chatMachine = chatSetup.createMachine({
       entry: chatSetup.assign({
         messages: ({ context }) => [
           ...context.messages,
-          { id: crypto.randomUUID(), role: "user" as const, content: context.pendingMessage },
+          {
+            id: context.pendingMessageId || crypto.randomUUID(),
+            role: "user" as const,
+            content: context.pendingMessage,
+          },
           {
             id: crypto.randomUUID(),
             role: "assistant" as const,
@@ -244,6 +314,7 @@ const chatMachine = chatSetup.createMachine({
           },
         ],
         pendingMessage: "",
+        pendingMessageId: "",
         error: null,
       }),
       always: "streamingOptions",
@@ -259,6 +330,8 @@ const chatMachine = chatSetup.createMachine({
           apiKeys: context.apiKeys,
           isRefresh: false,
           refreshMessageId: "",
+          refreshBaseOptions: null,
+          elaborationStrategy: context.elaborationStrategy,
         }),
       },
       on: {
@@ -269,10 +342,8 @@ const chatMachine = chatSetup.createMachine({
               const msgs = [...context.messages];
               const last = msgs[msgs.length - 1];
               if (last?.role === "assistant" && context.optionSet) {
-                last.options = context.optionSet.mergeOptions(
-                  (last.options || context.optionSet.emptyOptions()) as BasicOptions,
-                  e.options,
-                );
+                // Each update is a snapshot of the whole response so far, so it replaces the previous one
+                last.options = e.options;
                 last.optionsDone = e.done;
               }
               return msgs;
@@ -292,6 +363,7 @@ const chatMachine = chatSetup.createMachine({
             messages: ({ context }) => context.messages.slice(0, -2),
           }),
         },
+        RETRACT: { guard: canRetract, target: "complete", actions: retractMessage },
       },
     },
 
@@ -303,6 +375,7 @@ const chatMachine = chatSetup.createMachine({
           optionSet: context.optionSet,
           model: context.selectedModel,
           apiKeys: context.apiKeys,
+          elaborationStrategy: context.elaborationStrategy,
         }),
       },
       on: {
@@ -340,6 +413,7 @@ const chatMachine = chatSetup.createMachine({
             },
           }),
         },
+        RETRACT: { guard: canRetract, target: "complete", actions: retractMessage },
       },
     },
 
@@ -353,6 +427,8 @@ const chatMachine = chatSetup.createMachine({
           apiKeys: context.apiKeys,
           isRefresh: true,
           refreshMessageId: context.refreshMessageId,
+          refreshBaseOptions: context.refreshBaseOptions,
+          elaborationStrategy: context.elaborationStrategy,
         }),
       },
       on: {
@@ -363,8 +439,9 @@ const chatMachine = chatSetup.createMachine({
               const msgs = [...context.messages];
               const target = msgs.find((m) => m.id === context.refreshMessageId);
               if (target?.role === "assistant" && context.optionSet) {
+                // Merge into the options from before the refresh so the user's selections carry over
                 target.options = context.optionSet.mergeOptions(
-                  (target.options || context.optionSet.emptyOptions()) as BasicOptions,
+                  context.refreshBaseOptions || context.optionSet.emptyOptions(),
                   e.options,
                 );
                 target.optionsDone = e.done;
@@ -375,34 +452,38 @@ const chatMachine = chatSetup.createMachine({
         },
         OPTIONS_DONE: {
           target: "complete",
-          actions: chatSetup.assign({ refreshMessageId: "" }),
+          actions: chatSetup.assign({ refreshMessageId: "", refreshBaseOptions: null }),
         },
         STREAM_ERROR: {
           target: "error",
           actions: chatSetup.assign({
             error: ({ event }) => (event as { type: "STREAM_ERROR"; error: string }).error,
             refreshMessageId: "",
+            refreshBaseOptions: null,
           }),
         },
         CANCEL: {
           target: "complete",
-          actions: chatSetup.assign({ refreshMessageId: "" }),
+          actions: chatSetup.assign({ refreshMessageId: "", refreshBaseOptions: null }),
         },
       },
     },
 
     complete: {
       on: {
-        SEND: {
-          target: "preparing",
-          actions: chatSetup.assign({
-            pendingMessage: ({ event }) => (event as { type: "SEND"; content: string }).content,
-          }),
-        },
+        SEND: { target: "preparing", actions: queueMessage },
+        CLEAR: { target: "idle", actions: clearMessages },
+        OPTIONS_CHANGE: { actions: changeOptions },
+        RETRACT: { guard: canRetract, actions: retractMessage },
+        ELABORATION_CHANGE: { actions: changeElaboration },
         REFRESH_OPTIONS: {
           target: "refreshingOptions",
           actions: chatSetup.assign({
             refreshMessageId: ({ event }) => (event as { type: "REFRESH_OPTIONS"; messageId: string }).messageId,
+            refreshBaseOptions: ({ context, event }) => {
+              const e = event as { type: "REFRESH_OPTIONS"; messageId: string };
+              return context.messages.find((m) => m.id === e.messageId)?.options ?? null;
+            },
             messages: ({ context, event }) => {
               const e = event as { type: "REFRESH_OPTIONS"; messageId: string };
               // Clear options and content for the refreshed message
@@ -440,12 +521,11 @@ const chatMachine = chatSetup.createMachine({
 
     error: {
       on: {
-        SEND: {
-          target: "preparing",
-          actions: chatSetup.assign({
-            pendingMessage: ({ event }) => (event as { type: "SEND"; content: string }).content,
-          }),
-        },
+        SEND: { target: "preparing", actions: queueMessage },
+        CLEAR: { target: "idle", actions: clearMessages },
+        OPTIONS_CHANGE: { actions: changeOptions },
+        RETRACT: { guard: canRetract, actions: retractMessage },
+        ELABORATION_CHANGE: { actions: changeElaboration },
         RETRY: "streamingOptions",
         MODEL_CHANGE: {
           actions: chatSetup.assign({
@@ -469,6 +549,7 @@ const chatMachine = chatSetup.createMachine({
 
 export function useStreamingChat(optionSet?: VisualOptionSet<BasicOptions>) {
   const [state, send] = useMachine(chatMachine);
+  const restored = useRef(false);
 
   // Sync optionSet when it changes
   useEffect(() => {
@@ -477,9 +558,37 @@ export function useStreamingChat(optionSet?: VisualOptionSet<BasicOptions>) {
     }
   }, [optionSet, send]);
 
+  // Rehydrate the saved conversation once an option set is available to deserialize its options
+  useEffect(() => {
+    if (optionSet && !restored.current) {
+      restored.current = true;
+      const conversation = loadConversation(optionSet);
+      if (conversation) {
+        send({ type: "RESTORE", ...conversation });
+      }
+    }
+  }, [optionSet, send]);
+
+  const currentState = state.value as string;
+  const canSend = ["idle", "complete", "error"].includes(currentState);
+
+  // Save whenever the conversation settles; partially streamed messages are never stored
+  useEffect(() => {
+    if (restored.current && canSend) {
+      saveConversation(state.context.messages, state.context.elaborationStrategy);
+    }
+  }, [state.context.messages, state.context.elaborationStrategy, canSend]);
+
   const sendMessage = useCallback(
-    (content: string) => {
-      send({ type: "SEND", content });
+    (content: string, id?: string) => {
+      send({ type: "SEND", content, id });
+    },
+    [send],
+  );
+
+  const retractMessage = useCallback(
+    (messageId: string) => {
+      send({ type: "RETRACT", messageId });
     },
     [send],
   );
@@ -513,7 +622,23 @@ export function useStreamingChat(optionSet?: VisualOptionSet<BasicOptions>) {
     [send],
   );
 
-  const currentState = state.value as string;
+  const changeMessageOptions = useCallback(
+    (messageId: string, options: BasicOptions) => {
+      send({ type: "OPTIONS_CHANGE", messageId, options });
+    },
+    [send],
+  );
+
+  const setElaborationStrategy = useCallback(
+    (strategyId: string) => {
+      send({ type: "ELABORATION_CHANGE", strategy: getElaborationStrategy(strategyId) });
+    },
+    [send],
+  );
+
+  const clear = useCallback(() => {
+    send({ type: "CLEAR" });
+  }, [send]);
 
   return {
     state: currentState,
@@ -522,12 +647,17 @@ export function useStreamingChat(optionSet?: VisualOptionSet<BasicOptions>) {
     isStreaming: ["streamingOptions", "streamingContent", "refreshingOptions"].includes(currentState),
     isStreamingOptions: currentState === "streamingOptions" || currentState === "refreshingOptions",
     isStreamingContent: currentState === "streamingContent",
-    canSend: ["idle", "complete", "error"].includes(currentState),
+    canSend,
     sendMessage,
+    retractMessage,
     cancel,
     retry,
     refreshOptions,
     setModel,
     setApiKeys,
+    changeMessageOptions,
+    elaborationStrategy: state.context.elaborationStrategy,
+    setElaborationStrategy,
+    clear,
   };
 }
@@ -22,6 +22,14 @@ export interface ChatOptions {
     retryDelay?: number;
     /** User-provided API keys (optional, falls back to server keys) */
     apiKeys?: ApiKeys;
+    /** JSON Schema the response must follow, sent as the provider's structured-output format */
+    responseSchema?: ResponseSchema;
+}
+
+export interface ResponseSchema {
+    /** Schema name reported to the provider (OpenAI requires one) */
+    name: string;
+    schema: Record<string, unknown>;
 }
 
 /** Error types that are safe to retry (excludes 401 auth errors) */
@@ -54,6 +62,24 @@ function sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * Check whether a model accepts a JSON Schema for constrained decoding. OpenRouter only forwards
+ * `response_format` to upstream models that support it, so only OpenAI and Google models are assumed to.
+ */
+export function supportsStructuredOutput(model?: ModelInfo | null): boolean {
+    const provider = model?.provider || "openai";
+    const modelId = (model?.id || "gpt-4.1").toLowerCase();
+    const name = provider === "openrouter" ? modelId.replace(/^(openai|google)\//, "") : modelId;
+
+    if (provider === "openrouter" && name === modelId) {
+        return false;
+    }
+    if (name.startsWith("gemini")) {
+        return !name.startsWith("gemini-1.0") && name !== "gemini-pro";
+    }
+    return /^(gpt-4o|gpt-4\.1|gpt-5|o1|o3|o4)/.test(name);
+}
+
 // Get the API base URL - use relative path in production (same origin)
 // or localhost in development
 function getApiBaseUrl(): string {
@@ -163,6 +189,7 @@ export class ChatService {
                     temperature: options?.temperature ?? 0.7,
                     max_tokens: options?.maxTokens ?? 1000,
                     apiKeys: options?.apiKeys,
+                    responseSchema: options?.responseSchema,
                 }),
                 signal: options?.signal,
             });
@@ -250,6 +277,7 @@ export class ChatService {
                             temperature: options?.temperature ?? 0.7,
                             max_tokens: options?.maxTokens ?? 1000,
                             apiKeys: options?.apiKeys,
+                            responseSchema: options?.responseSchema,
                         }),
                     }),
                 {
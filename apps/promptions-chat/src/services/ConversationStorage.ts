@@ -0,0 +1,94 @@
+import { getElaborationStrategy } from "@promptions/promptions-ui";
+import type { BasicOptions, ElaborationStrategy, OptionSet, SerializedOptions } from "@promptions/promptions-ui";
+import type { Message } from "../machine/useStreamingChat";
+
+const STORAGE_KEY = "promptions-conversation";
+const STORAGE_VERSION = 1;
+
+export interface StoredMessage {
+    id: string;
+    role: Message["role"];
+    content: string;
+    options?: SerializedOptions;
+}
+
+export interface StoredConversation {
+    version: number;
+    messages: StoredMessage[];
+    /** Id of the elaboration strategy chosen for this conversation */
+    elaborationStrategy?: string;
+}
+
+export interface RestoredConversation {
+    messages: Message[];
+    elaborationStrategy: ElaborationStrategy;
+}
+
+/**
+ * Convert messages into their storable form, serializing live options with `Options.toJSON`.
+ */
+export function serializeConversation(
+    messages: Message[],
+    elaborationStrategy: ElaborationStrategy,
+): StoredConversation {
+    return {
+        version: STORAGE_VERSION,
+        elaborationStrategy: elaborationStrategy.id,
+        messages: messages.map((m) => ({
+            id: m.id,
+            role: m.role,
+            content: m.content,
+            options: m.options && !m.options.isEmpty() ? m.options.toJSON() : undefined,
+        })),
+    };
+}
+
+/**
+ * Rebuild messages from their stored form. Options are rehydrated through the option set so they come back as
+ * interactive controls; options that no longer validate are dropped rather than failing the whole conversation.
+ */
+export function deserializeConversation(
+    data: unknown,
+    optionSet: OptionSet<BasicOptions>,
+): RestoredConversation | undefined {
+    const conversation = data as Partial<StoredConversation> | null;
+    if (!conversation || conversation.version !== STORAGE_VERSION || !Array.isArray(conversation.messages)) {
+        return undefined;
+    }
+
+    return {
+        messages: conversation.messages.map((m) => ({
+            id: m.id,
+            role: m.role,
+            content: m.content,
+            options: m.options ? optionSet.fromJSON(m.options) : undefined,
+            optionsDone: true,
+            contentDone: true,
+        })),
+        elaborationStrategy: getElaborationStrategy(conversation.elaborationStrategy),
+    };
+}
+
+export function loadConversation(optionSet: OptionSet<BasicOptions>): RestoredConversation | undefined {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+            return deserializeConversation(JSON.parse(stored), optionSet);
+        }
+    } catch {
+        // Ignore storage errors
+    }
+    return undefined;
+}
+
+export function saveConversation(messages: Message[], elaborationStrategy: ElaborationStrategy) {
+    try {
+        if (messages.length === 0) {
+            localStorage.removeItem(STORAGE_KEY);
+        } else {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(serializeConversation(messages, elaborationStrategy)));
+        }
+    } catch {
+        // Ignore storage errors
+    }
+}
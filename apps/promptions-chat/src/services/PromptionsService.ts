@@ -1,5 +1,12 @@
-import { ChatService } from "./ChatService";
-import { Options, OptionSet } from "@promptions/promptions-llm";
+import { ChatService, supportsStructuredOutput } from "./ChatService";
+import type { ModelInfo } from "../config/ModelConfig";
+import { formatDiagnostics, Options, OptionSet, OptionsValidationResult } from "@promptions/promptions-llm";
+
+// How many times the model is asked to correct options that failed validation
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Id of the Theme control shown by /settings, which switches the app's theme when changed
+export const THEME_SETTING_ID = "app-theme";
 
 export interface ChatMessage {
     role: "user" | "assistant" | "system";
@@ -18,7 +25,7 @@ export class PromptionsService {
     async getOptions(
         chatHistory: ChatMessage[],
         onOptions: (options: Options, done: boolean) => void,
-        options?: { signal?: AbortSignal },
+        options?: { signal?: AbortSignal; model?: ModelInfo | null },
     ): Promise<void> {
         // Check for deterministic options first
         const deterministicOptions = this.checkDeterministicOptions(chatHistory);
@@ -27,6 +34,115 @@ export class PromptionsService {
             return;
         }
 
+        // Prefer constrained decoding; the fenced-JSON prompt below stays as the fallback
+        const jsonSchema = this.optionSet.getJsonSchema?.();
+        const structured = jsonSchema !== undefined && supportsStructuredOutput(options?.model);
+        let useStructured = structured;
+
+        await this.streamValidatedOptions(onOptions, async (followUp, onContent) => {
+            if (useStructured && jsonSchema) {
+                let receivedContent = false;
+                try {
+                    await this.chatService.streamChat(
+                        [...this.buildOptionsMessages(chatHistory, true), ...followUp],
+                        (content, done) => {
+                            receivedContent = receivedContent || content.length > 0;
+                            onContent(content, done);
+                        },
+                        { ...options, responseSchema: { name: "promptions_options", schema: jsonSchema } },
+                    );
+                    return;
+                } catch (error) {
+                    // Only retry when the provider rejected the schema up front, never after options started streaming
+                    if (receivedContent || (error instanceof DOMException && error.name === "AbortError")) {
+                        throw error;
+                    }
+                    console.warn("Structured output request failed, falling back to fenced JSON:", error);
+                    useStructured = false;
+                }
+            }
+
+            await this.chatService.streamChat(
+                [...this.buildOptionsMessages(chatHistory, false), ...followUp],
+                onContent,
+                options,
+            );
+        });
+    }
+
+    /**
+     * Stream options and validate the final response. When validation fails, the model's response is sent back
+     * together with the diagnostics so it can correct itself, up to `MAX_REPAIR_ATTEMPTS` times. If it still
+     * fails, whatever controls did validate are used, and only when none did is an error thrown.
+     *
+     * `stream` performs one request with the given follow-up messages appended to the prompt.
+     */
+    private async streamValidatedOptions(
+        onOptions: (options: Options, done: boolean) => void,
+        stream: (followUp: ChatMessage[], onContent: (content: string, done: boolean) => void) => Promise<void>,
+    ): Promise<void> {
+        const followUp: ChatMessage[] = [];
+
+        for (let attempt = 0; ; attempt++) {
+            const parsePartial = this.createPartialParser();
+            let finalContent = "";
+
+            await stream(followUp, (content, done) => {
+                if (done) {
+                    finalContent = content;
+                    return;
+                }
+                const partialOptions = parsePartial(content);
+                if (partialOptions) {
+                    onOptions(partialOptions, false);
+                }
+            });
+
+            const jsonMatch = finalContent.match(/```json\s*([\s\S]*?)\s*```/);
+            const jsonText = jsonMatch ? jsonMatch[1] : finalContent.trim();
+            const result = this.validateWithDiagnostics(jsonText);
+            if (result.repairs.length > 0) {
+                console.info("Repaired options:\n" + result.repairs.join("\n"));
+            }
+            if (result.options) {
+                return onOptions(result.options, true);
+            }
+
+            const diagnostics = formatDiagnostics(result.issues);
+            if (attempt >= MAX_REPAIR_ATTEMPTS) {
+                if (result.salvaged) {
+                    console.warn(`Dropping invalid option controls:\n${diagnostics}`);
+                    return onOptions(result.salvaged, true);
+                }
+                throw new Error(`Invalid options JSON:\n${diagnostics}`);
+            }
+
+            console.warn(`Options failed validation, asking the model to correct them:\n${diagnostics}`);
+            followUp.push(
+                { role: "assistant", content: finalContent },
+                {
+                    role: "user",
+                    content: `Your options did not match the schema. Fix these problems and return the complete corrected JSON in the same format, without any explanation:\n${diagnostics}`,
+                },
+            );
+        }
+    }
+
+    private validateWithDiagnostics(jsonText: string): OptionsValidationResult<Options> {
+        if (this.optionSet.validateJSONWithDiagnostics) {
+            return this.optionSet.validateJSONWithDiagnostics(jsonText);
+        }
+        const parsedOptions = this.optionSet.validateJSON(jsonText);
+        return parsedOptions
+            ? { options: parsedOptions, issues: [], repairs: [] }
+            : { issues: [{ path: [], message: "The response did not match the schema" }], repairs: [] };
+    }
+
+    private buildOptionsMessages(chatHistory: ChatMessage[], structured: boolean): ChatMessage[] {
+        const outputFormat = structured
+            ? "You must return a single JSON object that follows this exact schema:"
+            : "You must return a single JSON object (within \`\`\`json blocks) that follows this exact schema:";
+
         const systemPrompt: ChatMessage = {
             role: "system",
             content: `You are an AI assistant that generates interactive, beautiful, and highly context-aware interfaces.
@@ -34,7 +150,7 @@ export class PromptionsService {
 Your goal is to transform the user's needs into a dynamic application.
 
 Output Format:
-You must return a single JSON object (within \`\`\`json blocks) that follows this exact schema:
+${outputFormat}
 ${this.optionSet.getSchemaSpec()}
 
 Capabilities & Guidelines:
@@ -44,8 +160,11 @@ Capabilities & Guidelines:
    - 'main': For data-heavy or primary workspaces.
    - 'full': For immersive experiences or dashboards.
 3. **The Sandbox (canvas):** When high-level interactive visualizations, games, or custom simulations are needed, use a 'canvas' control. Generate high-quality raw HTML and JS. You can use Tailwind CSS via CDN classes.
-4. **Standard Controls (options):** Use single-select, multi-select, and binary-select for structured data capture.
-5. **Interactive Feedback:** If the conversation history includes "[Interaction: ...]", acknowledge the user's specific UI modulation in your thought process and update the UI accordingly.
+4. **Standard Controls (options):** Use single-select, multi-select, and binary-select for structured data capture. Set 'allowOther' when the listed choices may not cover what the user wants, and use 'text-input' when the answer is genuinely free-form (a name, a topic, a constraint).
+5. **Numeric Controls (slider, range):** Use 'slider' for a single continuous quantity (length in words, tone, temperature) and 'range' when the user should pick a lower and upper bound (budget, date span). Always give sensible min, max, step and unit.
+6. **Conditional Controls (visibleWhen):** When a control only matters for some answers to another control, attach a 'visibleWhen' clause referencing that control's exact label (e.g. show "Citation style" only when "Include sources" is enabled) instead of asking everything up front.
+7. **Explain Choices (description, choiceDescriptions, rationale):** When a label alone does not say what a control or choice will change (e.g. "Accurate (High Quality)"), add a one-sentence 'description' to the control or 'choiceDescriptions' for its choices. Use 'rationale' to say why you proposed a control that the user might not expect.
+8. **Interactive Feedback:** If the conversation history includes "[Interaction: ...]", acknowledge the user's specific UI modulation in your thought process and update the UI accordingly.
 
 Design Philosophy:
 - **Premium Aesthetics:** Use modern terminology in labels.
@@ -59,40 +178,20 @@ Example output format:
   "layout": "main",
   "options": [
     { "kind": "canvas", "label": "Solar System Simulator", "code": "..." },
-    { "kind": "single-select", "label": "Zoom Level", ... }
+    { "kind": "single-select", "label": "Zoom Level", "description": "How much of the system is in view", ... }
   ]
 }
 \`\`\``,
         };
 
-        const messages: ChatMessage[] = [systemPrompt, ...chatHistory];
-
-        await this.chatService.streamChat(
-            messages,
-            (content, done) => {
-                if (done) {
-                    const jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/);
-                    const jsonText = jsonMatch ? jsonMatch[1] : content.trim();
-                    const parsedOptions = this.optionSet.validateJSON(jsonText);
-                    if (!parsedOptions) {
-                        throw new Error(`Invalid options JSON: ${jsonText}`);
-                    }
-                    return onOptions(parsedOptions, true);
-                }
-                const partialOptions = this.tryParsePartialOptions(content);
-                if (partialOptions) {
-                    onOptions(partialOptions, done);
-                }
-            },
-            options,
-        );
+        return [systemPrompt, ...chatHistory];
     }
 
     async refreshOptions(
         existingOptions: Options,
         chatHistory: ChatMessage[],
         onOptions: (options: Options, done: boolean) => void,
-        options?: { signal?: AbortSignal },
+        options?: { signal?: AbortSignal; model?: ModelInfo | null },
     ): Promise<void> {
         const formattedExistingOptions = existingOptions.prettyPrint();
 
@@ -131,35 +230,29 @@ Example output format:
 
         const messages: ChatMessage[] = [systemPrompt, ...chatHistory];
 
-        await this.chatService.streamChat(
-            messages,
-            (content, done) => {
-                if (done) {
-                    const jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/);
-                    const jsonText = jsonMatch ? jsonMatch[1] : content.trim();
-                    const parsedOptions = this.optionSet.validateJSON(jsonText);
-                    if (!parsedOptions) {
-                        throw new Error(`Invalid options JSON: ${jsonText}`);
-                    }
-                    return onOptions(parsedOptions, true);
-                }
-                const partialOptions = this.tryParsePartialOptions(content);
-                if (partialOptions) {
-                    onOptions(partialOptions, done);
-                }
-            },
-            options,
+        await this.streamValidatedOptions(onOptions, (followUp, onContent) =>
+            this.chatService.streamChat([...messages, ...followUp], onContent, options),
         );
     }
 
-    private tryParsePartialOptions(optionsStr: string): Options | undefined {
-        try {
-            const jsonMatch = optionsStr.match(/```(?:json)?\s*(\[[\s\S]*?\])\s*```/);
-            let jsonStr = jsonMatch ? jsonMatch[1] : optionsStr;
-            return this.optionSet.validatePartialJSON?.(jsonStr);
-        } catch (error) {
-            return undefined;
+    /**
+     * Create a function that turns the content streamed so far into partial options. Option sets with a
+     * streaming parser only parse the newly arrived suffix on each call.
+     */
+    private createPartialParser(): (content: string) => Options | undefined {
+        const parser = this.optionSet.createStreamingParser?.();
+        if (!parser) {
+            return (content) => {
+                const jsonMatch = content.match(/```(?:json)?\s*(\[[\s\S]*?\])\s*```/);
+                return this.optionSet.validatePartialJSON?.(jsonMatch ? jsonMatch[1] : content);
+            };
         }
+        let parsedLength = 0;
+        return (content) => {
+            const chunk = content.slice(parsedLength);
+            parsedLength = content.length;
+            return parser.push(chunk);
+        };
     }
 
     private checkDeterministicOptions(chatHistory: ChatMessage[]): Options | undefined {
@@ -175,6 +268,7 @@ Example output format:
                 optionsJson: JSON.stringify([
                     {
                         kind: "single-select",
+                        id: THEME_SETTING_ID,
                         label: "Theme",
                         options: { light: "Light", dark: "Dark", system: "System" },
                         value: "system",
@@ -194,6 +288,10 @@ Example output format:
                         kind: "single-select",
                         label: "Prediction Model",
                         options: { fast: "Fast (Low Latency)", accurate: "Accurate (High Quality)" },
+                        choiceDescriptions: {
+                            fast: "Answers in a second or two using a smaller model; best for quick estimates",
+                            accurate: "Uses a larger model that takes longer but handles complex data better",
+                        },
                         value: "fast",
                     },
                     {
@@ -2,6 +2,8 @@
 
 interface ImportMetaEnv {
     readonly VITE_OPENAI_API_KEY: string;
+    /** Sandbox level of canvas controls: "strict", "moderate" (default) or "permissive" */
+    readonly VITE_CANVAS_SANDBOX_LEVEL?: string;
     // more env variables...
 }
 
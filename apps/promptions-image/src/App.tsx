@@ -1,7 +1,5 @@
 import React from "react";
 import {
-    FluentProvider,
-    webLightTheme,
     makeStyles,
     tokens,
     Menu,
@@ -14,10 +12,24 @@ import {
 import { ChevronDown24Regular, Options24Regular } from "@fluentui/react-icons";
 import { ImageService } from "./services/ImageService";
 import { PromptionsImageService } from "./services/PromptionsImageService";
+import { loadImageSession, saveImageSession } from "./services/ImageSessionStorage";
 import { produce } from "immer";
 import { useMounted } from "./reactUtil";
 import { ImageInput, GeneratedImage, OptionsPanel, Login, ImageModelSelector } from "./components";
-import { compactOptionSet, basicOptionSet, BasicOptions, Options, VisualOptionSet, AppHeader } from "@promptions/promptions-ui";
+import {
+    compactOptionSet,
+    basicOptionSet,
+    wizardOptionSet,
+    elaborationStrategies,
+    BasicOptions,
+    ElaborationStrategy,
+    Options,
+    VisualOptionSet,
+    AppHeader,
+    CanvasSandboxProvider,
+    ThemeProvider,
+    parseSandboxLevel,
+} from "@promptions/promptions-ui";
 import { AuthProvider, useAuth } from "./auth/AuthContext";
 import { ImageModelConfigProvider, useImageModelConfig } from "./config/ImageModelConfig";
 import { ApiKeysProvider, useApiKeys } from "./context/ApiKeysContext";
@@ -88,6 +100,8 @@ interface ImageState {
     prompt: string;
     options: Options;
     optionsLoading: boolean;
+    /** How the selections are added to the image prompt */
+    elaborationStrategy: ElaborationStrategy;
     imageUrl?: string;
     imageLoading: boolean;
     error?: string;
@@ -96,6 +110,13 @@ interface ImageState {
 
 const imageService = new ImageService();
 
+// Display styles offered for the options panel
+const displayStyles = [
+    { key: "expanded", label: "Expanded Options", optionSet: basicOptionSet },
+    { key: "compact", label: "Compact Options", optionSet: compactOptionSet },
+    { key: "wizard", label: "Step-by-step Options", optionSet: wizardOptionSet },
+];
+
 function ImageApp() {
     const mount = useMounted();
     const abortControllerRef = React.useRef<AbortController | null>(null);
@@ -114,13 +135,24 @@ function ImageApp() {
         return new PromptionsImageService(imageService, optionsSet);
     }, [optionsSet]);
 
-    const [state, setState] = React.useState<ImageState>({
-        prompt: "",
-        options: optionsSet.emptyOptions(),
-        optionsLoading: false,
-        imageLoading: false,
+    const [state, setState] = React.useState<ImageState>(() => {
+        const session = loadImageSession(optionsSet);
+        return {
+            prompt: session.prompt,
+            options: session.options ?? optionsSet.emptyOptions(),
+            optionsLoading: false,
+            elaborationStrategy: session.elaborationStrategy,
+            imageLoading: false,
+        };
     });
 
+    // Keep the prompt and settled options saved so a reload restores the same controls
+    React.useEffect(() => {
+        if (!state.optionsLoading) {
+            saveImageSession(state.prompt, state.options, state.elaborationStrategy);
+        }
+    }, [state.prompt, state.options, state.elaborationStrategy, state.optionsLoading]);
+
     const handleOptionSetChange = (newOptionSet: VisualOptionSet<BasicOptions>) => {
         setVisualOptionsSet(newOptionSet);
     };
@@ -158,6 +190,8 @@ function ImageApp() {
 
         const abortController = new AbortController();
         abortControllerRef.current = abortController;
+        // Streamed options are merged into these so selections survive re-elaborating the prompt
+        const previousOptions = state.options as BasicOptions;
 
         imageState.set((draft) => {
             draft.options = visualOptionsSet.emptyOptions();
@@ -171,7 +205,7 @@ function ImageApp() {
                 state.prompt,
                 (options: BasicOptions, done: boolean) => {
                     imageState.set((draft) => {
-                        draft.options = visualOptionsSet.mergeOptions(draft.options as BasicOptions, options);
+                        draft.options = visualOptionsSet.mergeOptions(previousOptions, options);
                         draft.optionsLoading = !done;
                         if (done) {
                             draft.abortController = undefined;
@@ -224,13 +258,9 @@ function ImageApp() {
         try {
             // Combine prompt with options to create enhanced prompt
             let enhancedPrompt = state.prompt;
-            if (!state.options.isEmpty()) {
-                if (state.options.prettyPrintAsConversation) {
-                    const answer = state.options.prettyPrintAsConversation().answer;
-                    enhancedPrompt = `${state.prompt}\n\nAdditional details:\n\n${answer}`;
-                } else {
-                    enhancedPrompt = `${state.prompt}\n\nAdditional details: ${state.options.prettyPrint()}`;
-                }
+            const elaborated = state.elaborationStrategy.elaborate(state.options);
+            if (elaborated) {
+                enhancedPrompt = `${state.prompt}\n\nAdditional details:\n\n${elaborated.answer}`;
             }
 
             const images = await imageService.generateImage(
@@ -308,24 +338,49 @@ function ImageApp() {
                         <Menu>
                             <MenuTrigger disableButtonEnhancement>
                                 <Button appearance="subtle" icon={<Options24Regular />} iconPosition="before">
-                                    {visualOptionsSet === basicOptionSet ? "Expanded Options" : "Compact Options"}
+                                    {displayStyles.find((style) => style.optionSet === visualOptionsSet)?.label}
+                                    <ChevronDown24Regular style={{ marginLeft: "8px" }} />
+                                </Button>
+                            </MenuTrigger>
+                            <MenuPopover>
+                                <MenuList>
+                                    {displayStyles.map((style) => (
+                                        <MenuItem
+                                            key={style.key}
+                                            onClick={() => handleOptionSetChange(style.optionSet)}
+                                            disabled={visualOptionsSet === style.optionSet}
+                                        >
+                                            {style.label}
+                                        </MenuItem>
+                                    ))}
+                                </MenuList>
+                            </MenuPopover>
+                        </Menu>
+                    </div>
+                    <div className={styles.sidebarSection}>
+                        <div className={styles.sidebarTitle}>Selections Format</div>
+                        <Menu>
+                            <MenuTrigger disableButtonEnhancement>
+                                <Button appearance="subtle" title={state.elaborationStrategy.description}>
+                                    {state.elaborationStrategy.label}
                                     <ChevronDown24Regular style={{ marginLeft: "8px" }} />
                                 </Button>
                             </MenuTrigger>
                             <MenuPopover>
                                 <MenuList>
-                                    <MenuItem
-                                        onClick={() => handleOptionSetChange(basicOptionSet)}
-                                        disabled={visualOptionsSet === basicOptionSet}
-                                    >
-                                        Expanded Options
-                                    </MenuItem>
-                                    <MenuItem
-                                        onClick={() => handleOptionSetChange(compactOptionSet)}
-                                        disabled={visualOptionsSet === compactOptionSet}
-                                    >
-                                        Compact Options
-                                    </MenuItem>
+                                    {elaborationStrategies.map((strategy) => (
+                                        <MenuItem
+                                            key={strategy.id}
+                                            onClick={() =>
+                                                imageState.set((draft) => {
+                                                    draft.elaborationStrategy = strategy;
+                                                })
+                                            }
+                                            disabled={state.elaborationStrategy.id === strategy.id}
+                                        >
+                                            {strategy.label}
+                                        </MenuItem>
+                                    ))}
                                 </MenuList>
                             </MenuPopover>
                         </Menu>
@@ -379,17 +434,22 @@ function AppContent() {
     return <ImageApp />;
 }
 
+// Deployments can tighten or relax what model-generated canvas controls may do
+const canvasSandboxLevel = parseSandboxLevel(import.meta.env.VITE_CANVAS_SANDBOX_LEVEL);
+
 function App() {
     return (
-        <FluentProvider theme={webLightTheme}>
+        <ThemeProvider>
             <AuthProvider>
                 <ApiKeysProvider>
-                    <ImageModelConfigProvider>
-                        <AppContent />
-                    </ImageModelConfigProvider>
+                    <CanvasSandboxProvider level={canvasSandboxLevel}>
+                        <ImageModelConfigProvider>
+                            <AppContent />
+                        </ImageModelConfigProvider>
+                    </CanvasSandboxProvider>
                 </ApiKeysProvider>
             </AuthProvider>
-        </FluentProvider>
+        </ThemeProvider>
     );
 }
 
@@ -1,13 +1,10 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
-import { FluentProvider, webLightTheme } from "@fluentui/react-components";
 import App from "./App";
 import "./index.css";
 
 ReactDOM.createRoot(document.getElementById("root")!).render(
     <React.StrictMode>
-        <FluentProvider theme={webLightTheme}>
-            <App />
-        </FluentProvider>
+        <App />
     </React.StrictMode>,
 );
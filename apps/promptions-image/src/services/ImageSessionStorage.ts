@@ -0,0 +1,56 @@
+import { getElaborationStrategy } from "@promptions/promptions-ui";
+import type {
+    BasicOptions,
+    ElaborationStrategy,
+    Options,
+    OptionSet,
+    SerializedOptions,
+} from "@promptions/promptions-ui";
+
+const STORAGE_KEY = "promptions-image-session";
+
+interface StoredImageSession {
+    prompt: string;
+    options?: SerializedOptions;
+    elaborationStrategy?: string;
+}
+
+interface ImageSession {
+    prompt: string;
+    options?: BasicOptions;
+    elaborationStrategy: ElaborationStrategy;
+}
+
+/**
+ * Restore the last prompt and its options. Options are rehydrated through the option set so the controls
+ * come back interactive, with their metadata intact.
+ */
+export function loadImageSession(optionSet: OptionSet<BasicOptions>): ImageSession {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+            const session: StoredImageSession = JSON.parse(stored);
+            return {
+                prompt: typeof session.prompt === "string" ? session.prompt : "",
+                options: session.options ? optionSet.fromJSON(session.options) : undefined,
+                elaborationStrategy: getElaborationStrategy(session.elaborationStrategy),
+            };
+        }
+    } catch (e) {
+        console.warn("Failed to load image session from localStorage:", e);
+    }
+    return { prompt: "", elaborationStrategy: getElaborationStrategy(undefined) };
+}
+
+export function saveImageSession(prompt: string, options: Options, elaborationStrategy: ElaborationStrategy) {
+    try {
+        const session: StoredImageSession = {
+            prompt,
+            options: options.isEmpty() ? undefined : options.toJSON(),
+            elaborationStrategy: elaborationStrategy.id,
+        };
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+    } catch (e) {
+        console.warn("Failed to save image session to localStorage:", e);
+    }
+}
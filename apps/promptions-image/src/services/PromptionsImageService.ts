@@ -57,6 +57,7 @@ Example output format:
             { role: "system" as const, content: systemPrompt },
             { role: "user" as const, content: `Generate options for this image prompt: "${prompt}"` },
         ];
+        const parsePartial = this.createPartialParser();
 
         await this.imageService.streamChat(
             messages,
@@ -71,7 +72,7 @@ Example output format:
                     }
                     return onOptions(parsedOptions, true);
                 }
-                const partialOptions = this.tryParsePartialOptions(content);
+                const partialOptions = parsePartial(content);
                 if (partialOptions) {
                     onOptions(partialOptions, done);
                 }
@@ -135,6 +136,7 @@ Example output format:
             { role: "system" as const, content: systemPrompt },
             { role: "user" as const, content: `Regenerate options for this image prompt: "${prompt}"` },
         ];
+        const parsePartial = this.createPartialParser();
 
         await this.imageService.streamChat(
             messages,
@@ -149,7 +151,7 @@ Example output format:
                     }
                     return onOptions(parsedOptions, true);
                 }
-                const partialOptions = this.tryParsePartialOptions(content);
+                const partialOptions = parsePartial(content);
                 if (partialOptions) {
                     onOptions(partialOptions, done);
                 }
@@ -158,13 +160,23 @@ Example output format:
         );
     }
 
-    private tryParsePartialOptions(optionsStr: string): BasicOptions | undefined {
-        try {
-            const jsonMatch = optionsStr.match(/```(?:json)?\s*(\[[\s\S]*?\])\s*```/);
-            let jsonStr = jsonMatch ? jsonMatch[1] : optionsStr;
-            return this.optionSet.validatePartialJSON?.(jsonStr);
-        } catch (error) {
-            return undefined;
+    /**
+     * Create a function that turns the content streamed so far into partial options. Option sets with a
+     * streaming parser only parse the newly arrived suffix on each call.
+     */
+    private createPartialParser(): (content: string) => BasicOptions | undefined {
+        const parser = this.optionSet.createStreamingParser?.();
+        if (!parser) {
+            return (content) => {
+                const jsonMatch = content.match(/```(?:json)?\s*(\[[\s\S]*?\])\s*```/);
+                return this.optionSet.validatePartialJSON?.(jsonMatch ? jsonMatch[1] : content);
+            };
         }
+        let parsedLength = 0;
+        return (content) => {
+            const chunk = content.slice(parsedLength);
+            parsedLength = content.length;
+            return parser.push(chunk);
+        };
     }
 }
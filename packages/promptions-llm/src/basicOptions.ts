@@ -1,139 +1,711 @@
 import * as z from "zod";
-import { OptionSet, Options, OptionsMetadata } from "./types";
+import { formatCanvasState } from "./canvasBridge";
+import { ControlKind, ControlKinds, createControlKinds, CustomControl, NO_CONTROL_KINDS } from "./controlKinds";
+import { formatDiagnosticPath, OptionsDiagnostic, OptionsValidationResult } from "./diagnostics";
+import { JsonSchema, zodToJsonSchema } from "./jsonSchema";
+import { JsonPath, PartialJsonParser } from "./partialJson";
+import {
+    ControlReference,
+    OptionSelection,
+    OptionSet,
+    Options,
+    OptionsMetadata,
+    SerializedOptions,
+    StreamingOptionsParser,
+} from "./types";
+
+/**
+ * Reserved choice key selected when the user picks the "Other" entry of a single- or multi-select control.
+ * The text they typed is stored in the control's `otherValue`.
+ */
+export const OTHER_OPTION_KEY = "__other__";
+
+/** Identifies serialized BasicOptions in `SerializedOptions.format`. */
+export const BASIC_OPTIONS_FORMAT = "promptions/basic-options";
+
+/** Current version of the serialized BasicOptions format. */
+export const BASIC_OPTIONS_VERSION = 2;
+
+const visibilityCondition = z.object({
+    control: z.string(),
+    equals: z.union([z.string(), z.number()]).optional(),
+    oneOf: z.array(z.string()).optional(),
+    includes: z.string().optional(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+});
+
+/**
+ * Fields every control accepts besides `kind`. Spread into the schema of a custom `ControlKind` so its controls
+ * can be referenced and made conditional like the built-in ones.
+ */
+export const controlBaseShape = {
+    id: z.string().optional(),
+    label: z.string(),
+    description: z.string().optional(),
+    visibleWhen: visibilityCondition.optional(),
+};
+
+// Explanations of what picking a choice changes, keyed like the choices themselves
+const choiceDescriptions = z.record(z.string(), z.string()).optional();
 
 const multiOptionControl = z.object({
     kind: z.literal("multi-select"),
-    label: z.string(),
+    ...controlBaseShape,
     options: z.record(z.string(), z.string()),
+    choiceDescriptions,
     value: z.union([z.string(), z.array(z.string())]),
+    allowOther: z.boolean().optional(),
+    otherValue: z.string().optional(),
 });
 
 const singleOptionControl = z.object({
     kind: z.literal("single-select"),
-    label: z.string(),
+    ...controlBaseShape,
     options: z.record(z.string(), z.string()),
+    choiceDescriptions,
     value: z.union([z.string(), z.tuple([z.string()])]),
+    allowOther: z.boolean().optional(),
+    otherValue: z.string().optional(),
 });
 
 const binaryOptionControl = z.object({
     kind: z.literal("binary-select"),
-    label: z.string(),
+    ...controlBaseShape,
     options: z.object({
         enabled: z.string(),
         disabled: z.string(),
     }),
+    choiceDescriptions,
     value: z.union([z.literal("enabled"), z.literal("disabled")]),
 });
 
 const canvasControl = z.object({
     kind: z.literal("canvas"),
-    label: z.string(),
+    ...controlBaseShape,
     code: z.string(),
     setup: z.string().optional(),
+    /** State reported by the canvas through `window.promptions.setValue`, keyed by name */
+    value: z.record(z.string(), z.unknown()).optional(),
+    /** The last event the canvas reported through `window.promptions.emit` */
+    lastEvent: z.object({ name: z.string(), payload: z.unknown().optional() }).optional(),
 });
 
-const optionControl = z.union([multiOptionControl, singleOptionControl, binaryOptionControl, canvasControl]);
+/**
+ * Report bounds that are the wrong way round and values that fall outside them.
+ */
+function checkBounds(min: number, max: number, values: number[], ctx: z.RefinementCtx): void {
+    if (min > max) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["min"], message: `min ${min} is greater than max ${max}` });
+        return;
+    }
+    values.forEach((value, index) => {
+        if (value < min || value > max) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                path: values.length > 1 ? ["value", index] : ["value"],
+                message: `Value ${value} is outside the bounds ${min} to ${max}`,
+            });
+        }
+    });
+}
+
+const sliderControl = z
+    .object({
+        kind: z.literal("slider"),
+        ...controlBaseShape,
+        min: z.number(),
+        max: z.number(),
+        step: z.number().positive().optional(),
+        unit: z.string().optional(),
+        value: z.number(),
+    })
+    .superRefine((control, ctx) => checkBounds(control.min, control.max, [control.value], ctx));
+
+const rangeControl = z
+    .object({
+        kind: z.literal("range"),
+        ...controlBaseShape,
+        min: z.number(),
+        max: z.number(),
+        step: z.number().positive().optional(),
+        unit: z.string().optional(),
+        value: z.tuple([z.number(), z.number()]),
+    })
+    .superRefine((control, ctx) => {
+        checkBounds(control.min, control.max, control.value, ctx);
+        if (control.value[0] > control.value[1]) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                path: ["value"],
+                message: `Range start ${control.value[0]} is after its end ${control.value[1]}`,
+            });
+        }
+    });
+
+const textInputControl = z.object({
+    kind: z.literal("text-input"),
+    ...controlBaseShape,
+    placeholder: z.string().optional(),
+    multiline: z.boolean().optional(),
+    value: z.string(),
+});
+
+const optionControl = z.union([
+    multiOptionControl,
+    singleOptionControl,
+    binaryOptionControl,
+    canvasControl,
+    sliderControl,
+    rangeControl,
+    textInputControl,
+]);
 const optionControlList = z.array(optionControl);
+
+const controlSchemas: Record<string, z.ZodTypeAny> = {
+    "multi-select": multiOptionControl,
+    "single-select": singleOptionControl,
+    "binary-select": binaryOptionControl,
+    canvas: canvasControl,
+    slider: sliderControl,
+    range: rangeControl,
+    "text-input": textInputControl,
+};
 type OptionControlList = z.infer<typeof optionControlList>;
 
+/**
+ * Schema for a single control, preferring a registered custom kind over a built-in one.
+ */
+function controlSchema(kind: unknown, kinds: ControlKinds): z.ZodTypeAny | undefined {
+    if (typeof kind !== "string") return undefined;
+    return kinds.get(kind)?.schema ?? controlSchemas[kind];
+}
+
+/**
+ * Validate a list of controls, returning undefined if any of them fails.
+ */
+function parseControlList(controls: unknown, kinds: ControlKinds): OptionControlList | undefined {
+    if (kinds.size === 0) {
+        const result = optionControlList.safeParse(controls);
+        return result.success ? result.data : undefined;
+    }
+    if (!Array.isArray(controls)) return undefined;
+
+    const parsed: OptionControlList = [];
+    for (const control of controls) {
+        const result = controlSchema(control?.kind, kinds)?.safeParse(control);
+        if (!result?.success) return undefined;
+        parsed.push(result.data);
+    }
+    return parsed;
+}
+
+// The complete object the model is asked to produce; `thought` comes first so it is generated before the controls
+const optionsResponse = z.object({
+    thought: z.string().optional().describe("Reasoning about the user's intent and the chosen interface design"),
+    rationale: z
+        .record(z.string(), z.string())
+        .optional()
+        .describe("Why each control was proposed, keyed by the control's label or id"),
+    layout: z.enum(["sidebar", "main", "full"]).optional(),
+    options: optionControlList,
+});
+
 // Export individual option types
 export type MultiOptionControl = z.infer<typeof multiOptionControl>;
 export type SingleOptionControl = z.infer<typeof singleOptionControl>;
 export type BinaryOptionControl = z.infer<typeof binaryOptionControl>;
 export type CanvasControl = z.infer<typeof canvasControl>;
+export type SliderControl = z.infer<typeof sliderControl>;
+export type RangeControl = z.infer<typeof rangeControl>;
+export type TextInputControl = z.infer<typeof textInputControl>;
+export type VisibilityCondition = z.infer<typeof visibilityCondition>;
 export type OptionControl = z.infer<typeof optionControl>;
 
+/**
+ * Format a numeric value together with the unit of a slider or range control, e.g. `250 words` or `20%`.
+ */
+export function formatNumericValue(value: number, unit?: string): string {
+    if (!unit) return `${value}`;
+    return /^[%°]/.test(unit) ? `${value}${unit}` : `${value} ${unit}`;
+}
+
+/**
+ * Resolve the display label of a choice key, including the user's own text for the "Other" entry.
+ */
+export function getChoiceLabel(control: SingleOptionControl | MultiOptionControl, key: string): string {
+    if (key === OTHER_OPTION_KEY) {
+        return control.otherValue ? `Other: ${control.otherValue}` : "Other";
+    }
+    return control.options[key] || key;
+}
+
+/**
+ * Look up the model's explanation of a choice, if it gave one.
+ */
+export function getChoiceDescription(
+    control: SingleOptionControl | MultiOptionControl | BinaryOptionControl,
+    key: string,
+): string | undefined {
+    return control.choiceDescriptions?.[key] || undefined;
+}
+
+// Keys of the choices a select control currently has selected
+function selectedKeys(control: SingleOptionControl | MultiOptionControl | BinaryOptionControl): string[] {
+    if (control.kind === "binary-select") return [control.value];
+    if (control.kind === "single-select") return [Array.isArray(control.value) ? control.value[0] : control.value];
+    return Array.isArray(control.value) ? control.value : [control.value];
+}
+
+// Append a choice's description to its label, e.g. `Accurate (uses the larger, slower model)`
+function withDescription(label: string, description: string | undefined): string {
+    return description ? `${label} (${description})` : label;
+}
+
+function formatChoiceList(control: SingleOptionControl | MultiOptionControl): string {
+    const entries = Object.entries(control.options).map(([key, label]) => `${key}: ${label}`);
+    return control.allowOther ? [...entries, "or their own answer"].join(", ") : entries.join(", ");
+}
+
+function normalizeLabel(label: string): string {
+    return label
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, " ")
+        .trim();
+}
+
+/**
+ * Give every control an id, deriving missing ones from the label so the same control gets the same id
+ * across streamed snapshots and refreshes. Duplicates get a numeric suffix.
+ */
+function assignControlIds(controls: OptionControlList): OptionControlList {
+    const used = new Set<string>();
+    return controls.map((control) => {
+        const base = control.id || normalizeLabel(control.label).replace(/ /g, "-") || "control";
+        let id = base;
+        for (let suffix = 2; used.has(id); suffix++) {
+            id = `${base}-${suffix}`;
+        }
+        used.add(id);
+        return control.id === id ? control : { ...control, id };
+    });
+}
+
+function isChoiceAvailable(control: SingleOptionControl | MultiOptionControl, key: string): boolean {
+    return key in control.options || (key === OTHER_OPTION_KEY && !!control.allowOther);
+}
+
+function isWithinBounds(control: SliderControl | RangeControl, value: number): boolean {
+    return value >= control.min && value <= control.max;
+}
+
+/**
+ * Carry the value of a previous version of a control over to its updated version, as long as the choices or
+ * bounds it refers to still exist. Returns the updated control unchanged otherwise.
+ */
+function carryOverValue(previous: OptionControl, updated: OptionControl, kinds: ControlKinds): OptionControl {
+    if (previous.kind !== updated.kind) return updated;
+
+    const custom = kinds.get(updated.kind);
+    if (custom) {
+        if (custom.carryOver) return custom.carryOver(previous, updated);
+        const result = custom.schema.safeParse({ ...updated, value: (previous as CustomControl).value });
+        return result.success ? result.data : updated;
+    }
+
+    switch (updated.kind) {
+        case "single-select": {
+            const prev = previous as SingleOptionControl;
+            const key = Array.isArray(prev.value) ? prev.value[0] : prev.value;
+            if (!isChoiceAvailable(updated, key)) return updated;
+            return { ...updated, value: key, otherValue: prev.otherValue ?? updated.otherValue };
+        }
+        case "multi-select": {
+            const prev = previous as MultiOptionControl;
+            const keys = Array.isArray(prev.value) ? prev.value : [prev.value];
+            const available = keys.filter((key) => isChoiceAvailable(updated, key));
+            // Keep an explicit empty selection, but not one emptied because every choice disappeared
+            if (available.length === 0 && keys.length > 0) return updated;
+            return { ...updated, value: available, otherValue: prev.otherValue ?? updated.otherValue };
+        }
+        case "binary-select":
+            return { ...updated, value: (previous as BinaryOptionControl).value };
+        case "text-input":
+            return { ...updated, value: (previous as TextInputControl).value };
+        case "canvas": {
+            // Regenerated canvases read the state back from window.promptions.state, so keep what was reported
+            const state = (previous as CanvasControl).value;
+            return state ? { ...updated, value: { ...updated.value, ...state } } : updated;
+        }
+        case "slider": {
+            const value = (previous as SliderControl).value;
+            return isWithinBounds(updated, value) ? { ...updated, value } : updated;
+        }
+        case "range": {
+            const value = (previous as RangeControl).value;
+            return value.every((bound) => isWithinBounds(updated, bound)) ? { ...updated, value } : updated;
+        }
+        default:
+            return updated;
+    }
+}
+
+/**
+ * Check a `visibleWhen` condition against the current value of the control it refers to. A condition
+ * without any matcher only requires the referenced control to have something selected or entered.
+ */
+function matchesCondition(target: OptionControl, condition: VisibilityCondition): boolean {
+    const { equals, oneOf, includes, min, max } = condition;
+
+    if (target.kind === "canvas") return true;
+
+    if (target.kind === "slider" || target.kind === "range") {
+        const [low, high] = target.kind === "slider" ? [target.value, target.value] : target.value;
+        if (equals !== undefined && Number(equals) !== low) return false;
+        if (min !== undefined && low < min) return false;
+        if (max !== undefined && high > max) return false;
+        return true;
+    }
+
+    const selected =
+        target.kind === "multi-select"
+            ? Array.isArray(target.value)
+                ? target.value
+                : [target.value]
+            : target.kind === "single-select" && Array.isArray(target.value)
+              ? [target.value[0]]
+              : toSelection((target as CustomControl).value);
+
+    if (equals === undefined && oneOf === undefined && includes === undefined) {
+        if (target.kind === "binary-select") return target.value === "enabled";
+        return selected.some((value) => value !== "");
+    }
+    if (equals !== undefined && !selected.includes(String(equals))) return false;
+    if (oneOf !== undefined && !selected.some((value) => oneOf.includes(value))) return false;
+    if (includes !== undefined && !selected.includes(includes)) return false;
+    return true;
+}
+
+// Values of custom controls are compared as strings, so conditions can match them like any other selection
+function toSelection(value: unknown): string[] {
+    if (Array.isArray(value)) return value.map(String);
+    return value === undefined || value === null ? [] : [String(value)];
+}
+
+function formatNumericBounds(control: SliderControl | RangeControl): string {
+    return `${formatNumericValue(control.min, control.unit)} to ${formatNumericValue(control.max, control.unit)}`;
+}
+
+/**
+ * Current values of the controls that hold one, keyed by id.
+ */
+function controlValues(controls: OptionControlList): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+    for (const control of controls) {
+        // A canvas starts without reported state, which still counts as its proposed value
+        if (control.kind === "canvas") values[control.id!] = control.value ?? {};
+        else if ("value" in control) values[control.id!] = control.value;
+    }
+    return values;
+}
+
 export class BasicOptions implements Options {
+    readonly options: OptionControlList;
+    readonly metadata: OptionsMetadata;
+
+    /**
+     * @param kinds Custom control kinds the options may contain besides the built-in ones. Controls of these
+     * kinds are kept in `options` alongside the others.
+     */
     constructor(
-        readonly options: OptionControlList,
-        readonly metadata: OptionsMetadata = {}
-    ) { }
+        options: OptionControlList,
+        metadata: OptionsMetadata = {},
+        readonly kinds: ControlKinds = NO_CONTROL_KINDS,
+    ) {
+        this.options = assignControlIds(options);
+        // Options built without defaults come straight from the model, so their values are the proposed ones
+        this.metadata = metadata.defaults ? metadata : { ...metadata, defaults: controlValues(this.options) };
+    }
 
     getMetadata(): OptionsMetadata {
         return this.metadata;
     }
 
+    /**
+     * Find a control by id, falling back to its normalized label.
+     */
+    findControl(reference: string): OptionControl | undefined {
+        const byId = this.options.find((control) => control.id === reference);
+        if (byId) return byId;
+        const normalized = normalizeLabel(reference);
+        return this.options.find((control) => normalizeLabel(control.label) === normalized);
+    }
+
+    /**
+     * The model's explanation of why it proposed a control, from the `rationale` metadata. Entries may be keyed
+     * by id or by label.
+     */
+    getRationale(control: OptionControl): string | undefined {
+        const rationale = this.metadata.rationale;
+        if (!rationale) return undefined;
+        if (rationale[control.id!]) return rationale[control.id!];
+        const label = normalizeLabel(control.label);
+        const key = Object.keys(rationale).find((reference) => normalizeLabel(reference) === label);
+        return key ? rationale[key] : undefined;
+    }
+
+    /**
+     * Evaluate the control's `visibleWhen` clause. A control is hidden when its condition fails or when the
+     * control it depends on is itself hidden; conditions referring to unknown controls are ignored.
+     */
+    isControlVisible(control: OptionControl, visiting: Set<OptionControl> = new Set()): boolean {
+        const condition = control.visibleWhen;
+        if (!condition) return true;
+        // A dependency cycle can never be satisfied by the user, so show the controls instead of hiding them forever
+        if (visiting.has(control)) return true;
+
+        const target = this.findControl(condition.control);
+        if (!target || target === control) return true;
+
+        visiting.add(control);
+        return this.isControlVisible(target, visiting) && matchesCondition(target, condition);
+    }
+
+    /**
+     * Controls whose `visibleWhen` clause currently holds, in their original order.
+     */
+    visibleOptions(): OptionControlList {
+        return this.options.filter((control) => this.isControlVisible(control));
+    }
+
     prettyPrint(): string {
-        return this.options
+        return this.visibleOptions()
             .map((control) => {
                 if (control.kind === "single-select") {
-                    const selectedValue = Array.isArray(control.value) ? control.value[0] : control.value;
-                    const selectedLabel = control.options[selectedValue] || selectedValue;
+                    const selectedLabel = this.formatAnswer(control, true);
                     return `Single Select: ${control.label} with options [${Object.keys(control.options).join(", ")}] - Selected: ${selectedLabel}`;
                 } else if (control.kind === "binary-select") {
-                    const selectedValue = control.value;
-                    const selectedLabel = control.options[selectedValue] || selectedValue;
+                    const selectedLabel = this.formatAnswer(control, true);
                     return `Binary Select: ${control.label} with options [${Object.entries(control.options)
                         .map(([key, label]) => `${key}: ${label}`)
                         .join(", ")}] - Selected: ${selectedLabel}`;
                 } else if (control.kind === "canvas") {
-                    return `Canvas: ${control.label} - [Custom Code Content]`;
+                    const state = formatCanvasState(control);
+                    return `Canvas: ${control.label} - ${state ? `State: ${state}` : "[Custom Code Content]"}`;
                 } else if (control.kind === "multi-select") {
-                    const selectedValues = Array.isArray(control.value) ? control.value : [control.value];
-                    const selectedLabels = selectedValues.map((val: string) => (control.options as Record<string, string>)[val] || val);
-                    return `Multi Select: ${control.label} with options [${Object.keys(control.options).join(", ")}] - Selected: ${selectedLabels.join(", ")}`;
+                    const selectedLabels = this.formatAnswer(control, true);
+                    return `Multi Select: ${control.label} with options [${Object.keys(control.options).join(", ")}] - Selected: ${selectedLabels}`;
+                } else if (control.kind === "slider") {
+                    return `Slider: ${control.label} from ${formatNumericBounds(control)} - Selected: ${formatNumericValue(control.value, control.unit)}`;
+                } else if (control.kind === "range") {
+                    const [low, high] = control.value;
+                    return `Range: ${control.label} from ${formatNumericBounds(control)} - Selected: ${formatNumericValue(low, control.unit)} to ${formatNumericValue(high, control.unit)}`;
+                } else if (control.kind === "text-input") {
+                    return `Text Input: ${control.label} - Entered: ${control.value || "(empty)"}`;
                 }
-                return "";
+                const custom = control as CustomControl;
+                return this.kinds.get(custom.kind)?.prettyPrint(custom) ?? "";
             })
             .join("\n\n");
     }
 
     prettyPrintAsConversation(): { question: string; answer: string } {
-        const question = this.options
-            .map((control) => {
-                if (control.kind === "single-select") {
-                    return `What is your choice for ${control.label}? Options are: ${Object.entries(control.options)
-                        .map(([key, label]) => `${key}: ${label}`)
-                        .join(", ")}`;
-                } else if (control.kind === "binary-select") {
-                    return `What is your choice for ${control.label}? Options are: ${Object.entries(control.options)
-                        .map(([key, label]) => `${key}: ${label}`)
-                        .join(", ")}`;
-                } else if (control.kind === "canvas") {
-                    return `Can you generate a custom UI for ${control.label}?`;
-                } else if (control.kind === "multi-select") {
-                    return `What are your choices for ${control.label}? Options are: ${Object.entries(control.options)
-                        .map(([key, label]) => `${key}: ${label}`)
-                        .join(", ")}`;
-                }
-                return "";
-            })
+        const visibleOptions = this.visibleOptions();
+        const question = visibleOptions.map((control) => this.formatQuestion(control)).join("\n");
+        const answer = visibleOptions
+            .map((control) => `${control.label}: ${this.formatAnswer(control, true)}`)
             .join("\n");
+        return { question, answer };
+    }
 
-        const answer = this.options
+    getSelections(): OptionSelection[] {
+        const defaults = this.metadata.defaults ?? {};
+        return this.visibleOptions()
+            // A canvas only has an answer once it reports state through its bridge
+            .filter((control) => control.kind !== "canvas" || formatCanvasState(control) !== undefined)
             .map((control) => {
-                if (control.kind === "single-select") {
-                    const selectedValue = Array.isArray(control.value) ? control.value[0] : control.value;
-                    const selectedLabel = control.options[selectedValue] || selectedValue;
-                    return `${control.label}: ${selectedLabel}`;
-                } else if (control.kind === "binary-select") {
-                    const selectedValue = control.value;
-                    const selectedLabel = control.options[selectedValue] || selectedValue;
-                    return `${control.label}: ${selectedLabel}`;
-                } else if (control.kind === "canvas") {
-                    return `${control.label}: [Custom Implementation]`;
-                } else if (control.kind === "multi-select") {
-                    const selectedValues = Array.isArray(control.value) ? control.value : [control.value];
-                    const selectedLabels = selectedValues.map((val: string) => (control.options as Record<string, string>)[val] || val);
-                    return `${control.label}: ${selectedLabels.join(", ")}`;
-                }
-                return "";
-            })
-            .join("\n");
+                const id = control.id!;
+                const value = (control as { value?: unknown }).value;
+                return {
+                    id,
+                    label: control.label,
+                    kind: control.kind,
+                    question: this.formatQuestion(control),
+                    answer: this.formatAnswer(control),
+                    description: this.describeSelection(control),
+                    value,
+                    changed: id in defaults && JSON.stringify(defaults[id]) !== JSON.stringify(value),
+                };
+            });
+    }
 
-        return { question, answer };
+    private formatQuestion(control: OptionControl): string {
+        if (control.kind === "single-select") {
+            return `What is your choice for ${control.label}? Options are: ${formatChoiceList(control)}`;
+        } else if (control.kind === "binary-select") {
+            return `What is your choice for ${control.label}? Options are: ${Object.entries(control.options)
+                .map(([key, label]) => `${key}: ${label}`)
+                .join(", ")}`;
+        } else if (control.kind === "canvas") {
+            return `Can you generate a custom UI for ${control.label}?`;
+        } else if (control.kind === "multi-select") {
+            return `What are your choices for ${control.label}? Options are: ${formatChoiceList(control)}`;
+        } else if (control.kind === "slider") {
+            return `What value do you want for ${control.label}? Choose a value from ${formatNumericBounds(control)}`;
+        } else if (control.kind === "range") {
+            return `What range do you want for ${control.label}? Choose a lower and upper bound from ${formatNumericBounds(control)}`;
+        } else if (control.kind === "text-input") {
+            return `What would you like to enter for ${control.label}?`;
+        }
+        const custom = control as CustomControl;
+        const kind = this.kinds.get(custom.kind);
+        if (!kind) return "";
+        return kind.formatQuestion?.(custom) ?? `What would you like for ${custom.label}?`;
+    }
+
+    /**
+     * The current value in readable form. With `withDescriptions`, selected choices are followed by the model's
+     * description of them, so the answer model knows what the user actually picked.
+     */
+    private formatAnswer(control: OptionControl, withDescriptions = false): string {
+        const describe = (label: string, description: string | undefined) =>
+            withDescriptions ? withDescription(label, description) : label;
+
+        if (control.kind === "single-select") {
+            const selectedValue = Array.isArray(control.value) ? control.value[0] : control.value;
+            return describe(getChoiceLabel(control, selectedValue), getChoiceDescription(control, selectedValue));
+        } else if (control.kind === "binary-select") {
+            const selectedValue = control.value;
+            return describe(
+                control.options[selectedValue] || selectedValue,
+                getChoiceDescription(control, selectedValue),
+            );
+        } else if (control.kind === "canvas") {
+            return formatCanvasState(control) ?? "[Custom Implementation]";
+        } else if (control.kind === "multi-select") {
+            const selectedValues = Array.isArray(control.value) ? control.value : [control.value];
+            return selectedValues
+                .map((val: string) => describe(getChoiceLabel(control, val), getChoiceDescription(control, val)))
+                .join(", ");
+        } else if (control.kind === "slider") {
+            return formatNumericValue(control.value, control.unit);
+        } else if (control.kind === "range") {
+            const [low, high] = control.value;
+            return `${formatNumericValue(low, control.unit)} to ${formatNumericValue(high, control.unit)}`;
+        } else if (control.kind === "text-input") {
+            return control.value || "(no answer)";
+        }
+        const custom = control as CustomControl;
+        return this.kinds.get(custom.kind)?.formatAnswer(custom) ?? "";
+    }
+
+    // Descriptions of the selected choices, for the select kinds
+    private describeSelection(control: OptionControl): string | undefined {
+        if (control.kind !== "single-select" && control.kind !== "multi-select" && control.kind !== "binary-select") {
+            return undefined;
+        }
+        const descriptions = selectedKeys(control)
+            .map((key) => getChoiceDescription(control, key))
+            .filter((description): description is string => description !== undefined);
+        return descriptions.length > 0 ? descriptions.join("; ") : undefined;
     }
 
+    /**
+     * Merge a newer version of these options into them. The update decides which controls exist and in what
+     * order; controls are matched to the existing ones by id, then by normalized label, and the values already
+     * picked carry over where the same choices still exist. The result's metadata reports what changed.
+     */
     mergeOptions(update: BasicOptions): BasicOptions {
-        const thisLen = this.options.length;
-        // keep any options after len
-        const mergedControls = [...this.options.slice(0, thisLen), ...update.options.slice(thisLen)];
-        return new BasicOptions(mergedControls);
+        const unmatched = new Set(this.options);
+        const added: ControlReference[] = [];
+        const kept: ControlReference[] = [];
+        // The update's proposed values stay the defaults, under the ids the merged controls end up with
+        const updateDefaults = update.metadata.defaults ?? {};
+        const defaults: Record<string, unknown> = {};
+
+        const findPrevious = (control: OptionControl) => {
+            const candidates = [...unmatched];
+            const label = normalizeLabel(control.label);
+            return (
+                candidates.find((previous) => previous.id === control.id) ??
+                candidates.find((previous) => normalizeLabel(previous.label) === label)
+            );
+        };
+
+        const mergedControls = update.options.map((control) => {
+            const previous = findPrevious(control);
+            if (!previous) {
+                added.push({ id: control.id!, label: control.label });
+                defaults[control.id!] = updateDefaults[control.id!];
+                return control;
+            }
+            unmatched.delete(previous);
+            kept.push({ id: previous.id!, label: control.label });
+            defaults[previous.id!] = updateDefaults[control.id!];
+            return { ...carryOverValue(previous, control, update.kinds), id: previous.id };
+        });
+
+        const metadata: OptionsMetadata = { ...update.metadata, defaults };
+        delete metadata.merge;
+        if (!this.isEmpty()) {
+            const removed = [...unmatched].map((control) => ({ id: control.id!, label: control.label }));
+            metadata.merge = { added, removed, kept };
+        }
+        return new BasicOptions(mergedControls, metadata, update.kinds);
     }
 
     isEmpty(): boolean {
         return this.options.length === 0;
     }
+
+    toJSON(): SerializedOptions {
+        // Streaming and merge state only describe how the options were produced, not the options themselves
+        const { thoughtStreaming, merge, ...metadata } = this.metadata;
+        return {
+            format: BASIC_OPTIONS_FORMAT,
+            version: BASIC_OPTIONS_VERSION,
+            options: this.options,
+            metadata,
+        };
+    }
+}
+
+/**
+ * Upgrades serialized options from the keyed version to the next one. Version 1 is the unversioned shape the
+ * model produces: a bare array of controls, or an object with `thought`, `layout` and `options`.
+ */
+const migrations: Record<number, (data: any) => SerializedOptions> = {
+    1: (data) => ({
+        format: BASIC_OPTIONS_FORMAT,
+        version: 2,
+        options: Array.isArray(data) ? data : data.options,
+        metadata: Array.isArray(data) ? {} : { thought: data.thought, rationale: data.rationale, layout: data.layout },
+    }),
+};
+
+function deserializeBasicOptions(data: unknown, kinds: ControlKinds): BasicOptions | undefined {
+    if (!data || typeof data !== "object") return undefined;
+
+    let current: any = data;
+    let version: unknown = Array.isArray(current) || current.version === undefined ? 1 : current.version;
+    // Stored data is untrusted: an unknown version or a missing migration step means it cannot be read
+    while (version !== BASIC_OPTIONS_VERSION) {
+        if (typeof version !== "number" || !Number.isInteger(version) || version < 1) return undefined;
+        const migrate = migrations[version];
+        if (!migrate) return undefined;
+        current = migrate(current);
+        version = current.version;
+    }
+    if (current.format !== BASIC_OPTIONS_FORMAT) return undefined;
+
+    const controls = parseControlList(current.options ?? [], kinds);
+    if (!controls) return undefined;
+
+    const metadata: OptionsMetadata = { ...current.metadata };
+    for (const key of Object.keys(metadata)) {
+        if (metadata[key] === undefined) delete metadata[key];
+    }
+    return new BasicOptions(controls, metadata, kinds);
 }
 
 const schemaString: string = `\`\`\`typescript
@@ -143,6 +715,13 @@ interface Options {
    * Explain your plan, interpreting user intent.
    */
   thought?: string;
+
+  /**
+   * Why you proposed particular controls, keyed by the control's label (or id), e.g.
+   * { "Prediction Model": "You mentioned tight deadlines, so speed may matter more than accuracy" }.
+   * Only include controls whose purpose is not obvious.
+   */
+  rationale?: Record<string, string>;
   
   /** 
    * Preferred layout for this response.
@@ -158,151 +737,636 @@ interface Options {
   options: OptionControl[];
 }
 
+/**
+ * Every control below may carry an optional \`description\`: one short sentence shown as secondary text that
+ * explains what the control changes in the answer.
+ *
+ * Every control below may carry an optional \`visibleWhen\` clause that hides it until another control
+ * in the same list has a matching value, e.g. show "Citation style" only when "Include sources" is enabled:
+ * { "kind": "single-select", "label": "Citation style", ..., "visibleWhen": { "control": "Include sources", "equals": "enabled" } }
+ */
+interface VisibilityCondition {
+  control: string; // Exact label (or id) of the control this one depends on
+  equals?: string | number; // Selected key (single-select, binary-select "enabled"/"disabled"), entered text or slider value
+  oneOf?: string[]; // Visible when the selected key is any of these
+  includes?: string; // Multi-select: visible when this key is among the selected values
+  min?: number; // Slider/range: visible when the value (lower bound) is at least min
+  max?: number; // Slider/range: visible when the value (upper bound) is at most max
+  // With no matcher, the control is visible once the other control is enabled, non-empty or has a selection
+}
+
 interface SingleOptionControl {
   kind: "single-select";
+  id?: string; // Optional stable identifier, unique within the list; generated from the label when omitted
   label: string;
+  description?: string; // What this control changes in the answer
+  visibleWhen?: VisibilityCondition;
   options: Record<string, string>;
+  choiceDescriptions?: Record<string, string>; // Optional, keyed like options: what picking each choice changes
   value: string;
+  allowOther?: boolean; // Set to true to add an "Other" entry where the user types their own choice
 }
 
 interface MultiOptionControl {
   kind: "multi-select";
+  id?: string; // Optional stable identifier, unique within the list; generated from the label when omitted
   label: string;
+  description?: string; // What this control changes in the answer
+  visibleWhen?: VisibilityCondition;
   options: Record<string, string>;
+  choiceDescriptions?: Record<string, string>; // Optional, keyed like options: what picking each choice changes
   value: string[]; // Must include at least one option
+  allowOther?: boolean; // Set to true to add an "Other" entry where the user types their own choice
 }
 
 interface BinaryOptionControl {
   kind: "binary-select";
+  id?: string; // Optional stable identifier, unique within the list; generated from the label when omitted
   label: string;
+  description?: string; // What this control changes in the answer
+  visibleWhen?: VisibilityCondition;
   options: {
     enabled: string; // Label for enabled state
     disabled: string; // Label for disabled state
   };
+  choiceDescriptions?: { enabled?: string; disabled?: string }; // Optional: what each state changes
   value: "enabled" | "disabled"; // Must be either "enabled" or "disabled"
 }
 
+/**
+ * Canvas code runs in a sandboxed iframe without network, cookies, storage or access to the page around it.
+ * It turns into a real input by reporting what the user does through \`window.promptions\`:
+ * - window.promptions.setValue(key, value): store a JSON value under key, e.g. setValue("budget", 1200) from
+ *   a slider's input handler. Stored values are part of the user's answer in follow-up turns.
+ * - window.promptions.emit(event, payload?): report a one-off action, e.g. emit("run", { steps: 10 })
+ * - window.promptions.state: the values stored so far, restored when the canvas is shown again
+ * - window.promptions.onChange(listener): called with the new state when it changes outside the canvas
+ * - window.promptions.theme: "light" or "dark", matching the app
+ * Use short, descriptive keys and values that make sense to read without seeing the canvas. Style the canvas
+ * for both themes: prefers-color-scheme (and Tailwind's dark: variants) follows the app's theme.
+ */
 interface CanvasControl {
   kind: "canvas";
+  id?: string; // Optional stable identifier, unique within the list; generated from the label when omitted
   label: string;
+  description?: string; // What this control changes in the answer
+  visibleWhen?: VisibilityCondition;
   code: string; // Raw HTML/JS/CSS content
   setup?: string; // Optional initialization script
+  value?: Record<string, unknown>; // Optional initial state, readable in the canvas as window.promptions.state
+}
+
+interface SliderControl {
+  kind: "slider";
+  id?: string; // Optional stable identifier, unique within the list; generated from the label when omitted
+  label: string;
+  description?: string; // What this control changes in the answer
+  visibleWhen?: VisibilityCondition;
+  min: number;
+  max: number;
+  step?: number; // Increment between selectable values, defaults to 1
+  unit?: string; // Unit shown next to the value, e.g. "words", "%", "USD"
+  value: number; // Must be between min and max
 }
 
-type OptionControl = SingleOptionControl | MultiOptionControl | BinaryOptionControl | CanvasControl;
+interface RangeControl {
+  kind: "range";
+  id?: string; // Optional stable identifier, unique within the list; generated from the label when omitted
+  label: string;
+  description?: string; // What this control changes in the answer
+  visibleWhen?: VisibilityCondition;
+  min: number;
+  max: number;
+  step?: number; // Increment between selectable values, defaults to 1
+  unit?: string; // Unit shown next to the values, e.g. "words", "%", "USD"
+  value: [number, number]; // [lower, upper], both between min and max with lower <= upper
+}
+
+interface TextInputControl {
+  kind: "text-input";
+  id?: string; // Optional stable identifier, unique within the list; generated from the label when omitted
+  label: string;
+  description?: string; // What this control changes in the answer
+  visibleWhen?: VisibilityCondition;
+  placeholder?: string; // Hint shown while the input is empty
+  multiline?: boolean; // Set to true for longer free-form answers
+  value: string; // Initial text, usually ""
+}
+
+type OptionControl =
+  | SingleOptionControl
+  | MultiOptionControl
+  | BinaryOptionControl
+  | CanvasControl
+  | SliderControl
+  | RangeControl
+  | TextInputControl;
 \`\`\``;
 
-export const basicOptionSet: OptionSet<BasicOptions> = {
-    getSchemaSpec: () => schemaString,
-    validateJSON: (value: string): BasicOptions | undefined => {
-        try {
-            const parsed = JSON.parse(value);
-
-            // 1. Try new object format with metadata
-            if (parsed && typeof parsed === "object" && !Array.isArray(parsed) && (parsed.options || parsed.thought || parsed.layout)) {
-                const optionsResult = optionControlList.safeParse(parsed.options || []);
-                if (optionsResult.success) {
-                    return new BasicOptions(optionsResult.data, {
-                        thought: parsed.thought,
-                        layout: parsed.layout
-                    });
-                }
-            }
+/**
+ * The schema spec with the interfaces of custom kinds added to it and to the `OptionControl` union. The union
+ * member is the name declared by the kind's `schemaSpec`.
+ */
+function buildSchemaString(kinds: ControlKinds): string {
+    if (kinds.size === 0) return schemaString;
 
-            // 2. Try original array format
-            const originalResult = optionControlList.safeParse(parsed);
-            if (originalResult.success) {
-                return new BasicOptions(originalResult.data);
-            }
+    const specs = [...kinds.values()].map((kind) => kind.schemaSpec.trim());
+    const typeNames = specs
+        .map((spec) => spec.match(/(?:interface|type)\s+(\w+)/)?.[1])
+        .filter((name): name is string => name !== undefined);
+    return schemaString.replace(
+        "  | TextInputControl;",
+        `  | TextInputControl\n${typeNames.map((name) => `  | ${name}`).join("\n")};\n\n${specs.join("\n\n")}`,
+    );
+}
+
+function buildJsonSchema(kinds: ControlKinds): JsonSchema {
+    if (kinds.size === 0) return zodToJsonSchema(optionsResponse);
+
+    const controls = [...optionControl.options, ...[...kinds.values()].map((kind) => kind.schema)];
+    return zodToJsonSchema(
+        optionsResponse.extend({
+            options: z.array(z.union(controls as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]])),
+        }),
+    );
+}
+
+// Kind names models commonly use instead of the ones in the schema
+const KIND_ALIASES: Record<string, string> = {
+    single: "single-select",
+    select: "single-select",
+    singleselect: "single-select",
+    radio: "single-select",
+    dropdown: "single-select",
+    multi: "multi-select",
+    multiselect: "multi-select",
+    "multiple-select": "multi-select",
+    checkbox: "multi-select",
+    checkboxes: "multi-select",
+    binary: "binary-select",
+    toggle: "binary-select",
+    switch: "binary-select",
+    boolean: "binary-select",
+    text: "text-input",
+    input: "text-input",
+    textarea: "text-input",
+};
 
-            // If that fails, try to parse as the flattened JSON schema format
-            if (parsed && typeof parsed === "object" && Array.isArray(parsed.options)) {
-                const transformedOptions = parsed.options.map((item: any) => {
-                    if (item.kind === "binary-select") {
-                        return {
-                            kind: item.kind,
-                            label: item.label,
-                            options: {
-                                enabled: item.enabled_label || "Yes",
-                                disabled: item.disabled_label || "No",
-                            },
-                            value: item.selected_values[0] || "disabled",
-                        };
-                    } else {
-                        // Convert flattened format back to our internal format
-                        const options: Record<string, string> = {};
-                        if (item.option_keys && item.option_values) {
-                            for (let i = 0; i < Math.min(item.option_keys.length, item.option_values.length); i++) {
-                                options[item.option_keys[i]] = item.option_values[i];
-                            }
-                        }
-
-                        return {
-                            kind: item.kind,
-                            label: item.label,
-                            options: options,
-                            value: item.kind === "single-select" ? item.selected_values[0] : item.selected_values,
-                        };
+/**
+ * Convert a control in the flattened structured-output shape (`option_keys`, `option_values`,
+ * `selected_values`, `enabled_label`) back into the regular shape.
+ */
+function unflattenControl(item: Record<string, any>): Record<string, any> {
+    const { option_keys, option_values, selected_values, enabled_label, disabled_label, ...rest } = item;
+
+    if (item.kind === "slider" || item.kind === "range" || item.kind === "text-input") {
+        // Numeric and free-text controls have no option keys to flatten
+        const selectedValue = item.kind === "range" ? selected_values : selected_values?.[0];
+        const fallback = item.kind === "text-input" ? "" : undefined;
+        return { ...rest, value: item.value ?? selectedValue ?? fallback };
+    } else if (item.kind === "binary-select") {
+        return {
+            ...rest,
+            options: {
+                enabled: enabled_label || "Yes",
+                disabled: disabled_label || "No",
+            },
+            value: selected_values?.[0] || "disabled",
+        };
+    }
+
+    const options: Record<string, string> = {};
+    if (option_keys && option_values) {
+        for (let i = 0; i < Math.min(option_keys.length, option_values.length); i++) {
+            options[option_keys[i]] = option_values[i];
+        }
+    }
+    return {
+        ...rest,
+        options: options,
+        value: item.kind === "single-select" ? selected_values?.[0] : selected_values,
+    };
+}
+
+/**
+ * Resolve a selected value to a choice key, accepting the choice's display text as well as its key.
+ */
+function resolveChoiceKey(options: Record<string, string>, value: unknown): string | undefined {
+    if (typeof value !== "string") return undefined;
+    if (value in options) return value;
+    const normalized = normalizeLabel(value);
+    return Object.keys(options).find((key) => normalizeLabel(options[key]) === normalized);
+}
+
+function toNumber(value: unknown): unknown {
+    return typeof value === "string" && value.trim() !== "" && !isNaN(Number(value)) ? Number(value) : value;
+}
+
+/**
+ * Fix the mistakes models commonly make in a single control before it is validated. Each fix is described
+ * through `note`. Returns null for controls that cannot be shown at all, such as a select without choices.
+ */
+function repairControl(
+    raw: Record<string, any>,
+    kinds: ControlKinds,
+    note: (message: string) => void,
+): Record<string, any> | null {
+    let control: Record<string, any> = { ...raw };
+
+    if (control.kind === undefined && typeof control.type === "string") {
+        control.kind = control.type;
+        delete control.type;
+        note("used `type` as `kind`");
+    }
+    if (typeof control.kind === "string" && !kinds.has(control.kind)) {
+        const simplified = control.kind
+            .trim()
+            .toLowerCase()
+            .replace(/[\s_]+/g, "-");
+        const kind = KIND_ALIASES[simplified] ?? simplified;
+        if (kind !== control.kind) {
+            note(`changed kind "${control.kind}" to "${kind}"`);
+            control.kind = kind;
+        }
+    }
+    if ("selected_values" in control || "option_keys" in control || "enabled_label" in control) {
+        control = unflattenControl(control);
+    }
+    if (typeof control.label !== "string") {
+        const alternative = ["name", "title", "question"].find((key) => typeof control[key] === "string");
+        if (alternative) {
+            control.label = control[alternative];
+            note(`used \`${alternative}\` as \`label\``);
+        }
+    }
+
+    switch (control.kind) {
+        case "single-select":
+        case "multi-select": {
+            if (Array.isArray(control.options)) {
+                const options: Record<string, string> = {};
+                const descriptions: Record<string, string> = { ...control.choiceDescriptions };
+                for (const item of control.options) {
+                    if (typeof item === "string") {
+                        options[item] = item;
+                    } else if (item && typeof item === "object") {
+                        const key = item.key ?? item.value ?? item.id ?? item.label;
+                        if (typeof key !== "string") continue;
+                        options[key] = String(item.label ?? item.text ?? key);
+                        if (typeof item.description === "string") descriptions[key] = item.description;
                     }
-                });
+                }
+                control.options = options;
+                if (Object.keys(descriptions).length > 0) control.choiceDescriptions = descriptions;
+                note("converted the `options` array into an object of choices");
+            } else if (control.options && typeof control.options === "object") {
+                // Choices written as { key: { label, description } } instead of { key: label }
+                const nested = Object.entries(control.options).filter(([, item]) => item && typeof item === "object");
+                if (nested.length > 0) {
+                    const descriptions: Record<string, string> = { ...control.choiceDescriptions };
+                    const options: Record<string, string> = { ...control.options };
+                    for (const [key, item] of nested as [string, Record<string, unknown>][]) {
+                        options[key] = String(item.label ?? item.text ?? key);
+                        if (typeof item.description === "string") descriptions[key] = item.description;
+                    }
+                    control.options = options;
+                    if (Object.keys(descriptions).length > 0) control.choiceDescriptions = descriptions;
+                    note("flattened choices written as objects into labels and `choiceDescriptions`");
+                }
+            }
+            const options: Record<string, string> =
+                control.options && typeof control.options === "object" ? control.options : {};
+            const keys = Object.keys(options);
+            if (keys.length === 0) {
+                note("dropped a select control without any choices");
+                return null;
+            }
 
-                const transformedResult = optionControlList.safeParse(transformedOptions);
-                if (transformedResult.success) {
-                    return new BasicOptions(transformedResult.data);
+            if (control.kind === "single-select") {
+                const selected = Array.isArray(control.value) ? control.value[0] : control.value;
+                const key =
+                    selected === OTHER_OPTION_KEY && control.allowOther
+                        ? selected
+                        : resolveChoiceKey(options, selected);
+                if (key !== undefined) {
+                    control.value = key;
+                } else if (typeof selected === "string" && selected !== "" && control.allowOther) {
+                    control.value = OTHER_OPTION_KEY;
+                    control.otherValue = selected;
+                    note(`kept "${selected}" as the "Other" answer`);
+                } else {
+                    control.value = keys[0];
+                    note(
+                        selected === undefined
+                            ? `selected "${keys[0]}" because no value was given`
+                            : `replaced unknown value ${JSON.stringify(selected)} with "${keys[0]}"`,
+                    );
+                }
+            } else {
+                const selected: unknown[] = Array.isArray(control.value)
+                    ? control.value
+                    : control.value === undefined || control.value === ""
+                      ? []
+                      : [control.value];
+                const resolved = selected.map((value) =>
+                    value === OTHER_OPTION_KEY && control.allowOther ? value : resolveChoiceKey(options, value),
+                );
+                const unknown = selected.filter((_, index) => resolved[index] === undefined);
+                if (unknown.length > 0) {
+                    note(`removed unknown values ${unknown.map((value) => JSON.stringify(value)).join(", ")}`);
                 }
+                control.value = resolved.filter((key): key is string => key !== undefined);
+                if (control.value.length === 0) {
+                    // The spec asks for at least one selected choice
+                    control.value = [keys[0]];
+                    note(`selected "${keys[0]}" because no known value was given`);
+                }
+            }
+            break;
+        }
+        case "binary-select": {
+            const options = { enabled: "Yes", disabled: "No", ...control.options };
+            if (!control.options) note("added default Yes/No labels");
+            control.options = options;
+            if (control.value !== "enabled" && control.value !== "disabled") {
+                const value = control.value;
+                const enabled =
+                    value === true ||
+                    (typeof value === "string" &&
+                        (["true", "yes", "on"].includes(value.toLowerCase()) ||
+                            normalizeLabel(value) === normalizeLabel(options.enabled)));
+                control.value = enabled ? "enabled" : "disabled";
+                note(`read value ${JSON.stringify(value)} as "${control.value}"`);
+            }
+            break;
+        }
+        case "slider":
+        case "range": {
+            control.min = toNumber(control.min);
+            control.max = toNumber(control.max);
+            if (typeof control.min !== "number" || typeof control.max !== "number") break;
+            if (control.min > control.max) {
+                [control.min, control.max] = [control.max, control.min];
+                note("swapped min and max, which were the wrong way round");
             }
 
-            return undefined;
-        } catch (error) {
-            return undefined;
+            const clamp = (value: unknown, fallback: number) => {
+                const number = toNumber(value);
+                if (typeof number !== "number") return fallback;
+                return Math.min(control.max, Math.max(control.min, number));
+            };
+            const value = control.value;
+            control.value =
+                control.kind === "slider"
+                    ? clamp(value, control.min)
+                    : [clamp(value?.[0], control.min), clamp(value?.[1], control.max)].sort((a, b) => a - b);
+            if (JSON.stringify(value) !== JSON.stringify(control.value)) {
+                note(`adjusted value ${JSON.stringify(value)} to ${JSON.stringify(control.value)}`);
+            }
+            break;
         }
-    },
-    validatePartialJSON: (value: string): BasicOptions | undefined => {
-        try {
-            let jsonStr = value;
-            const arrayStart = jsonStr.indexOf("[");
-            if (arrayStart === -1) return undefined;
-
-            jsonStr = jsonStr.substring(arrayStart);
-
-            for (let i = jsonStr.lastIndexOf("},"); i >= 0; i = jsonStr.lastIndexOf("},", i - 1)) {
-                const potentialJson = jsonStr.substring(0, i + 1) + "]";
-
-                try {
-                    const parsed = JSON.parse(potentialJson);
-                    if (Array.isArray(parsed)) {
-                        const validated = basicOptionSet.validateJSON(JSON.stringify(parsed));
-                        if (validated) {
-                            return validated;
-                        }
-                    }
-                } catch {
-                    continue;
-                }
+        case "text-input":
+            if (typeof control.value !== "string") {
+                control.value = control.value === undefined || control.value === null ? "" : String(control.value);
             }
+            break;
+    }
+    return control;
+}
 
-            const completeJsonAttempts = [jsonStr, jsonStr + "]", jsonStr.replace(/,\s*$/, "") + "]"];
+/**
+ * Keep the text entries of a `rationale` object, dropping any others. Returns undefined when there are none.
+ */
+function readRationale(value: unknown): Record<string, string> | undefined {
+    if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+    const entries = Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === "string");
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
 
-            for (const attempt of completeJsonAttempts) {
-                try {
-                    const parsed = JSON.parse(attempt);
-                    if (Array.isArray(parsed)) {
-                        const validated = basicOptionSet.validateJSON(JSON.stringify(parsed));
-                        if (validated) {
-                            return validated;
-                        }
-                    }
-                } catch {
-                    continue;
-                }
+/**
+ * Validate model output, repairing common mistakes first. Every remaining problem is reported with its path,
+ * and the controls that did validate are kept so callers can fall back on them.
+ */
+function validateBasicOptionsJSON(value: string, kinds: ControlKinds): OptionsValidationResult<BasicOptions> {
+    const repairs: string[] = [];
+    let parsed: any;
+    try {
+        parsed = JSON.parse(value);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { issues: [{ path: [], message: `Not valid JSON: ${message}` }], repairs };
+    }
+
+    const isArray = Array.isArray(parsed);
+    const isObject = parsed !== null && typeof parsed === "object" && !isArray;
+    const controls: unknown[] | undefined = isArray ? parsed : isObject ? (parsed.options ?? []) : undefined;
+    if (!Array.isArray(controls)) {
+        const path = isObject ? ["options"] : [];
+        return { issues: [{ path, message: "Expected an array of option controls" }], repairs };
+    }
+
+    const metadata: OptionsMetadata = {};
+    if (isObject) {
+        if (typeof parsed.thought === "string") metadata.thought = parsed.thought;
+        if (parsed.rationale !== undefined) {
+            const rationale = readRationale(parsed.rationale);
+            if (rationale) {
+                metadata.rationale = rationale;
+            } else {
+                repairs.push("rationale: ignored a rationale without any text entries");
             }
+        }
+        if (["sidebar", "main", "full"].includes(parsed.layout)) {
+            metadata.layout = parsed.layout;
+        } else if (parsed.layout !== undefined) {
+            repairs.push(`layout: ignored unknown layout ${JSON.stringify(parsed.layout)}`);
+        }
+    }
+
+    const basePath = isArray ? [] : ["options"];
+    const issues: OptionsDiagnostic[] = [];
+    const valid: OptionControl[] = [];
+    controls.forEach((raw, index) => {
+        const path = [...basePath, index];
+        if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+            issues.push({ path, message: "Expected a control object" });
+            return;
+        }
+
+        const control = repairControl(raw, kinds, (message) =>
+            repairs.push(`${formatDiagnosticPath(path)}: ${message}`),
+        );
+        if (!control) return;
+
+        const schema = controlSchema(control.kind, kinds);
+        if (!schema) {
+            const expected = [...Object.keys(controlSchemas), ...kinds.keys()].join(", ");
+            issues.push({
+                path: [...path, "kind"],
+                message: `Unknown kind ${JSON.stringify(control.kind)}; expected one of ${expected}`,
+            });
+            return;
+        }
+        const result = schema.safeParse(control);
+        if (result.success) {
+            valid.push(result.data);
+        } else {
+            issues.push(
+                ...result.error.issues.map((issue) => ({ path: [...path, ...issue.path], message: issue.message })),
+            );
+        }
+    });
+
+    if (issues.length === 0) {
+        return { options: new BasicOptions(valid, metadata, kinds), issues, repairs };
+    }
+    const salvaged = valid.length > 0 ? new BasicOptions(valid, metadata, kinds) : undefined;
+    return { salvaged, issues, repairs };
+}
+
+/**
+ * Fill in the fields a streamed control has not received yet so it can be rendered. `pendingField` is the
+ * field whose string value is still arriving; a half-written kind, value or canvas code is never shown.
+ */
+function completePartialControl(
+    raw: unknown,
+    pendingField: string | number | undefined,
+    kinds: ControlKinds,
+): OptionControl | undefined {
+    if (!raw || typeof raw !== "object" || Array.isArray(raw) || pendingField === "kind") return undefined;
+
+    const control: Record<string, any> = { ...raw };
+    if (pendingField === "value" || pendingField === "code") {
+        delete control[pendingField];
+    }
+    if (typeof control.label !== "string") return undefined;
+
+    const custom = kinds.get(control.kind);
+    if (custom) {
+        const result = custom.schema.safeParse(custom.completePartial ? custom.completePartial(control) : control);
+        return result.success ? result.data : undefined;
+    }
+
+    const choices = control.options && typeof control.options === "object" ? control.options : {};
+    switch (control.kind) {
+        case "multi-select":
+            control.options = choices;
+            control.value ??= [];
+            break;
+        case "single-select":
+            control.options = choices;
+            control.value ??= Object.keys(choices)[0] ?? "";
+            break;
+        case "binary-select":
+            control.options = { enabled: "Yes", disabled: "No", ...choices };
+            if (control.value !== "enabled") control.value = "disabled";
+            break;
+        case "canvas":
+            control.code ??= "";
+            break;
+        case "slider":
+        case "range": {
+            control.min ??= 0;
+            control.max ??= Math.max(100, control.min);
+            const value = control.value;
+            if (control.kind === "slider") {
+                control.value = typeof value === "number" ? value : control.min;
+            } else {
+                control.value = [value?.[0] ?? control.min, value?.[1] ?? control.max];
+            }
+            break;
+        }
+        case "text-input":
+            control.value ??= "";
+            break;
+        default:
             return undefined;
-        } catch (error) {
-            return undefined;
+    }
+
+    const result = optionControl.safeParse(control);
+    return result.success ? result.data : undefined;
+}
+
+/**
+ * Build options from a partially parsed response in either the array or the object format.
+ */
+function partialBasicOptions(
+    raw: unknown,
+    pendingPath: JsonPath | undefined,
+    kinds: ControlKinds,
+): BasicOptions | undefined {
+    if (!raw || typeof raw !== "object") return undefined;
+
+    const isArray = Array.isArray(raw);
+    const response = raw as Record<string, any>;
+    const controls: unknown[] = isArray ? raw : Array.isArray(response.options) ? response.options : [];
+    // Path of a control inside the response, ["options", i] for the object format
+    const controlDepth = isArray ? 1 : 2;
+    const inControls = pendingPath !== undefined && (isArray || pendingPath[0] === "options");
+
+    const options = controls
+        .map((control, index) => {
+            const pendingField =
+                inControls && pendingPath!.length > controlDepth && pendingPath![controlDepth - 1] === index
+                    ? pendingPath![controlDepth]
+                    : undefined;
+            return completePartialControl(control, pendingField, kinds);
+        })
+        .filter((control): control is OptionControl => control !== undefined);
+
+    const metadata: OptionsMetadata = {};
+    if (!isArray) {
+        if (typeof response.thought === "string") {
+            metadata.thought = response.thought;
+            if (pendingPath?.length === 1 && pendingPath[0] === "thought") {
+                metadata.thoughtStreaming = true;
+            }
         }
-    },
-    emptyOptions: () => new BasicOptions([]),
-    mergeOptions: (base: BasicOptions, update: BasicOptions): BasicOptions => {
-        return base.mergeOptions(update);
-    },
-};
+        // Entries still being written are shown as they arrive, like the thought
+        const rationale = readRationale(response.rationale);
+        if (rationale) metadata.rationale = rationale;
+        const isLayoutPending = pendingPath?.length === 1 && pendingPath[0] === "layout";
+        if (!isLayoutPending && ["sidebar", "main", "full"].includes(response.layout)) {
+            metadata.layout = response.layout;
+        }
+    }
+
+    if (options.length === 0 && !metadata.thought) return undefined;
+    return new BasicOptions(options, metadata, kinds);
+}
+
+function createBasicOptionsParser(kinds: ControlKinds): StreamingOptionsParser<BasicOptions> {
+    const parser = new PartialJsonParser();
+    return {
+        push: (chunk: string) => {
+            parser.write(chunk);
+            return partialBasicOptions(parser.value, parser.pendingPath, kinds);
+        },
+    };
+}
+
+/**
+ * Create an option set that understands the built-in control kinds plus the given custom kinds. The custom
+ * kinds are described in the schema spec and JSON Schema sent to the model, validated and streamed like the
+ * built-in ones, and carried by every `BasicOptions` the set produces.
+ */
+export function createBasicOptionSet(customKinds: ReadonlyArray<ControlKind<any>> = []): OptionSet<BasicOptions> {
+    const kinds = customKinds.length > 0 ? createControlKinds(customKinds) : NO_CONTROL_KINDS;
+    const validate = (value: string) => validateBasicOptionsJSON(value, kinds);
+
+    return {
+        getSchemaSpec: () => buildSchemaString(kinds),
+        getJsonSchema: (): JsonSchema => buildJsonSchema(kinds),
+        validateJSON: (value: string): BasicOptions | undefined => validate(value).options,
+        validateJSONWithDiagnostics: validate,
+        validatePartialJSON: (value: string): BasicOptions | undefined => createBasicOptionsParser(kinds).push(value),
+        createStreamingParser: () => createBasicOptionsParser(kinds),
+        emptyOptions: () => new BasicOptions([], {}, kinds),
+        fromJSON: (data: unknown) => deserializeBasicOptions(data, kinds),
+        mergeOptions: (base: BasicOptions, update: BasicOptions): BasicOptions => {
+            return base.mergeOptions(update);
+        },
+    };
+}
+
+export const basicOptionSet: OptionSet<BasicOptions> = createBasicOptionSet();
@@ -0,0 +1,87 @@
+import * as z from "zod";
+import type { CanvasControl } from "./basicOptions";
+
+/** Marks messages as coming from the `window.promptions` API inside a canvas iframe */
+export const CANVAS_MESSAGE_SOURCE = "promptions-canvas";
+
+/** Marks messages the host posts into a canvas iframe, e.g. to replace its state after an undo */
+export const CANVAS_HOST_SOURCE = "promptions-host";
+
+// Limits keep a misbehaving canvas from flooding the conversation with state
+const MAX_CANVAS_KEY_LENGTH = 64;
+const MAX_CANVAS_VALUE_LENGTH = 4000;
+export const MAX_CANVAS_STATE_KEYS = 32;
+
+const canvasKey = z.string().min(1).max(MAX_CANVAS_KEY_LENGTH);
+
+/**
+ * Any JSON value whose serialized form stays within the size limit.
+ */
+const canvasValue = z.unknown().superRefine((value, context) => {
+    let json: string | undefined;
+    try {
+        json = JSON.stringify(value);
+    } catch {
+        json = undefined;
+    }
+    if (json === undefined) {
+        context.addIssue({ code: z.ZodIssueCode.custom, message: "Value must be serializable as JSON" });
+    } else if (json.length > MAX_CANVAS_VALUE_LENGTH) {
+        context.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Value must be at most ${MAX_CANVAS_VALUE_LENGTH} characters as JSON`,
+        });
+    }
+});
+
+const canvasMessage = z.discriminatedUnion("type", [
+    z.object({
+        source: z.literal(CANVAS_MESSAGE_SOURCE),
+        type: z.literal("setValue"),
+        key: canvasKey,
+        value: canvasValue,
+    }),
+    z.object({
+        source: z.literal(CANVAS_MESSAGE_SOURCE),
+        type: z.literal("emit"),
+        event: canvasKey,
+        payload: canvasValue.optional(),
+    }),
+]);
+
+export type CanvasMessage = z.infer<typeof canvasMessage>;
+
+/**
+ * Validate a message posted by a canvas. Anything that is not a well-formed bridge message is ignored.
+ */
+export function parseCanvasMessage(data: unknown): CanvasMessage | undefined {
+    const result = canvasMessage.safeParse(data);
+    return result.success ? result.data : undefined;
+}
+
+/**
+ * Fold a bridge message into the canvas control: `setValue` stores the value under its key in the control's
+ * `value`, `emit` records the event as the control's `lastEvent`. Keys beyond the limit are dropped.
+ */
+export function applyCanvasMessage(control: CanvasControl, message: CanvasMessage): CanvasControl {
+    if (message.type === "emit") {
+        return { ...control, lastEvent: { name: message.event, payload: message.payload } };
+    }
+
+    const state = control.value ?? {};
+    if (!(message.key in state) && Object.keys(state).length >= MAX_CANVAS_STATE_KEYS) return control;
+    return { ...control, value: { ...state, [message.key]: message.value } };
+}
+
+/**
+ * Describe the state a canvas reported, e.g. `budget: 1200, mode: "fast"; last event: run {"steps":10}`.
+ * Returns undefined when the canvas has reported nothing.
+ */
+export function formatCanvasState(control: CanvasControl): string | undefined {
+    const entries = Object.entries(control.value ?? {}).map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+    if (control.lastEvent) {
+        const payload = control.lastEvent.payload === undefined ? "" : ` ${JSON.stringify(control.lastEvent.payload)}`;
+        entries.push(`last event: ${control.lastEvent.name}${payload}`);
+    }
+    return entries.length > 0 ? entries.join(", ") : undefined;
+}
@@ -0,0 +1,61 @@
+import * as z from "zod";
+import type { VisibilityCondition } from "./basicOptions";
+
+/**
+ * A control of a kind registered through a `ControlKind` rather than built into `BasicOptions`. Besides these
+ * common fields it carries whatever its kind's schema defines.
+ */
+export interface CustomControl {
+    kind: string;
+    id?: string;
+    label: string;
+    visibleWhen?: VisibilityCondition;
+    value?: unknown;
+}
+
+/**
+ * An extra control kind composed into an option set with `createBasicOptionSet`. Everything the model prompt,
+ * the validator and the pretty printers need to know about the kind lives here, so domain-specific controls
+ * (a ticket picker, a date picker) can be added without changing the built-in kinds.
+ */
+export interface ControlKind<C extends CustomControl = CustomControl> {
+    /** The `kind` value the model uses for controls of this kind */
+    kind: string;
+    /**
+     * Validates a control of this kind, including `kind` itself. Spread `controlBaseShape` into the object to
+     * accept `id`, `label` and `visibleWhen` like the built-in controls do.
+     */
+    schema: z.ZodType<C, z.ZodTypeDef, any>;
+    /**
+     * TypeScript interface declaration describing the control to the model, e.g. `interface TicketPickerControl
+     * { kind: "ticket-picker"; ... }`. It is added to the schema spec and to the `OptionControl` union.
+     */
+    schemaSpec: string;
+    /** One line describing the control and its current value, used by `prettyPrint` */
+    prettyPrint(control: C): string;
+    /** The current value as the user's answer, e.g. "PROJ-123" */
+    formatAnswer(control: C): string;
+    /** The question the control asks; defaults to "What would you like for <label>?" */
+    formatQuestion?(control: C): string;
+    /**
+     * Carry the user's value over to a regenerated version of the control. By default the previous value is
+     * kept whenever the updated control still validates with it.
+     */
+    carryOver?(previous: C, updated: C): C;
+    /**
+     * Fill in the fields of a control that is still streaming so it can be shown early. Controls that do not
+     * validate after this are hidden until they do.
+     */
+    completePartial?(control: Record<string, any>): Record<string, any>;
+}
+
+/**
+ * Registered control kinds, keyed by `kind`.
+ */
+export type ControlKinds = ReadonlyMap<string, ControlKind<any>>;
+
+export const NO_CONTROL_KINDS: ControlKinds = new Map();
+
+export function createControlKinds(kinds: ReadonlyArray<ControlKind<any>>): ControlKinds {
+    return new Map(kinds.map((kind) => [kind.kind, kind]));
+}
@@ -0,0 +1,34 @@
+import type { Options } from "./types";
+
+export interface OptionsDiagnostic {
+    /** Location of the problem in the parsed JSON, e.g. ["options", 1, "value"] */
+    path: Array<string | number>;
+    message: string;
+}
+
+export interface OptionsValidationResult<T extends Options> {
+    /** The validated options, present only when every control passed validation */
+    options?: T;
+    /** The controls that did pass, when some had to be dropped */
+    salvaged?: T;
+    issues: OptionsDiagnostic[];
+    /** Automatic fixes applied before validation, in readable form */
+    repairs: string[];
+}
+
+/**
+ * Format a diagnostic path the way it would be written in JavaScript, e.g. `options[1].value`.
+ */
+export function formatDiagnosticPath(path: ReadonlyArray<string | number>): string {
+    if (path.length === 0) return "(root)";
+    return path
+        .map((part, index) => (typeof part === "number" ? `[${part}]` : index === 0 ? part : `.${part}`))
+        .join("");
+}
+
+/**
+ * Render diagnostics as a bullet list, suitable both for error messages and for sending back to the model.
+ */
+export function formatDiagnostics(issues: ReadonlyArray<OptionsDiagnostic>): string {
+    return issues.map((issue) => `- ${formatDiagnosticPath(issue.path)}: ${issue.message}`).join("\n");
+}
@@ -0,0 +1,142 @@
+import { OptionSelection, Options } from "./types";
+
+/**
+ * Selections rendered for the answer model. `question` is sent as an assistant turn before `answer`, which is
+ * sent as the user's turn; strategies that only describe the selections leave `question` out.
+ */
+export interface ElaboratedOptions {
+    question?: string;
+    answer: string;
+}
+
+/**
+ * A way of presenting the user's option selections to the model that answers the request. Strategies are
+ * interchangeable so the format can be compared for its effect on answer quality.
+ */
+export interface ElaborationStrategy {
+    id: string;
+    label: string;
+    description: string;
+    /**
+     * Render the selections, or return undefined when there is nothing worth sending.
+     */
+    elaborate(options: Options): ElaboratedOptions | undefined;
+}
+
+function escapeXml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// `Label: answer`, followed by what the selected choices change when the model described them
+function formatSelection(selection: OptionSelection): string {
+    const description = selection.description ? ` (${selection.description})` : "";
+    return `${selection.label}: ${selection.answer}${description}`;
+}
+
+/**
+ * Build a strategy that works from structured selections. Options without `getSelections` fall back to
+ * `prettyPrint`, so every strategy works with any option set.
+ */
+function fromSelections(
+    id: string,
+    label: string,
+    description: string,
+    render: (selections: OptionSelection[]) => string | undefined,
+): ElaborationStrategy {
+    return {
+        id,
+        label,
+        description,
+        elaborate: (options) => {
+            if (options.isEmpty()) return undefined;
+            if (!options.getSelections) return { answer: options.prettyPrint() };
+
+            const selections = options.getSelections();
+            const answer = selections.length > 0 ? render(selections) : undefined;
+            return answer === undefined ? undefined : { answer };
+        },
+    };
+}
+
+export const conversationElaboration: ElaborationStrategy = {
+    id: "conversation",
+    label: "Question and answer",
+    description: "Asks each control as a question and answers it as the user",
+    elaborate: (options) => {
+        if (options.isEmpty()) return undefined;
+        return options.prettyPrintAsConversation?.() ?? { answer: options.prettyPrint() };
+    },
+};
+
+export const summaryElaboration: ElaborationStrategy = {
+    id: "summary",
+    label: "Detailed summary",
+    description: "Lists every control with all of its choices and the selected one",
+    elaborate: (options) => (options.isEmpty() ? undefined : { answer: options.prettyPrint() }),
+};
+
+export const xmlElaboration = fromSelections("xml", "XML tags", "Wraps each selection in a tag", (selections) =>
+    [
+        "<selections>",
+        ...selections.map(
+            (selection) =>
+                `  <selection label="${escapeXml(selection.label)}"${
+                    selection.description ? ` description="${escapeXml(selection.description)}"` : ""
+                }>${escapeXml(selection.answer)}</selection>`,
+        ),
+        "</selections>",
+    ].join("\n"),
+);
+
+export const jsonElaboration = fromSelections(
+    "json",
+    "JSON block",
+    "Sends the selections as a JSON object keyed by control label",
+    (selections) => {
+        const values = Object.fromEntries(
+            selections.map((selection) => [
+                selection.label,
+                selection.description
+                    ? { answer: selection.answer, description: selection.description }
+                    : selection.answer,
+            ]),
+        );
+        return `\`\`\`json\n${JSON.stringify(values, null, 2)}\n\`\`\``;
+    },
+);
+
+export const instructionElaboration = fromSelections(
+    "instructions",
+    "Concise instructions",
+    "States the selections as one short instruction",
+    (selections) => `Follow these preferences: ${selections.map(formatSelection).join("; ")}.`,
+);
+
+export const changedOnlyElaboration = fromSelections(
+    "changed",
+    "Changed controls only",
+    "Sends only the controls the user changed from the proposed values",
+    (selections) => {
+        const changed = selections.filter((selection) => selection.changed);
+        if (changed.length === 0) return undefined;
+        return `I changed these settings: ${changed.map(formatSelection).join("; ")}.`;
+    },
+);
+
+export const elaborationStrategies: ReadonlyArray<ElaborationStrategy> = [
+    conversationElaboration,
+    summaryElaboration,
+    xmlElaboration,
+    jsonElaboration,
+    instructionElaboration,
+    changedOnlyElaboration,
+];
+
+export const DEFAULT_ELABORATION_STRATEGY = conversationElaboration;
+
+/**
+ * Look up a strategy by id, falling back to the default for unknown or missing ids.
+ */
+export function getElaborationStrategy(id: string | undefined): ElaborationStrategy {
+    return elaborationStrategies.find((strategy) => strategy.id === id) ?? DEFAULT_ELABORATION_STRATEGY;
+}
@@ -3,3 +3,9 @@
 
 export * from "./types";
 export * from "./basicOptions";
+export * from "./canvasBridge";
+export * from "./controlKinds";
+export * from "./diagnostics";
+export * from "./elaboration";
+export * from "./jsonSchema";
+export * from "./partialJson";
@@ -0,0 +1,84 @@
+import * as z from "zod";
+
+/**
+ * A JSON Schema document as accepted by structured-output APIs.
+ */
+export type JsonSchema = { [key: string]: any };
+
+/**
+ * Convert a zod schema into a plain JSON Schema object. Only the zod types used by the option sets are
+ * supported; anything else maps to an unconstrained schema rather than failing, since structured output is
+ * always backed by `validateJSON` on the result.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+    const result = convert(schema);
+    const description = schema.description;
+    return description ? { ...result, description } : result;
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+    if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable || schema instanceof z.ZodDefault) {
+        return zodToJsonSchema(schema._def.innerType);
+    }
+    if (schema instanceof z.ZodEffects) {
+        return zodToJsonSchema(schema._def.schema);
+    }
+    if (schema instanceof z.ZodString) {
+        return { type: "string" };
+    }
+    if (schema instanceof z.ZodNumber) {
+        const result: JsonSchema = { type: schema.isInt ? "integer" : "number" };
+        for (const check of schema._def.checks) {
+            if (check.kind === "min") {
+                result[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+            } else if (check.kind === "max") {
+                result[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+            }
+        }
+        return result;
+    }
+    if (schema instanceof z.ZodBoolean) {
+        return { type: "boolean" };
+    }
+    if (schema instanceof z.ZodLiteral) {
+        return { type: typeof schema.value, const: schema.value };
+    }
+    if (schema instanceof z.ZodEnum) {
+        return { type: "string", enum: [...schema.options] };
+    }
+    if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+        return { anyOf: (schema.options as z.ZodTypeAny[]).map(zodToJsonSchema) };
+    }
+    if (schema instanceof z.ZodArray) {
+        const result: JsonSchema = { type: "array", items: zodToJsonSchema(schema.element) };
+        if (schema._def.minLength) result.minItems = schema._def.minLength.value;
+        if (schema._def.maxLength) result.maxItems = schema._def.maxLength.value;
+        return result;
+    }
+    if (schema instanceof z.ZodTuple) {
+        // Tuples in the option schemas are homogeneous, so a fixed-length array keeps the schema simple
+        // enough for providers that do not understand `prefixItems`
+        const items = schema.items as z.ZodTypeAny[];
+        return {
+            type: "array",
+            items: items.length > 0 ? zodToJsonSchema(items[0]) : {},
+            minItems: items.length,
+            maxItems: items.length,
+        };
+    }
+    if (schema instanceof z.ZodRecord) {
+        return { type: "object", additionalProperties: zodToJsonSchema(schema.valueSchema) };
+    }
+    if (schema instanceof z.ZodObject) {
+        const properties: Record<string, JsonSchema> = {};
+        const required: string[] = [];
+        for (const [key, value] of Object.entries(schema.shape as Record<string, z.ZodTypeAny>)) {
+            properties[key] = zodToJsonSchema(value);
+            if (!value.isOptional()) {
+                required.push(key);
+            }
+        }
+        return { type: "object", properties, required, additionalProperties: false };
+    }
+    return {};
+}
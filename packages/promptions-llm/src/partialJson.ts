@@ -0,0 +1,253 @@
+export type JsonPath = ReadonlyArray<string | number>;
+
+type Frame =
+    | {
+          type: "object";
+          value: Record<string, unknown>;
+          path: JsonPath;
+          key?: string;
+          expect: "key" | "colon" | "value" | "comma";
+      }
+    | { type: "array"; value: unknown[]; path: JsonPath; expect: "value" | "comma" };
+
+type Token =
+    | { type: "string"; text: string; isKey: boolean; escape?: string; path?: JsonPath }
+    | { type: "literal"; text: string };
+
+const ESCAPES: Record<string, string> = { '"': '"', "\\": "\\", "/": "/", b: "\b", f: "\f", n: "\n", r: "\r", t: "\t" };
+const LITERAL_START = /[-0-9tfn]/;
+const LITERAL_CHAR = /[-+.0-9a-zA-Z]/;
+const WHITESPACE = /\s/;
+
+/**
+ * Incremental JSON tokenizer for model output that arrives in chunks. Each chunk is scanned once and the
+ * partially built value is kept between calls, so parsing a whole response stays linear in its length.
+ *
+ * Anything before the first `{` or `[` (such as a markdown fence) is skipped, and anything after the root
+ * value closes is ignored. Strings that are still streaming are exposed with the text received so far;
+ * numbers and other literals only appear once complete.
+ */
+export class PartialJsonParser {
+    private root: unknown = undefined;
+    private stack: Frame[] = [];
+    private token: Token | undefined = undefined;
+    private started = false;
+    private finished = false;
+    private failed = false;
+
+    /**
+     * The value parsed so far, or undefined before the root value has started.
+     */
+    get value(): unknown {
+        return this.root;
+    }
+
+    /**
+     * True once the root value has been closed.
+     */
+    get done(): boolean {
+        return this.finished;
+    }
+
+    /**
+     * True if the input stopped being valid JSON; the value keeps whatever was parsed before that point.
+     */
+    get error(): boolean {
+        return this.failed;
+    }
+
+    /**
+     * Path of the string value that is still being streamed, if any.
+     */
+    get pendingPath(): JsonPath | undefined {
+        return this.token?.type === "string" && !this.token.isKey ? this.token.path : undefined;
+    }
+
+    write(chunk: string): void {
+        for (const char of chunk) {
+            if (this.finished || this.failed) break;
+            this.consume(char);
+        }
+        // Expose the in-progress string so consumers can render it as it streams
+        if (this.token?.type === "string" && !this.token.isKey && this.token.path) {
+            this.assign(this.token.path, this.token.text);
+        }
+    }
+
+    private consume(char: string): void {
+        const token = this.token;
+        if (token?.type === "string") {
+            this.consumeString(token, char);
+            return;
+        }
+        if (token?.type === "literal") {
+            if (LITERAL_CHAR.test(char)) {
+                token.text += char;
+                return;
+            }
+            this.token = undefined;
+            this.completeLiteral(token.text);
+            if (this.finished || this.failed) return;
+        }
+
+        if (!this.started) {
+            if (char === "{" || char === "[") {
+                this.started = true;
+                this.open(char);
+            }
+            return;
+        }
+        if (WHITESPACE.test(char)) return;
+
+        const frame = this.stack[this.stack.length - 1];
+        if (!frame) {
+            this.failed = true;
+            return;
+        }
+
+        switch (frame.expect) {
+            case "key":
+                if (char === '"') {
+                    this.token = { type: "string", text: "", isKey: true };
+                } else if (char === "}") {
+                    this.close();
+                } else {
+                    this.failed = true;
+                }
+                return;
+            case "colon":
+                if (char === ":") {
+                    frame.expect = "value";
+                } else {
+                    this.failed = true;
+                }
+                return;
+            case "comma":
+                if (char === ",") {
+                    frame.expect = frame.type === "object" ? "key" : "value";
+                } else if ((char === "}" && frame.type === "object") || (char === "]" && frame.type === "array")) {
+                    this.close();
+                } else {
+                    this.failed = true;
+                }
+                return;
+            case "value":
+                if (char === "{" || char === "[") {
+                    this.open(char);
+                } else if (char === '"') {
+                    const path = this.nextPath(frame);
+                    this.token = { type: "string", text: "", isKey: false, path };
+                    this.place("");
+                } else if (LITERAL_START.test(char)) {
+                    this.token = { type: "literal", text: char };
+                } else if (char === "]" && frame.type === "array") {
+                    // Empty array, or a trailing comma the model left behind
+                    this.close();
+                } else {
+                    this.failed = true;
+                }
+                return;
+        }
+    }
+
+    private consumeString(token: Extract<Token, { type: "string" }>, char: string): void {
+        if (token.escape !== undefined) {
+            if (token.escape === "" && char !== "u") {
+                token.text += ESCAPES[char] ?? char;
+                token.escape = undefined;
+            } else {
+                token.escape += char;
+                // "u" followed by four hex digits
+                if (token.escape.length === 5) {
+                    token.text += String.fromCharCode(parseInt(token.escape.slice(1), 16) || 0xfffd);
+                    token.escape = undefined;
+                }
+            }
+            return;
+        }
+        if (char === "\\") {
+            token.escape = "";
+            return;
+        }
+        if (char !== '"') {
+            token.text += char;
+            return;
+        }
+
+        this.token = undefined;
+        const frame = this.stack[this.stack.length - 1];
+        if (token.isKey && frame.type === "object") {
+            frame.key = token.text;
+            frame.expect = "colon";
+        } else if (token.path) {
+            this.assign(token.path, token.text);
+            this.afterValue();
+        }
+    }
+
+    private completeLiteral(text: string): void {
+        let value: unknown;
+        if (text === "true") value = true;
+        else if (text === "false") value = false;
+        else if (text === "null") value = null;
+        else if (!isNaN(Number(text))) value = Number(text);
+        else {
+            this.failed = true;
+            return;
+        }
+        this.place(value);
+        this.afterValue();
+    }
+
+    private open(char: "{" | "["): void {
+        const parent = this.stack[this.stack.length - 1];
+        const path = parent ? this.nextPath(parent) : [];
+        const frame: Frame =
+            char === "{"
+                ? { type: "object", value: {}, path, expect: "key" }
+                : { type: "array", value: [], path, expect: "value" };
+        this.place(frame.value);
+        this.stack.push(frame);
+    }
+
+    private close(): void {
+        this.stack.pop();
+        this.afterValue();
+    }
+
+    private afterValue(): void {
+        const frame = this.stack[this.stack.length - 1];
+        if (frame) {
+            frame.expect = "comma";
+        } else {
+            this.finished = true;
+        }
+    }
+
+    private nextPath(frame: Frame): JsonPath {
+        return frame.type === "object" ? [...frame.path, frame.key!] : [...frame.path, frame.value.length];
+    }
+
+    private place(value: unknown): void {
+        const frame = this.stack[this.stack.length - 1];
+        if (!frame) {
+            this.root = value;
+        } else if (frame.type === "array") {
+            frame.value.push(value);
+        } else {
+            frame.value[frame.key!] = value;
+        }
+    }
+
+    private assign(path: JsonPath, value: unknown): void {
+        const frame = this.stack[this.stack.length - 1];
+        const key = path[path.length - 1];
+        if (!frame) {
+            this.root = value;
+        } else if (frame.type === "array") {
+            frame.value[key as number] = value;
+        } else {
+            frame.value[key as string] = value;
+        }
+    }
+}
@@ -1,14 +1,84 @@
+import type { OptionsValidationResult } from "./diagnostics";
+import { JsonSchema } from "./jsonSchema";
+
+export interface ControlReference {
+    id: string;
+    label: string;
+}
+
+/**
+ * Outcome of merging updated options into existing ones, matched by control identity.
+ */
+export interface OptionsMergeReport {
+    added: ControlReference[];
+    removed: ControlReference[];
+    kept: ControlReference[];
+}
+
 export interface OptionsMetadata {
     thought?: string;
+    /** Why the model proposed individual controls, keyed by control id or label */
+    rationale?: Record<string, string>;
     layout?: "sidebar" | "main" | "full";
+    /** Set on partial options while the model is still writing `thought` */
+    thoughtStreaming?: boolean;
+    /** Set when the options were merged into a non-empty previous version */
+    merge?: OptionsMergeReport;
+    /** Values the controls had when the model proposed them, keyed by control id */
+    defaults?: Record<string, unknown>;
     [key: string]: any;
 }
 
+/**
+ * JSON-safe form of an Options instance. `format` identifies the OptionSet that can read it back and
+ * `version` lets `OptionSet.fromJSON` migrate data saved by older releases.
+ */
+export interface SerializedOptions {
+    format: string;
+    version: number;
+    options: unknown;
+    metadata?: OptionsMetadata;
+}
+
+/**
+ * The current state of one control, for rendering selections in formats other than `prettyPrint`.
+ */
+export interface OptionSelection {
+    id: string;
+    label: string;
+    kind: string;
+    /** The question the control asks, e.g. "What is your choice for Tone?" */
+    question: string;
+    /** The current value in readable form, e.g. "Formal" or "200 to 400 words" */
+    answer: string;
+    /** What the selected choices change, when the model described them */
+    description?: string;
+    /** The raw value, such as the selected keys or the slider position */
+    value: unknown;
+    /** True when the user changed the value from the one the model proposed */
+    changed: boolean;
+}
+
 export interface Options {
     prettyPrint(): string;
     prettyPrintAsConversation?(): { question: string; answer: string };
+    /**
+     * The visible controls that hold a value, in order.
+     */
+    getSelections?(): OptionSelection[];
     isEmpty(): boolean;
     getMetadata?(): OptionsMetadata;
+    /**
+     * Serialize the options, including their metadata, in the current versioned format.
+     */
+    toJSON(): SerializedOptions;
+}
+
+export interface StreamingOptionsParser<T extends Options> {
+    /**
+     * Feed the next chunk of model output and return the options parsed so far, if any.
+     */
+    push(chunk: string): T | undefined;
 }
 
 export interface OptionSet<T extends Options> {
@@ -17,20 +87,41 @@ export interface OptionSet<T extends Options> {
      * and generate conforming JSON.
      */
     getSchemaSpec(): string;
+    /**
+     * Return a JSON Schema for the generated output, used to constrain decoding on providers that support
+     * structured output. Without it, callers fall back to prompting with `getSchemaSpec` alone.
+     */
+    getJsonSchema?(): JsonSchema;
     /**
      * Validate the provided JSON string against the option schema.
      */
     validateJSON(value: string): T | undefined;
+    /**
+     * Validate like `validateJSON`, but report every remaining problem with its path, along with the automatic
+     * repairs that were applied. Used to give the model precise feedback when its output is rejected.
+     */
+    validateJSONWithDiagnostics?(value: string): OptionsValidationResult<T>;
     /**
      * Incrementally validate a partial JSON string against the option schema
      */
     validatePartialJSON?(value: string): T | undefined;
+    /**
+     * Create a parser that keeps its state across the chunks of one streamed response, so each chunk is
+     * only scanned once. Preferred over `validatePartialJSON` when the output arrives incrementally.
+     */
+    createStreamingParser?(): StreamingOptionsParser<T>;
     /**
      * Returns empty options useful for initializing state or when no options are available.
      */
     emptyOptions(): T;
     /**
-     * Merge two options together. Used for apply updates to existing options.
+     * Restore options saved with `Options.toJSON`, migrating older versions. Returns undefined when the data
+     * is not in this option set's format or fails validation.
+     */
+    fromJSON(data: unknown): T | undefined;
+    /**
+     * Merge two options together. Used for apply updates to existing options, keeping the values the user
+     * already picked for controls that survive the update.
      */
     mergeOptions(base: T, update: T): T;
 }
@@ -0,0 +1,277 @@
+import React, { useRef, useState } from "react";
+import { Button, Slider, Text, makeStyles, tokens } from "@fluentui/react-components";
+import type { A2UIComponent } from "./protocol";
+import { useA2UI } from "./A2UIProvider";
+import type { A2UIDevtoolsEntry, A2UIDevtoolsRecorder } from "./devtools";
+
+const useStyles = makeStyles({
+    container: {
+        display: "flex",
+        flexDirection: "column",
+        gap: tokens.spacingVerticalS,
+        padding: tokens.spacingHorizontalS,
+        border: `1px dashed ${tokens.colorNeutralStroke1}`,
+        borderRadius: tokens.borderRadiusMedium,
+        fontSize: tokens.fontSizeBase200,
+    },
+    toolbar: {
+        display: "flex",
+        alignItems: "center",
+        flexWrap: "wrap",
+        gap: tokens.spacingHorizontalS,
+    },
+    scrubber: {
+        display: "flex",
+        alignItems: "center",
+        gap: tokens.spacingHorizontalS,
+    },
+    slider: {
+        flexGrow: 1,
+    },
+    columns: {
+        display: "grid",
+        gridTemplateColumns: "minmax(0, 1fr) minmax(0, 1fr)",
+        gap: tokens.spacingHorizontalM,
+    },
+    pane: {
+        maxHeight: "320px",
+        overflowY: "auto",
+        border: `1px solid ${tokens.colorNeutralStroke2}`,
+        borderRadius: tokens.borderRadiusMedium,
+        padding: tokens.spacingHorizontalXS,
+    },
+    timeline: {
+        listStyleType: "none",
+        margin: 0,
+        padding: 0,
+    },
+    entry: {
+        display: "block",
+        width: "100%",
+        textAlign: "left",
+        padding: `${tokens.spacingVerticalXXS} ${tokens.spacingHorizontalXS}`,
+        border: "none",
+        borderRadius: tokens.borderRadiusSmall,
+        backgroundColor: "transparent",
+        color: tokens.colorNeutralForeground1,
+        cursor: "pointer",
+        ":hover": {
+            backgroundColor: tokens.colorNeutralBackground1Hover,
+        },
+    },
+    selected: {
+        backgroundColor: tokens.colorBrandBackground2,
+    },
+    code: {
+        display: "block",
+        fontFamily: tokens.fontFamilyMonospace,
+        color: tokens.colorNeutralForeground3,
+        overflow: "hidden",
+        textOverflow: "ellipsis",
+        whiteSpace: "nowrap",
+    },
+    failed: {
+        color: tokens.colorPaletteRedForeground1,
+    },
+    props: {
+        margin: `0 0 0 ${tokens.spacingHorizontalL}`,
+        fontFamily: tokens.fontFamilyMonospace,
+        color: tokens.colorNeutralForeground3,
+        whiteSpace: "pre-wrap",
+        wordBreak: "break-all",
+    },
+    children: {
+        marginLeft: tokens.spacingHorizontalL,
+    },
+});
+
+/**
+ * Developer panel for the surrounding A2UIProvider: a timeline of stream lines and actions, a scrubber that shows
+ * the surface at any recorded version, a component tree inspector, and session export and import for replaying a
+ * bug. Needs the provider to be mounted with `devtools`.
+ */
+export function A2UIDevtools() {
+    const { devtools } = useA2UI();
+
+    if (!devtools) {
+        return <Text size={200}>A2UI devtools are off. Mount A2UIProvider with the devtools prop to record.</Text>;
+    }
+    return <DevtoolsPanel recorder={devtools} />;
+}
+
+function DevtoolsPanel({ recorder }: { recorder: A2UIDevtoolsRecorder }) {
+    const styles = useStyles();
+    const { viewedFrameId, viewFrame, rootComponents } = useA2UI();
+    const [importError, setImportError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    React.useSyncExternalStore(recorder.subscribe, recorder.getSnapshot);
+
+    const entries = recorder.getEntries();
+    const frames = recorder.getFrames();
+    const frameIndex = viewedFrameId !== null ? frames.findIndex((frame) => frame.id === viewedFrameId) : -1;
+    const viewedFrame = frameIndex >= 0 ? frames[frameIndex] : undefined;
+
+    const handleExport = () => {
+        const blob = new Blob([JSON.stringify(recorder.exportSession())], { type: "application/json" });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = `a2ui-session-${new Date().toISOString().slice(0, 19).replace(/:/g, "-")}.json`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (file: File) => {
+        try {
+            recorder.importSession(JSON.parse(await file.text()));
+            setImportError(null);
+            // An imported session has no live tree behind it, so start at its last frame
+            const imported = recorder.getFrames();
+            viewFrame(imported.length ? imported[imported.length - 1].id : null);
+        } catch (error) {
+            setImportError(error instanceof Error ? error.message : String(error));
+        }
+    };
+
+    const handleClear = () => {
+        recorder.clear();
+        viewFrame(null);
+    };
+
+    return (
+        <section className={styles.container} aria-label="A2UI devtools">
+            <div className={styles.toolbar}>
+                <Text weight="semibold">A2UI devtools</Text>
+                <Text size={200}>
+                    {entries.length} entries, {frames.length} versions
+                </Text>
+                <Button size="small" appearance="primary" disabled={!viewedFrame} onClick={() => viewFrame(null)}>
+                    Live
+                </Button>
+                <Button size="small" disabled={entries.length === 0} onClick={handleExport}>
+                    Export
+                </Button>
+                <Button size="small" onClick={() => fileInputRef.current?.click()}>
+                    Import
+                </Button>
+                <Button size="small" appearance="subtle" disabled={entries.length === 0} onClick={handleClear}>
+                    Clear
+                </Button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    hidden
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = "";
+                        if (file) void handleImport(file);
+                    }}
+                />
+            </div>
+            {importError && (
+                <Text size={200} className={styles.failed}>
+                    Import failed: {importError}
+                </Text>
+            )}
+
+            <div className={styles.scrubber}>
+                <Slider
+                    className={styles.slider}
+                    size="small"
+                    min={0}
+                    max={Math.max(frames.length - 1, 0)}
+                    value={frameIndex >= 0 ? frameIndex : Math.max(frames.length - 1, 0)}
+                    disabled={frames.length === 0}
+                    aria-label="Version"
+                    onChange={(_, data) => viewFrame(frames[data.value]?.id ?? null)}
+                />
+                <Text size={200}>
+                    {viewedFrame ? `Version ${viewedFrame.version} (${frameIndex + 1} of ${frames.length})` : "Live"}
+                </Text>
+            </div>
+
+            <div className={styles.columns}>
+                <div className={styles.pane}>
+                    <ol className={styles.timeline} aria-label="Timeline">
+                        {entries.map((entry) => (
+                            <li key={entry.id}>
+                                <button
+                                    type="button"
+                                    className={`${styles.entry} ${entry.frameId === viewedFrameId ? styles.selected : ""}`}
+                                    onClick={() => viewFrame(entry.frameId)}
+                                >
+                                    <TimelineEntry entry={entry} />
+                                </button>
+                            </li>
+                        ))}
+                    </ol>
+                </div>
+                <div className={styles.pane} aria-label="Component tree">
+                    {rootComponents.length ? (
+                        rootComponents.map((component) => <ComponentNode key={component.id} component={component} />)
+                    ) : (
+                        <Text size={200}>No components.</Text>
+                    )}
+                </div>
+            </div>
+        </section>
+    );
+}
+
+function TimelineEntry({ entry }: { entry: A2UIDevtoolsEntry }) {
+    const styles = useStyles();
+
+    if (entry.kind === "action") {
+        const { action, sent } = entry;
+        return (
+            <>
+                <span>
+                    {action.type} on {action.componentId} ({sent ? "sent" : "local"})
+                </span>
+                {action.payload && <span className={styles.code}>{JSON.stringify(action.payload)}</span>}
+            </>
+        );
+    }
+
+    const { record } = entry;
+    return (
+        <>
+            <span className={record.status === "applied" ? undefined : styles.failed}>
+                {record.messageType ?? "line"} {record.status}, v{record.version}
+            </span>
+            <span className={styles.code} title={record.line}>
+                {record.line}
+            </span>
+            {record.errors?.map((error, index) => (
+                <span key={index} className={`${styles.code} ${styles.failed}`} title={error}>
+                    {error}
+                </span>
+            ))}
+        </>
+    );
+}
+
+function ComponentNode({ component }: { component: A2UIComponent }) {
+    const styles = useStyles();
+    const { getChildren } = useA2UI();
+    const children = getChildren(component.id) ?? component.children ?? [];
+
+    return (
+        <details open>
+            <summary>
+                {component.id} ({component.type}){component.hidden ? " hidden" : ""}
+            </summary>
+            <pre className={styles.props}>{JSON.stringify(component.props, null, 2)}</pre>
+            {children.length > 0 && (
+                <div className={styles.children}>
+                    {children.map((child) => (
+                        <ComponentNode key={child.id} component={child} />
+                    ))}
+                </div>
+            )}
+        </details>
+    );
+}
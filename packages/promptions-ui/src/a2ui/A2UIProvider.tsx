@@ -1,19 +1,60 @@
 import { createContext, useContext, useState, useCallback, useRef, useEffect, useMemo, ReactNode } from "react";
-import { A2UIStreamMessage, A2UIAction, A2UIComponent, A2UIConfig, DefaultA2UIConfig } from "./protocol";
+import {
+  A2UIStreamMessage,
+  A2UIAction,
+  A2UIComponent,
+  A2UIConfig,
+  A2UIParserStats,
+  A2UIRejection,
+  DefaultA2UIConfig,
+} from "./protocol";
 import { A2UIStreamParser } from "./streamParser";
+import { A2UIDataModel } from "./dataModel";
+import { A2UIDevtoolsRecorder, getFrameChildren, getFrameRoots } from "./devtools";
 import { useTambo } from "../registry/TamboProvider";
+import { describeComponents } from "../registry/componentRegistry";
 
 interface A2UIContextValue {
   isConnected: boolean;
   isStreaming: boolean;
   rootComponents: A2UIComponent[];
+  /** Look up a streamed component by ID */
+  getComponent: (id: string) => A2UIComponent | undefined;
+  /** Children of a streamed component in render order, undefined for components not in the stream */
+  getChildren: (id: string) => A2UIComponent[] | undefined;
   connect: (message?: string) => void;
   disconnect: () => void;
   sendAction: (action: A2UIAction, options?: { stream?: boolean }) => void;
+  /** Keep an action on the client: it updates the snapshot sent with the next action but calls no server */
+  recordAction: (action: A2UIAction) => void;
+  /**
+   * Run the client handlers the action's component declares. Returns true when they handled the action and it
+   * should not be sent to the server.
+   */
+  runClientHandlers: (action: A2UIAction) => boolean;
+  /** Count a rendered component whose props failed its schema, and pass the issues to `onWarning` */
+  reportInvalidProps: (componentId: string, type: string, errors: string[]) => void;
   reset: () => void;
   version: number;
+  /** Accepted and rejected stream messages since the last connect or reset */
+  stats: A2UIParserStats;
+  /** JSON that component props bind to with { "$bind": "/path" } */
+  dataModel: A2UIDataModel;
+  /** Write to the data model at a JSON Pointer, e.g. from an input with a two-way binding */
+  setData: (path: string, value: unknown) => void;
+  /** Recording of stream lines and actions, when the provider was mounted with `devtools` */
+  devtools: A2UIDevtoolsRecorder | null;
+  /** Frame of the recording shown instead of the live tree, or null when live */
+  viewedFrameId: number | null;
+  /**
+   * Show the tree and data model of a recorded frame, or go back to the live tree with null. While a frame is shown
+   * the surface is read-only: actions and data writes are ignored, and streamed messages only reach the live tree.
+   */
+  viewFrame: (frameId: number | null) => void;
 }
 
+const emptyStats: A2UIParserStats = { accepted: 0, rejected: 0, reasons: {}, recent: [] };
+
 const A2UIContext = createContext<A2UIContextValue | null>(null);
 
 interface A2UIProviderProps {
@@ -23,20 +64,42 @@ interface A2UIProviderProps {
   requestBody?: Record<string, unknown> | (() => Record<string, unknown>);
   onError?: (error: Error) => void;
   onWarning?: (warning: string) => void;
+  onReject?: (rejection: A2UIRejection) => void;
+  /** Record every stream line and action for the devtools panel; read when the provider mounts */
+  devtools?: boolean;
 }
 
-export function A2UIProvider({ children, config, endpoint = "/api/a2ui", requestBody, onError, onWarning }: A2UIProviderProps) {
+export function A2UIProvider({
+  children,
+  config,
+  endpoint = "/api/a2ui",
+  requestBody,
+  onError,
+  onWarning,
+  onReject,
+  devtools = false,
+}: A2UIProviderProps) {
   const { registeredComponents } = useTambo();
   const [isConnected, setIsConnected] = useState(false);
   const [isStreaming, setIsStreaming] = useState(false);
   const [rootComponents, setRootComponents] = useState<A2UIComponent[]>([]);
   const [version, setVersion] = useState(0);
+  const [stats, setStats] = useState<A2UIParserStats>(emptyStats);
+  const [dataModel, setDataModel] = useState<A2UIDataModel>({});
+  const [recorder] = useState(() => (devtools ? new A2UIDevtoolsRecorder() : null));
+  const [viewedFrameId, setViewedFrameId] = useState<number | null>(null);
+  const viewedFrame = viewedFrameId !== null ? recorder?.getFrame(viewedFrameId) : undefined;
+  // Read by callbacks that must ignore the UI while a past frame is shown
+  const viewingRef = useRef(false);
+  viewingRef.current = viewedFrame !== undefined;
 
   const parserRef = useRef<A2UIStreamParser | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
   const connectIdRef = useRef(0);
 
   const mergedConfig = useMemo(() => ({ ...DefaultA2UIConfig, ...config }), [config]);
+  // Sent with every request so the model knows each component's props
+  const components = useMemo(() => describeComponents(registeredComponents), [registeredComponents]);
 
   const initializeParser = useCallback(() => {
     if (!parserRef.current) {
@@ -44,15 +107,21 @@ export function A2UIProvider({ children, config, endpoint = "/api/a2ui", request
         config: mergedConfig,
         onError: (err) => onError?.(err),
         onWarning: (warn) => onWarning?.(warn),
+        onReject: (rejection) => onReject?.(rejection),
+        onLine: recorder
+          ? (record) => recorder.recordLine(record, parserRef.current!.getState())
+          : undefined,
       });
     }
     return parserRef.current;
-  }, [mergedConfig, onError, onWarning]);
+  }, [mergedConfig, onError, onWarning, onReject, recorder]);
 
   const processMessages = useCallback((_messages: A2UIStreamMessage[]) => {
     const roots = parserRef.current?.getRootComponents() || [];
     setRootComponents(roots);
     setVersion(parserRef.current?.getVersion() || 0);
+    setStats(parserRef.current?.getStats() ?? emptyStats);
+    setDataModel(parserRef.current?.getDataModel() ?? {});
   }, []);
 
   const disconnect = useCallback(() => {
@@ -66,8 +135,11 @@ export function A2UIProvider({ children, config, endpoint = "/api/a2ui", request
     disconnect();
     const parser = initializeParser();
     parser.reset();
+    setViewedFrameId(null);
     setRootComponents([]);
     setVersion(0);
+    setStats(emptyStats);
+    setDataModel({});
 
     const connectId = ++connectIdRef.current;
     const abortController = new AbortController();
@@ -86,11 +158,7 @@ export function A2UIProvider({ children, config, endpoint = "/api/a2ui", request
           body: JSON.stringify({
             ...(extraBody || {}),
             message,
-            components: Array.from(registeredComponents.entries()).map(([name, entry]) => ({
-              name,
-              description: entry.description,
-              category: entry.category,
-            })),
+            components,
           }),
           signal: abortController.signal,
         });
@@ -143,11 +211,15 @@ export function A2UIProvider({ children, config, endpoint = "/api/a2ui", request
         }
       }
     })();
-  }, [disconnect, endpoint, initializeParser, onError, processMessages, registeredComponents, requestBody]);
+  }, [disconnect, endpoint, initializeParser, onError, processMessages, components, requestBody]);
 
   const sendAction = useCallback((action: A2UIAction, options?: { stream?: boolean }) => {
+    if (viewingRef.current) return;
     const extraBody = typeof requestBody === "function" ? requestBody() : requestBody;
     const shouldStream = options?.stream ?? true;
+    const parser = initializeParser();
+    parser.recordAction(action);
+    recorder?.recordAction(action, true, parser.getState());
 
     if (!shouldStream) {
       // Fire-and-forget mode (original behavior)
@@ -165,8 +237,8 @@ export function A2UIProvider({ children, config, endpoint = "/api/a2ui", request
       return;
     }
 
-    // Streaming mode - server responds with UI updates
-    const parser = initializeParser();
+    // Streaming mode - server responds with UI updates, so send the current tree for it to target
+    const snapshot = parser.getSnapshot();
     const actionAbort = new AbortController();
 
     (async () => {
@@ -178,11 +250,8 @@ export function A2UIProvider({ children, config, endpoint = "/api/a2ui", request
           body: JSON.stringify({
             ...(extraBody || {}),
             action,
-            components: Array.from(registeredComponents.entries()).map(([name, entry]) => ({
-              name,
-              description: entry.description,
-              category: entry.category,
-            })),
+            components,
+            snapshot,
           }),
           signal: actionAbort.signal,
         });
@@ -218,7 +287,9 @@ export function A2UIProvider({ children, config, endpoint = "/api/a2ui", request
               const roots = parser.getRootComponents();
               setRootComponents(roots);
               setVersion(parser.getVersion());
+              setDataModel(parser.getDataModel());
             }
+            setStats(parser.getStats());
           }
         }
       } catch (error) {
@@ -228,12 +299,71 @@ export function A2UIProvider({ children, config, endpoint = "/api/a2ui", request
         }
       }
     })();
-  }, [endpoint, initializeParser, onError, registeredComponents, requestBody]);
+  }, [endpoint, initializeParser, onError, components, requestBody, recorder]);
+
+  const getComponent = useCallback(
+    (id: string) => (viewedFrame ? viewedFrame.components[id] : parserRef.current?.getComponent(id)),
+    [viewedFrame]
+  );
+  const getChildren = useCallback(
+    (id: string) => (viewedFrame ? getFrameChildren(viewedFrame, id) : parserRef.current?.getChildren(id)),
+    [viewedFrame]
+  );
+  const frameRoots = useMemo(() => (viewedFrame ? getFrameRoots(viewedFrame) : undefined), [viewedFrame]);
+
+  const viewFrame = useCallback((frameId: number | null) => {
+    setViewedFrameId(frameId !== null && recorder?.getFrame(frameId) ? frameId : null);
+  }, [recorder]);
+
+  const recordAction = useCallback((action: A2UIAction) => {
+    if (viewingRef.current) return;
+    const parser = initializeParser();
+    parser.recordAction(action);
+    recorder?.recordAction(action, false, parser.getState());
+  }, [initializeParser, recorder]);
+
+  const reportInvalidProps = useCallback((componentId: string, type: string, errors: string[]) => {
+    // Recorded frames were reported when they were live
+    if (viewingRef.current) return;
+    const parser = initializeParser();
+    parser.reportInvalidProps(componentId, type, errors);
+    setStats(parser.getStats());
+  }, [initializeParser]);
+
+  const runClientHandlers = useCallback((action: A2UIAction) => {
+    // Swallow actions while a past frame is shown, so they reach neither the handlers nor the server
+    if (viewingRef.current) return true;
+    const parser = initializeParser();
+    const { handled, send } = parser.runClientHandlers(action);
+    if (handled && !send) {
+      recorder?.recordAction(action, false, parser.getState());
+    }
+    if (handled) {
+      setRootComponents(parser.getRootComponents());
+      setVersion(parser.getVersion());
+      setDataModel(parser.getDataModel());
+      setStats(parser.getStats());
+    }
+    return handled && !send;
+  }, [initializeParser, recorder]);
+
+  const setData = useCallback((path: string, value: unknown) => {
+    if (viewingRef.current) return;
+    const parser = initializeParser();
+    if (parser.setData(path, value)) {
+      setDataModel(parser.getDataModel());
+      setVersion(parser.getVersion());
+    }
+    setStats(parser.getStats());
+  }, [initializeParser]);
 
   const reset = useCallback(() => {
     parserRef.current?.reset();
+    setViewedFrameId(null);
     setRootComponents([]);
     setVersion(0);
+    setStats(emptyStats);
+    setDataModel({});
   }, []);
 
   useEffect(() => {
@@ -243,15 +373,48 @@ export function A2UIProvider({ children, config, endpoint = "/api/a2ui", request
   }, [disconnect]);
 
   const value = useMemo(() => ({
+    isConnected,
+    isStreaming,
+    rootComponents: frameRoots ?? rootComponents,
+    getComponent,
+    getChildren,
+    connect,
+    disconnect,
+    sendAction,
+    recordAction,
+    runClientHandlers,
+    reportInvalidProps,
+    reset,
+    version,
+    stats,
+    dataModel: viewedFrame?.data ?? dataModel,
+    setData,
+    devtools: recorder,
+    viewedFrameId: viewedFrame ? viewedFrameId : null,
+    viewFrame,
+  }), [
     isConnected,
     isStreaming,
     rootComponents,
+    frameRoots,
+    getComponent,
+    getChildren,
     connect,
     disconnect,
     sendAction,
+    recordAction,
+    runClientHandlers,
+    reportInvalidProps,
     reset,
     version,
-  }), [isConnected, isStreaming, rootComponents, connect, disconnect, sendAction, reset, version]);
+    stats,
+    dataModel,
+    setData,
+    recorder,
+    viewedFrame,
+    viewedFrameId,
+    viewFrame,
+  ]);
 
   return (
     <A2UIContext.Provider value={value}>
@@ -268,23 +431,19 @@ export function useA2UI(): A2UIContextValue {
   return context;
 }
 
+/**
+ * Like useA2UI, but returns null outside an A2UIProvider, for components that can also render on their own.
+ */
+export function useOptionalA2UI(): A2UIContextValue | null {
+  return useContext(A2UIContext);
+}
+
 // Hook for streaming props from A2UI to a specific component
 export function useA2UIStream<T = Record<string, unknown>>(componentId: string) {
-  const { rootComponents, sendAction, version } = useA2UI();
-
-  const component = useMemo(() => {
-    const findComponent = (components: A2UIComponent[]): A2UIComponent | null => {
-      for (const c of components) {
-        if (c.id === componentId) return c;
-        if (c.children) {
-          const found = findComponent(c.children);
-          if (found) return found;
-        }
-      }
-      return null;
-    };
-    return findComponent(rootComponents);
-  }, [rootComponents, componentId]);
+  const { getComponent, sendAction, version } = useA2UI();
+
+  // The parser replaces a component when it changes; the version says when to look it up again
+  const component = useMemo(() => getComponent(componentId) ?? null, [getComponent, componentId, version]);
 
   const props = component?.props as T | undefined;
 
@@ -0,0 +1,165 @@
+import type { A2UIComponent } from "./protocol";
+
+// A2UI Data Model - JSON shared by a surface's components, addressed with JSON Pointers (RFC 6901)
+
+export type A2UIDataModel = Record<string, unknown>;
+
+// A prop value that reads from the data model, e.g. { "$bind": "/cart/total" }
+export interface A2UIBinding {
+    $bind: string;
+}
+
+// Segments that could reach Object.prototype when written to
+const UNSAFE_SEGMENTS = new Set(["__proto__", "prototype", "constructor"]);
+
+// Deep enough for any realistic props, shallow enough to stop on cyclic values
+const MAX_RESOLVE_DEPTH = 10;
+
+export function isBinding(value: unknown): value is A2UIBinding {
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        !Array.isArray(value) &&
+        typeof (value as { $bind?: unknown }).$bind === "string"
+    );
+}
+
+/**
+ * Split a JSON Pointer into its unescaped segments. "" is the whole model; anything else must start with "/".
+ * Returns undefined for malformed pointers and for segments that could pollute prototypes.
+ */
+export function parsePointer(path: string): string[] | undefined {
+    if (path === "") return [];
+    if (!path.startsWith("/")) return undefined;
+
+    const segments = path
+        .slice(1)
+        .split("/")
+        .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"));
+    return segments.some((segment) => UNSAFE_SEGMENTS.has(segment)) ? undefined : segments;
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+    return typeof value === "object" && value !== null;
+}
+
+/**
+ * Read the value at a path, or undefined when the path is malformed or leads nowhere.
+ */
+export function getDataValue(model: unknown, path: string): unknown {
+    const segments = parsePointer(path);
+    if (!segments) return undefined;
+
+    let current = model;
+    for (const segment of segments) {
+        if (!isContainer(current) || !Object.prototype.hasOwnProperty.call(current, segment)) {
+            return undefined;
+        }
+        current = (current as Record<string, unknown>)[segment];
+    }
+    return current;
+}
+
+// Returned by a write to delete the entry it was called for
+const REMOVE = Symbol("remove");
+
+/**
+ * Return a copy of `container` with the value at `segments` replaced by what `write` makes of it, creating objects
+ * along the way. Returns undefined when the path cannot be written, e.g. through a string or past the end of an
+ * array, or when `write` refuses the current value.
+ */
+function writePath(container: unknown, segments: string[], write: (current: unknown) => unknown): unknown {
+    if (segments.length === 0) {
+        return write(container);
+    }
+
+    const [segment, ...rest] = segments;
+    const target = container === undefined ? {} : container;
+
+    if (Array.isArray(target)) {
+        // "-" is the position after the last item, as in JSON Patch
+        const index = segment === "-" ? target.length : /^(0|[1-9]\d*)$/.test(segment) ? Number(segment) : -1;
+        if (index < 0 || index > target.length) return undefined;
+        const child = writePath(target[index], rest, write);
+        if (child === undefined) return undefined;
+        const next = [...target];
+        if (child === REMOVE) {
+            next.splice(index, 1);
+        } else {
+            next[index] = child;
+        }
+        return next;
+    }
+
+    if (!isContainer(target)) {
+        return undefined;
+    }
+
+    const object = target as Record<string, unknown>;
+    const current = Object.prototype.hasOwnProperty.call(object, segment) ? object[segment] : undefined;
+    const child = writePath(current, rest, write);
+    if (child === undefined) return undefined;
+    const next = { ...object };
+    if (child === REMOVE) {
+        delete next[segment];
+    } else {
+        next[segment] = child;
+    }
+    return next;
+}
+
+/**
+ * Set the value at a path without modifying the model. Replacing the whole model ("") needs an object.
+ */
+export function setDataValue(model: A2UIDataModel, path: string, value: unknown): A2UIDataModel | undefined {
+    const segments = parsePointer(path);
+    if (!segments || value === undefined) return undefined;
+    const next = writePath(model, segments, () => value);
+    return isContainer(next) && !Array.isArray(next) ? (next as A2UIDataModel) : undefined;
+}
+
+/**
+ * Shallow-merge an object into the object at a path, creating it when missing.
+ */
+export function mergeDataValue(model: A2UIDataModel, path: string, value: unknown): A2UIDataModel | undefined {
+    const segments = parsePointer(path);
+    if (!segments || !isContainer(value) || Array.isArray(value)) return undefined;
+    const next = writePath(model, segments, (current) => {
+        if (current === undefined) return value;
+        return isContainer(current) && !Array.isArray(current) ? { ...current, ...value } : undefined;
+    });
+    return isContainer(next) && !Array.isArray(next) ? (next as A2UIDataModel) : undefined;
+}
+
+/**
+ * Remove the value at a path. Removing the whole model ("") leaves an empty one.
+ */
+export function removeDataValue(model: A2UIDataModel, path: string): A2UIDataModel | undefined {
+    const segments = parsePointer(path);
+    if (!segments) return undefined;
+    if (segments.length === 0) return {};
+    if (getDataValue(model, path) === undefined) return model;
+    const next = writePath(model, segments, () => REMOVE);
+    return isContainer(next) && !Array.isArray(next) ? (next as A2UIDataModel) : undefined;
+}
+
+/**
+ * Replace every binding in a props object, including ones nested in objects and arrays, with the value it points to.
+ */
+export function resolveBindings(props: Record<string, unknown>, model: A2UIDataModel): Record<string, unknown> {
+    const resolve = (value: unknown, depth: number): unknown => {
+        if (isBinding(value)) return getDataValue(model, value.$bind);
+        if (!isContainer(value) || depth >= MAX_RESOLVE_DEPTH) return value;
+        if (Array.isArray(value)) return value.map((item) => resolve(item, depth + 1));
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolve(item, depth + 1)]));
+    };
+    return resolve(props, 0) as Record<string, unknown>;
+}
+
+/**
+ * Whether a component is hidden, either by its `hidden` flag or by the data model value that flag is bound to.
+ */
+export function isComponentHidden(component: A2UIComponent, model: A2UIDataModel): boolean {
+    const { hidden } = component;
+    return Boolean(isBinding(hidden) ? getDataValue(model, hidden.$bind) : hidden);
+}
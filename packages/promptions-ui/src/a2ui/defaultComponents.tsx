@@ -1,11 +1,35 @@
 import React from "react";
 import { z } from "zod";
+import { tokens } from "@fluentui/react-components";
 import dompurify from "dompurify";
+import Markdown from "react-markdown";
 import { registerComponent, registry } from "../registry/componentRegistry";
 import type { A2UIAction } from "./protocol";
+import { A2UIFormContext, validateField } from "./formContext";
+import type { A2UIFormField, A2UIFieldRules } from "./formContext";
+import { getDataValue } from "./dataModel";
+import { A2UIRenderer } from "./renderer";
 
 type ActionHandler = (eventType: A2UIAction["type"], payload?: Record<string, unknown>) => void;
 
+// Rules a field declares for the Form around it; the renderer reads them, so the field components ignore them
+type FieldRuleProps = {
+  name?: string;
+  required?: boolean;
+};
+
+const fieldRuleShape = {
+  name: z.string().optional().describe("Key of the value in the form's submit payload; defaults to the component id"),
+  required: z.boolean().optional(),
+};
+
+// Form fields keep what the user entered, but follow their prop when an update or a bound data model changes it
+function useFieldValue<T>(value: T): [T, (next: T) => void] {
+  const [current, setCurrent] = React.useState(value);
+  React.useEffect(() => setCurrent(value), [value]);
+  return [current, setCurrent];
+}
+
 type TextProps = {
   text: string;
 };
@@ -55,8 +79,8 @@ const ButtonSchema = z.object({
 });
 
 function A2UIButton({ label, eventType = "click", payload, disabled, variant = "primary", onAction }: ButtonProps) {
-  const background = variant === "primary" ? "#2563eb" : "#e5e7eb";
-  const color = variant === "primary" ? "#ffffff" : "#111827";
+  const background = variant === "primary" ? tokens.colorBrandBackground : tokens.colorNeutralBackground3;
+  const color = variant === "primary" ? tokens.colorNeutralForegroundOnBrand : tokens.colorNeutralForeground1;
   const sanitizedLabel = dompurify.sanitize(label);
   return (
     <button
@@ -66,7 +90,7 @@ function A2UIButton({ label, eventType = "click", payload, disabled, variant = "
       style={{
         padding: "8px 12px",
         borderRadius: "8px",
-        border: "1px solid #d1d5db",
+        border: `1px solid ${tokens.colorNeutralStroke1}`,
         background,
         color,
         cursor: disabled ? "not-allowed" : "pointer",
@@ -76,11 +100,13 @@ function A2UIButton({ label, eventType = "click", payload, disabled, variant = "
   );
 }
 
-type TextInputProps = {
+type TextInputProps = FieldRuleProps & {
   label?: string;
   placeholder?: string;
   value?: string;
   multiline?: boolean;
+  pattern?: string;
+  patternMessage?: string;
   onAction?: ActionHandler;
 };
 
@@ -89,38 +115,53 @@ const TextInputSchema = z.object({
   placeholder: z.string().optional(),
   value: z.string().optional(),
   multiline: z.boolean().optional(),
+  ...fieldRuleShape,
+  pattern: z.string().optional().describe("Regular expression the whole value must match before the form submits"),
+  patternMessage: z.string().optional(),
 });
 
 function A2UITextInput({ label, placeholder, value, multiline, onAction }: TextInputProps) {
   const sanitizedLabel = label ? dompurify.sanitize(label) : undefined;
+  const [current, setCurrent] = useFieldValue(value ?? "");
+  const handleChange = (next: string) => {
+    setCurrent(next);
+    onAction?.("input", { value: next });
+  };
 
   return (
     <label style={{ display: "flex", flexDirection: "column", gap: 6 }}>
       {sanitizedLabel ? (
-        <span style={{ fontSize: 12, color: "#374151" }} dangerouslySetInnerHTML={{ __html: sanitizedLabel }} />
+        <span
+          style={{ fontSize: 12, color: tokens.colorNeutralForeground2 }}
+          dangerouslySetInnerHTML={{ __html: sanitizedLabel }}
+        />
       ) : null}
       {multiline ? (
         <textarea
-          defaultValue={value}
+          value={current}
           placeholder={placeholder}
-          onChange={(e) => onAction?.("input", { value: e.target.value })}
+          onChange={(e) => handleChange(e.target.value)}
           style={{
             padding: "8px 10px",
             borderRadius: 8,
-            border: "1px solid #d1d5db",
+            border: `1px solid ${tokens.colorNeutralStroke1}`,
+            backgroundColor: tokens.colorNeutralBackground1,
+            color: tokens.colorNeutralForeground1,
             minHeight: 80,
             resize: "vertical",
           }}
         />
       ) : (
         <input
-          defaultValue={value}
+          value={current}
           placeholder={placeholder}
-          onChange={(e) => onAction?.("input", { value: e.target.value })}
+          onChange={(e) => handleChange(e.target.value)}
           style={{
             padding: "8px 10px",
             borderRadius: 8,
-            border: "1px solid #d1d5db",
+            border: `1px solid ${tokens.colorNeutralStroke1}`,
+            backgroundColor: tokens.colorNeutralBackground1,
+            color: tokens.colorNeutralForeground1,
           }}
         />
       )}
@@ -163,8 +204,14 @@ function A2UIKeyValueList({ items }: KeyValueListProps) {
     <dl style={{ margin: 0 }}>
       {items.map((item) => (
         <div key={item.key} style={{ display: "grid", gridTemplateColumns: "120px 1fr", gap: 12, padding: "6px 0" }}>
-          <dt style={{ fontWeight: 600, color: "#111827" }} dangerouslySetInnerHTML={{ __html: dompurify.sanitize(item.key) }} />
-          <dd style={{ margin: 0, color: "#374151" }} dangerouslySetInnerHTML={{ __html: dompurify.sanitize(item.value) }} />
+          <dt
+            style={{ fontWeight: 600, color: tokens.colorNeutralForeground1 }}
+            dangerouslySetInnerHTML={{ __html: dompurify.sanitize(item.key) }}
+          />
+          <dd
+            style={{ margin: 0, color: tokens.colorNeutralForeground2 }}
+            dangerouslySetInnerHTML={{ __html: dompurify.sanitize(item.value) }}
+          />
         </div>
       ))}
     </dl>
@@ -188,17 +235,27 @@ function A2UICard({ title, subtitle, variant = "outlined" }: CardProps) {
   const baseStyles: React.CSSProperties = {
     padding: "16px",
     borderRadius: "12px",
-    backgroundColor: "#ffffff",
+    backgroundColor: tokens.colorNeutralBackground1,
   };
   const variantStyles: Record<string, React.CSSProperties> = {
-    outlined: { border: "1px solid #e5e7eb" },
-    elevated: { boxShadow: "0 4px 6px -1px rgba(0,0,0,0.1), 0 2px 4px -1px rgba(0,0,0,0.06)" },
-    filled: { backgroundColor: "#f3f4f6" },
+    outlined: { border: `1px solid ${tokens.colorNeutralStroke2}` },
+    elevated: { boxShadow: tokens.shadow4 },
+    filled: { backgroundColor: tokens.colorNeutralBackground3 },
   };
   return (
     <div style={{ ...baseStyles, ...variantStyles[variant] }}>
-      {title && <div style={{ fontWeight: 600, fontSize: 16, color: "#111827" }} dangerouslySetInnerHTML={{ __html: dompurify.sanitize(title) }} />}
-      {subtitle && <div style={{ fontSize: 14, color: "#6b7280", marginTop: 4 }} dangerouslySetInnerHTML={{ __html: dompurify.sanitize(subtitle) }} />}
+      {title && (
+        <div
+          style={{ fontWeight: 600, fontSize: 16, color: tokens.colorNeutralForeground1 }}
+          dangerouslySetInnerHTML={{ __html: dompurify.sanitize(title) }}
+        />
+      )}
+      {subtitle && (
+        <div
+          style={{ fontSize: 14, color: tokens.colorNeutralForeground3, marginTop: 4 }}
+          dangerouslySetInnerHTML={{ __html: dompurify.sanitize(subtitle) }}
+        />
+      )}
     </div>
   );
 }
@@ -219,10 +276,22 @@ const AlertSchema = z.object({
 
 function A2UIAlert({ message, severity = "info", dismissible, onAction }: AlertProps) {
   const colorMap: Record<string, { bg: string; border: string; text: string }> = {
-    info: { bg: "#eff6ff", border: "#3b82f6", text: "#1e40af" },
-    success: { bg: "#f0fdf4", border: "#22c55e", text: "#166534" },
-    warning: { bg: "#fffbeb", border: "#f59e0b", text: "#92400e" },
-    error: { bg: "#fef2f2", border: "#ef4444", text: "#991b1b" },
+    info: { bg: tokens.colorBrandBackground2, border: tokens.colorBrandStroke1, text: tokens.colorBrandForeground1 },
+    success: {
+      bg: tokens.colorStatusSuccessBackground1,
+      border: tokens.colorStatusSuccessBorder1,
+      text: tokens.colorStatusSuccessForeground1,
+    },
+    warning: {
+      bg: tokens.colorStatusWarningBackground1,
+      border: tokens.colorStatusWarningBorder1,
+      text: tokens.colorStatusWarningForeground1,
+    },
+    error: {
+      bg: tokens.colorStatusDangerBackground1,
+      border: tokens.colorStatusDangerBorder1,
+      text: tokens.colorStatusDangerForeground1,
+    },
   };
   const colors = colorMap[severity];
   const sanitizedMessage = dompurify.sanitize(message);
@@ -268,12 +337,12 @@ const BadgeSchema = z.object({
 
 function A2UIBadge({ text, color = "gray", size = "md" }: BadgeProps) {
   const colorMap: Record<string, { bg: string; text: string }> = {
-    gray: { bg: "#f3f4f6", text: "#374151" },
-    red: { bg: "#fef2f2", text: "#dc2626" },
-    yellow: { bg: "#fffbeb", text: "#d97706" },
-    green: { bg: "#f0fdf4", text: "#16a34a" },
-    blue: { bg: "#eff6ff", text: "#2563eb" },
-    purple: { bg: "#faf5ff", text: "#9333ea" },
+    gray: { bg: tokens.colorNeutralBackground3, text: tokens.colorNeutralForeground2 },
+    red: { bg: tokens.colorPaletteRedBackground2, text: tokens.colorPaletteRedForeground2 },
+    yellow: { bg: tokens.colorPaletteYellowBackground2, text: tokens.colorPaletteYellowForeground2 },
+    green: { bg: tokens.colorPaletteGreenBackground2, text: tokens.colorPaletteGreenForeground2 },
+    blue: { bg: tokens.colorPaletteBlueBackground2, text: tokens.colorPaletteBlueForeground2 },
+    purple: { bg: tokens.colorPalettePurpleBackground2, text: tokens.colorPalettePurpleForeground2 },
   };
   const sizeMap: Record<string, { padding: string; fontSize: number }> = {
     sm: { padding: "2px 6px", fontSize: 10 },
@@ -316,9 +385,17 @@ function A2UITable({ columns, rows, striped }: TableProps) {
   return (
     <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
       <thead>
-        <tr style={{ borderBottom: "2px solid #e5e7eb" }}>
+        <tr style={{ borderBottom: `2px solid ${tokens.colorNeutralStroke2}` }}>
           {columns.map((col) => (
-            <th key={col.key} style={{ textAlign: "left", padding: "10px 12px", fontWeight: 600, color: "#111827" }}>
+            <th
+              key={col.key}
+              style={{
+                textAlign: "left",
+                padding: "10px 12px",
+                fontWeight: 600,
+                color: tokens.colorNeutralForeground1,
+              }}
+            >
               {col.label}
             </th>
           ))}
@@ -329,12 +406,12 @@ function A2UITable({ columns, rows, striped }: TableProps) {
           <tr
             key={idx}
             style={{
-              borderBottom: "1px solid #e5e7eb",
-              backgroundColor: striped && idx % 2 === 1 ? "#f9fafb" : undefined,
+              borderBottom: `1px solid ${tokens.colorNeutralStroke2}`,
+              backgroundColor: striped && idx % 2 === 1 ? tokens.colorNeutralBackground2 : undefined,
             }}
           >
             {columns.map((col) => (
-              <td key={col.key} style={{ padding: "10px 12px", color: "#374151" }}>
+              <td key={col.key} style={{ padding: "10px 12px", color: tokens.colorNeutralForeground2 }}>
                 {row[col.key] ?? ""}
               </td>
             ))}
@@ -346,7 +423,7 @@ function A2UITable({ columns, rows, striped }: TableProps) {
 }
 
 // Checkbox component
-type CheckboxProps = {
+type CheckboxProps = FieldRuleProps & {
   label: string;
   checked?: boolean;
   disabled?: boolean;
@@ -357,9 +434,12 @@ const CheckboxSchema = z.object({
   label: z.string(),
   checked: z.boolean().optional(),
   disabled: z.boolean().optional(),
+  ...fieldRuleShape,
 });
 
 function A2UICheckbox({ label, checked, disabled, onAction }: CheckboxProps) {
+  const [current, setCurrent] = useFieldValue(checked ?? false);
+
   return (
     <label
       style={{
@@ -372,18 +452,21 @@ function A2UICheckbox({ label, checked, disabled, onAction }: CheckboxProps) {
     >
       <input
         type="checkbox"
-        defaultChecked={checked}
+        checked={current}
         disabled={disabled}
-        onChange={(e) => onAction?.("select", { checked: e.target.checked })}
-        style={{ width: 18, height: 18, accentColor: "#2563eb" }}
+        onChange={(e) => {
+          setCurrent(e.target.checked);
+          onAction?.("select", { checked: e.target.checked });
+        }}
+        style={{ width: 18, height: 18, accentColor: tokens.colorCompoundBrandBackground }}
       />
-      <span style={{ fontSize: 14, color: "#374151" }}>{label}</span>
+      <span style={{ fontSize: 14, color: tokens.colorNeutralForeground2 }}>{label}</span>
     </label>
   );
 }
 
 // Select component
-type SelectProps = {
+type SelectProps = FieldRuleProps & {
   label?: string;
   options: Array<{ value: string; label: string }>;
   value?: string;
@@ -398,21 +481,28 @@ const SelectSchema = z.object({
   value: z.string().optional(),
   placeholder: z.string().optional(),
   disabled: z.boolean().optional(),
+  ...fieldRuleShape,
 });
 
 function A2UISelect({ label, options, value, placeholder, disabled, onAction }: SelectProps) {
+  const [current, setCurrent] = useFieldValue(value ?? "");
+
   return (
     <label style={{ display: "flex", flexDirection: "column", gap: 6 }}>
-      {label && <span style={{ fontSize: 12, color: "#374151" }}>{label}</span>}
+      {label && <span style={{ fontSize: 12, color: tokens.colorNeutralForeground2 }}>{label}</span>}
       <select
-        defaultValue={value}
+        value={current}
         disabled={disabled}
-        onChange={(e) => onAction?.("select", { value: e.target.value })}
+        onChange={(e) => {
+          setCurrent(e.target.value);
+          onAction?.("select", { value: e.target.value });
+        }}
         style={{
           padding: "8px 12px",
           borderRadius: 8,
-          border: "1px solid #d1d5db",
-          backgroundColor: "#ffffff",
+          border: `1px solid ${tokens.colorNeutralStroke1}`,
+          backgroundColor: tokens.colorNeutralBackground1,
+          color: tokens.colorNeutralForeground1,
           fontSize: 14,
           cursor: disabled ? "not-allowed" : "pointer",
         }}
@@ -432,6 +522,102 @@ function A2UISelect({ label, options, value, placeholder, disabled, onAction }:
   );
 }
 
+// Form component
+type FormProps = {
+  title?: string;
+  submitLabel?: string;
+  disabled?: boolean;
+  children?: React.ReactNode;
+  onAction?: ActionHandler;
+};
+
+const FormSchema = z.object({
+  title: z.string().optional(),
+  submitLabel: z.string().optional(),
+  disabled: z.boolean().optional(),
+});
+
+function A2UIForm({ title, submitLabel = "Submit", disabled, children, onAction }: FormProps) {
+  const fieldsRef = React.useRef(new Map<string, A2UIFormField>());
+  const [errors, setErrors] = React.useState<Record<string, string>>({});
+
+  const registerField = React.useCallback((componentId: string, rules: A2UIFieldRules, initialValue: unknown) => {
+    const existing = fieldsRef.current.get(componentId);
+    fieldsRef.current.set(componentId, { ...rules, value: existing ? existing.value : initialValue });
+  }, []);
+
+  const unregisterField = React.useCallback((componentId: string) => {
+    fieldsRef.current.delete(componentId);
+  }, []);
+
+  const setFieldValue = React.useCallback((componentId: string, value: unknown) => {
+    const field = fieldsRef.current.get(componentId);
+    if (field) {
+      fieldsRef.current.set(componentId, { ...field, value });
+    }
+    // Editing a field clears its message until the next submit
+    setErrors((current) => {
+      if (!(componentId in current)) return current;
+      const { [componentId]: _cleared, ...rest } = current;
+      return rest;
+    });
+  }, []);
+
+  const submit = React.useCallback(() => {
+    const nextErrors: Record<string, string> = {};
+    const values: Record<string, unknown> = {};
+    for (const [componentId, field] of fieldsRef.current) {
+      const error = validateField(field);
+      if (error) {
+        nextErrors[componentId] = error;
+      }
+      values[field.name] = field.value;
+    }
+
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length === 0) {
+      onAction?.("submit", { values });
+    }
+  }, [onAction]);
+
+  const context = React.useMemo(
+    () => ({ registerField, unregisterField, setFieldValue, submit, errors }),
+    [registerField, unregisterField, setFieldValue, submit, errors]
+  );
+
+  return (
+    <A2UIFormContext.Provider value={context}>
+      <form
+        noValidate
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (!disabled) submit();
+        }}
+        style={{ display: "flex", flexDirection: "column", gap: 12 }}
+      >
+        {title && <span style={{ fontSize: 16, fontWeight: 600, color: tokens.colorNeutralForeground1 }}>{title}</span>}
+        {children}
+        <div>
+          <button
+            type="submit"
+            disabled={disabled}
+            style={{
+              padding: "8px 12px",
+              borderRadius: "8px",
+              border: `1px solid ${tokens.colorNeutralStroke1}`,
+              background: tokens.colorBrandBackground,
+              color: tokens.colorNeutralForegroundOnBrand,
+              cursor: disabled ? "not-allowed" : "pointer",
+            }}
+          >
+            {submitLabel}
+          </button>
+        </div>
+      </form>
+    </A2UIFormContext.Provider>
+  );
+}
+
 // Progress component
 type ProgressProps = {
   value: number;
@@ -452,20 +638,27 @@ const ProgressSchema = z.object({
 function A2UIProgress({ value, max = 100, label, showValue, color = "blue" }: ProgressProps) {
   const percentage = Math.min(100, Math.max(0, (value / max) * 100));
   const colorMap: Record<string, string> = {
-    blue: "#2563eb",
-    green: "#16a34a",
-    yellow: "#d97706",
-    red: "#dc2626",
+    blue: tokens.colorBrandBackground,
+    green: tokens.colorPaletteGreenBackground3,
+    yellow: tokens.colorPaletteYellowBackground3,
+    red: tokens.colorPaletteRedBackground3,
   };
   return (
     <div style={{ display: "flex", flexDirection: "column", gap: 4 }}>
       {(label || showValue) && (
-        <div style={{ display: "flex", justifyContent: "space-between", fontSize: 12, color: "#374151" }}>
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            fontSize: 12,
+            color: tokens.colorNeutralForeground2,
+          }}
+        >
           {label && <span>{label}</span>}
           {showValue && <span>{Math.round(percentage)}%</span>}
         </div>
       )}
-      <div style={{ height: 8, backgroundColor: "#e5e7eb", borderRadius: 4, overflow: "hidden" }}>
+      <div style={{ height: 8, backgroundColor: tokens.colorNeutralBackground5, borderRadius: 4, overflow: "hidden" }}>
         <div
           style={{
             width: `${percentage}%`,
@@ -479,6 +672,923 @@ function A2UIProgress({ value, max = 100, label, showValue, color = "blue" }: Pr
   );
 }
 
+// Text only screen readers announce
+const visuallyHidden: React.CSSProperties = {
+  position: "absolute",
+  width: 1,
+  height: 1,
+  overflow: "hidden",
+  clip: "rect(0 0 0 0)",
+  whiteSpace: "nowrap",
+};
+
+// Tabs component
+type TabsProps = {
+  tabs: Array<{ id: string; label: string }>;
+  selected?: string;
+  children?: React.ReactNode;
+  onAction?: ActionHandler;
+};
+
+const TabsSchema = z.object({
+  tabs: z.array(z.object({ id: z.string(), label: z.string() })).describe("One tab per child component, in order"),
+  selected: z.string().optional().describe("ID of the selected tab; defaults to the first"),
+});
+
+function A2UITabs({ tabs, selected, children, onAction }: TabsProps) {
+  const baseId = React.useId();
+  const panels = React.Children.toArray(children);
+  const tabRefs = React.useRef<Array<HTMLButtonElement | null>>([]);
+  const [current, setCurrent] = useFieldValue(selected);
+  const selectedIndex = Math.max(0, tabs.findIndex((tab) => tab.id === current));
+
+  const select = (index: number) => {
+    const tab = tabs[index];
+    if (!tab) return;
+    tabRefs.current[index]?.focus();
+    if (index === selectedIndex) return;
+    setCurrent(tab.id);
+    onAction?.("select", { selected: tab.id });
+  };
+
+  // Arrow keys move between tabs and select them, as in the WAI-ARIA tabs pattern
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const targets: Record<string, number> = {
+      ArrowRight: selectedIndex + 1,
+      ArrowLeft: selectedIndex - 1,
+      Home: 0,
+      End: tabs.length - 1,
+    };
+    if (!(e.key in targets) || tabs.length === 0) return;
+    e.preventDefault();
+    select((targets[e.key] + tabs.length) % tabs.length);
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 12 }}>
+      <div
+        role="tablist"
+        onKeyDown={handleKeyDown}
+        style={{ display: "flex", gap: 4, borderBottom: `1px solid ${tokens.colorNeutralStroke2}` }}
+      >
+        {tabs.map((tab, index) => {
+          const isSelected = index === selectedIndex;
+          return (
+            <button
+              key={tab.id}
+              ref={(el) => {
+                tabRefs.current[index] = el;
+              }}
+              type="button"
+              role="tab"
+              id={`${baseId}-tab-${index}`}
+              aria-selected={isSelected}
+              aria-controls={`${baseId}-panel-${index}`}
+              tabIndex={isSelected ? 0 : -1}
+              onClick={() => select(index)}
+              style={{
+                padding: "8px 12px",
+                border: "none",
+                borderBottom: `2px solid ${isSelected ? tokens.colorBrandStroke1 : "transparent"}`,
+                background: "none",
+                color: isSelected ? tokens.colorNeutralForeground1 : tokens.colorNeutralForeground3,
+                fontWeight: isSelected ? 600 : 400,
+                cursor: "pointer",
+              }}
+            >
+              {tab.label}
+            </button>
+          );
+        })}
+      </div>
+      {tabs.map((tab, index) => (
+        <div
+          key={tab.id}
+          role="tabpanel"
+          id={`${baseId}-panel-${index}`}
+          aria-labelledby={`${baseId}-tab-${index}`}
+          hidden={index !== selectedIndex}
+          tabIndex={0}
+        >
+          {panels[index]}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Accordion component
+type AccordionProps = {
+  sections: Array<{ id: string; title: string }>;
+  expanded?: string[];
+  multiple?: boolean;
+  children?: React.ReactNode;
+  onAction?: ActionHandler;
+};
+
+const AccordionSchema = z.object({
+  sections: z.array(z.object({ id: z.string(), title: z.string() })).describe("One section per child, in order"),
+  expanded: z.array(z.string()).optional().describe("IDs of the open sections; all are closed by default"),
+  multiple: z.boolean().optional().describe("Allow several sections to be open at once"),
+});
+
+function A2UIAccordion({ sections, expanded, multiple, children, onAction }: AccordionProps) {
+  const baseId = React.useId();
+  const panels = React.Children.toArray(children);
+  const headerRefs = React.useRef<Array<HTMLButtonElement | null>>([]);
+  // Parsed props are new arrays on every render, so follow the prop by its contents
+  const expandedKey = JSON.stringify(expanded ?? []);
+  const [open, setOpen] = React.useState<string[]>(expanded ?? []);
+  React.useEffect(() => setOpen(JSON.parse(expandedKey) as string[]), [expandedKey]);
+
+  const toggle = (id: string) => {
+    const next = open.includes(id) ? open.filter((openId) => openId !== id) : multiple ? [...open, id] : [id];
+    setOpen(next);
+    onAction?.("select", { expanded: next });
+  };
+
+  // Up and down arrows, Home and End move between section headers; Enter and Space toggle them natively
+  const handleKeyDown = (e: React.KeyboardEvent, index: number) => {
+    const targets: Record<string, number> = {
+      ArrowDown: index + 1,
+      ArrowUp: index - 1,
+      Home: 0,
+      End: sections.length - 1,
+    };
+    if (!(e.key in targets)) return;
+    e.preventDefault();
+    headerRefs.current[(targets[e.key] + sections.length) % sections.length]?.focus();
+  };
+
+  return (
+    <div style={{ border: `1px solid ${tokens.colorNeutralStroke2}`, borderRadius: 8 }}>
+      {sections.map((section, index) => {
+        const isOpen = open.includes(section.id);
+        return (
+          <div
+            key={section.id}
+            style={{ borderTop: index > 0 ? `1px solid ${tokens.colorNeutralStroke2}` : undefined }}
+          >
+            <h3 style={{ margin: 0 }}>
+              <button
+                ref={(el) => {
+                  headerRefs.current[index] = el;
+                }}
+                type="button"
+                id={`${baseId}-header-${index}`}
+                aria-expanded={isOpen}
+                aria-controls={`${baseId}-panel-${index}`}
+                onClick={() => toggle(section.id)}
+                onKeyDown={(e) => handleKeyDown(e, index)}
+                style={{
+                  display: "flex",
+                  justifyContent: "space-between",
+                  width: "100%",
+                  padding: "10px 12px",
+                  border: "none",
+                  background: "none",
+                  color: tokens.colorNeutralForeground1,
+                  fontSize: 14,
+                  fontWeight: 600,
+                  textAlign: "left",
+                  cursor: "pointer",
+                }}
+              >
+                <span>{section.title}</span>
+                <span aria-hidden="true">{isOpen ? "−" : "+"}</span>
+              </button>
+            </h3>
+            <div
+              role="region"
+              id={`${baseId}-panel-${index}`}
+              aria-labelledby={`${baseId}-header-${index}`}
+              hidden={!isOpen}
+              style={{ padding: "0 12px 12px" }}
+            >
+              {panels[index]}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Modal component
+type ModalProps = {
+  title?: string;
+  open?: boolean;
+  dismissible?: boolean;
+  children?: React.ReactNode;
+  onAction?: ActionHandler;
+};
+
+const ModalSchema = z.object({
+  title: z.string().optional(),
+  open: z.boolean().optional().describe("Whether the dialog is shown; defaults to true"),
+  dismissible: z.boolean().optional().describe("Let the user close it with Escape, the close button or the backdrop"),
+});
+
+const FOCUSABLE_SELECTOR = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), ' +
+  'textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+function A2UIModal({ title, open = true, dismissible = true, children, onAction }: ModalProps) {
+  const titleId = React.useId();
+  const dialogRef = React.useRef<HTMLDivElement>(null);
+  const [isOpen, setIsOpen] = useFieldValue(open);
+
+  // Move focus into the dialog while it is open, and back to where it was once it closes
+  React.useEffect(() => {
+    if (!isOpen) return undefined;
+    const previous = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    dialogRef.current?.focus();
+    return () => previous?.focus();
+  }, [isOpen]);
+
+  const close = () => {
+    if (!dismissible) return;
+    setIsOpen(false);
+    onAction?.("select", { open: false });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      e.stopPropagation();
+      close();
+      return;
+    }
+    if (e.key !== "Tab" || !dialogRef.current) return;
+
+    // Keep Tab and Shift+Tab cycling within the dialog
+    const focusable = Array.from(dialogRef.current.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
+    if (focusable.length === 0) {
+      e.preventDefault();
+      return;
+    }
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (e.shiftKey && (document.activeElement === first || document.activeElement === dialogRef.current)) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) close();
+      }}
+      style={{
+        position: "fixed",
+        inset: 0,
+        zIndex: 1000,
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        padding: 16,
+        backgroundColor: tokens.colorBackgroundOverlay,
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={title ? titleId : undefined}
+        tabIndex={-1}
+        onKeyDown={handleKeyDown}
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          gap: 12,
+          width: "min(560px, 100%)",
+          maxHeight: "80vh",
+          overflowY: "auto",
+          padding: 20,
+          borderRadius: 12,
+          backgroundColor: tokens.colorNeutralBackground1,
+          boxShadow: tokens.shadow28,
+          outline: "none",
+        }}
+      >
+        {(title || dismissible) && (
+          <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 12 }}>
+            {title && (
+              <h2 id={titleId} style={{ margin: 0, fontSize: 18, color: tokens.colorNeutralForeground1 }}>
+                {title}
+              </h2>
+            )}
+            {dismissible && (
+              <button
+                type="button"
+                aria-label="Close"
+                onClick={close}
+                style={{
+                  marginLeft: "auto",
+                  background: "none",
+                  border: "none",
+                  cursor: "pointer",
+                  color: tokens.colorNeutralForeground2,
+                  fontSize: 18,
+                }}
+              >
+                ×
+              </button>
+            )}
+          </div>
+        )}
+        {children}
+      </div>
+    </div>
+  );
+}
+
+// List component
+type ListTemplate = {
+  type: string;
+  props?: Record<string, unknown>;
+};
+
+type ListProps = {
+  items: unknown[];
+  template?: ListTemplate;
+  ordered?: boolean;
+  emptyText?: string;
+  onAction?: ActionHandler;
+};
+
+const ListSchema = z.object({
+  items: z.array(z.unknown()).describe("Items to list: plain values, or objects the template reads from"),
+  template: z
+    .object({ type: z.string(), props: z.record(z.string(), z.unknown()).optional() })
+    .optional()
+    .describe('Component rendered per item; a prop of {"$item":"/field"} takes that field of the item, "" the item'),
+  ordered: z.boolean().optional(),
+  emptyText: z.string().optional(),
+});
+
+// Replace every { "$item": "<JSON Pointer>" } in template props with that part of the item
+function fillTemplate(value: unknown, item: unknown, depth = 0): unknown {
+  if (typeof value !== "object" || value === null || depth >= 10) return value;
+  if (Array.isArray(value)) return value.map((entry) => fillTemplate(entry, item, depth + 1));
+  const { $item } = value as { $item?: unknown };
+  if (typeof $item === "string") return getDataValue(item, $item);
+  return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, fillTemplate(entry, item, depth + 1)]));
+}
+
+function A2UIList({ items, template, ordered, emptyText, onAction }: ListProps) {
+  // Template instances get IDs that cannot match a streamed component, so they never pick up its handlers
+  const baseId = React.useId();
+  const Tag = ordered ? "ol" : "ul";
+
+  if (items.length === 0) {
+    return emptyText ? <span style={{ fontSize: 14, color: tokens.colorNeutralForeground3 }}>{emptyText}</span> : null;
+  }
+
+  return (
+    <Tag style={{ margin: 0, paddingLeft: template ? 0 : 20, listStyleType: template ? "none" : undefined }}>
+      {items.map((item, index) => (
+        <li key={index} style={{ padding: "4px 0", color: tokens.colorNeutralForeground1 }}>
+          {template ? (
+            <A2UIRenderer
+              component={{
+                id: `${baseId}-${index}`,
+                type: template.type,
+                props: fillTemplate(template.props ?? {}, item) as Record<string, unknown>,
+              }}
+              // The list reports actions from its items as its own, with the item's index
+              actionCallback={(action) => onAction?.(action.type, { ...action.payload, index })}
+            />
+          ) : typeof item === "object" && item !== null ? (
+            JSON.stringify(item)
+          ) : (
+            String(item)
+          )}
+        </li>
+      ))}
+    </Tag>
+  );
+}
+
+// Grid component
+type GridProps = {
+  columns?: number;
+  minColumnWidth?: number;
+  gap?: number;
+  children?: React.ReactNode;
+};
+
+const GridSchema = z.object({
+  columns: z.number().int().min(1).max(12).optional().describe("Number of equal columns; defaults to 2"),
+  minColumnWidth: z
+    .number()
+    .positive()
+    .optional()
+    .describe("Fit as many columns of at least this many pixels as the width allows, instead of a fixed count"),
+  gap: z.number().nonnegative().optional().describe("Gap between cells in pixels"),
+});
+
+function A2UIGrid({ columns = 2, minColumnWidth, gap = 12, children }: GridProps) {
+  const gridTemplateColumns = minColumnWidth
+    ? `repeat(auto-fill, minmax(min(${minColumnWidth}px, 100%), 1fr))`
+    : `repeat(${columns}, minmax(0, 1fr))`;
+  return <div style={{ display: "grid", gridTemplateColumns, gap }}>{children}</div>;
+}
+
+// Slider component
+type SliderProps = FieldRuleProps & {
+  label?: string;
+  value?: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  showValue?: boolean;
+  disabled?: boolean;
+  onAction?: ActionHandler;
+};
+
+const SliderSchema = z.object({
+  label: z.string().optional(),
+  value: z.number().optional(),
+  min: z.number().optional().describe("Defaults to 0"),
+  max: z.number().optional().describe("Defaults to 100"),
+  step: z.number().positive().optional().describe("Defaults to 1"),
+  showValue: z.boolean().optional(),
+  disabled: z.boolean().optional(),
+  ...fieldRuleShape,
+});
+
+function A2UISlider({ label, value, min = 0, max = 100, step = 1, showValue, disabled, onAction }: SliderProps) {
+  const [current, setCurrent] = useFieldValue(value ?? min);
+
+  return (
+    <label style={{ display: "flex", flexDirection: "column", gap: 6, opacity: disabled ? 0.5 : 1 }}>
+      {(label || showValue) && (
+        <span
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            fontSize: 12,
+            color: tokens.colorNeutralForeground2,
+          }}
+        >
+          {label && <span>{label}</span>}
+          {showValue && <span>{current}</span>}
+        </span>
+      )}
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={current}
+        disabled={disabled}
+        onChange={(e) => {
+          const next = Number(e.target.value);
+          setCurrent(next);
+          onAction?.("input", { value: next });
+        }}
+        style={{ accentColor: tokens.colorCompoundBrandBackground, cursor: disabled ? "not-allowed" : "pointer" }}
+      />
+    </label>
+  );
+}
+
+// DatePicker component
+type DatePickerProps = FieldRuleProps & {
+  label?: string;
+  value?: string;
+  min?: string;
+  max?: string;
+  disabled?: boolean;
+  onAction?: ActionHandler;
+};
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date as YYYY-MM-DD");
+
+const DatePickerSchema = z.object({
+  label: z.string().optional(),
+  value: isoDate.optional().describe("Selected date as YYYY-MM-DD"),
+  min: isoDate.optional().describe("Earliest date that can be picked, as YYYY-MM-DD"),
+  max: isoDate.optional().describe("Latest date that can be picked, as YYYY-MM-DD"),
+  disabled: z.boolean().optional(),
+  ...fieldRuleShape,
+});
+
+function A2UIDatePicker({ label, value, min, max, disabled, onAction }: DatePickerProps) {
+  const [current, setCurrent] = useFieldValue(value ?? "");
+
+  return (
+    <label style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+      {label && <span style={{ fontSize: 12, color: tokens.colorNeutralForeground2 }}>{label}</span>}
+      <input
+        type="date"
+        value={current}
+        min={min}
+        max={max}
+        disabled={disabled}
+        onChange={(e) => {
+          setCurrent(e.target.value);
+          onAction?.("input", { value: e.target.value });
+        }}
+        style={{
+          padding: "8px 10px",
+          borderRadius: 8,
+          border: `1px solid ${tokens.colorNeutralStroke1}`,
+          backgroundColor: tokens.colorNeutralBackground1,
+          color: tokens.colorNeutralForeground1,
+        }}
+      />
+    </label>
+  );
+}
+
+// RadioGroup component
+type RadioGroupProps = FieldRuleProps & {
+  label?: string;
+  options: Array<{ value: string; label: string; description?: string }>;
+  value?: string;
+  direction?: "vertical" | "horizontal";
+  disabled?: boolean;
+  onAction?: ActionHandler;
+};
+
+const RadioGroupSchema = z.object({
+  label: z.string().optional(),
+  options: z.array(z.object({ value: z.string(), label: z.string(), description: z.string().optional() })),
+  value: z.string().optional(),
+  direction: z.enum(["vertical", "horizontal"]).optional(),
+  disabled: z.boolean().optional(),
+  ...fieldRuleShape,
+});
+
+function A2UIRadioGroup({ label, options, value, direction = "vertical", disabled, onAction }: RadioGroupProps) {
+  // Radios sharing a name form one group, which the browser moves through with the arrow keys
+  const name = React.useId();
+  const [current, setCurrent] = useFieldValue(value ?? "");
+
+  return (
+    <fieldset disabled={disabled} style={{ margin: 0, padding: 0, border: "none", opacity: disabled ? 0.5 : 1 }}>
+      {label && (
+        <legend style={{ padding: 0, marginBottom: 6, fontSize: 12, color: tokens.colorNeutralForeground2 }}>
+          {label}
+        </legend>
+      )}
+      <div style={{ display: "flex", flexDirection: direction === "horizontal" ? "row" : "column", gap: 8 }}>
+        {options.map((opt) => (
+          <label
+            key={opt.value}
+            style={{ display: "flex", alignItems: "flex-start", gap: 8, cursor: disabled ? "not-allowed" : "pointer" }}
+          >
+            <input
+              type="radio"
+              name={name}
+              value={opt.value}
+              checked={current === opt.value}
+              onChange={() => {
+                setCurrent(opt.value);
+                onAction?.("select", { value: opt.value });
+              }}
+              style={{ width: 16, height: 16, margin: "2px 0 0", accentColor: tokens.colorCompoundBrandBackground }}
+            />
+            <span style={{ display: "flex", flexDirection: "column" }}>
+              <span style={{ fontSize: 14, color: tokens.colorNeutralForeground1 }}>{opt.label}</span>
+              {opt.description && (
+                <span style={{ fontSize: 12, color: tokens.colorNeutralForeground3 }}>{opt.description}</span>
+              )}
+            </span>
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  );
+}
+
+// Markdown component
+type MarkdownProps = {
+  content: string;
+};
+
+const MarkdownSchema = z.object({
+  content: z.string().describe("Markdown text; raw HTML is shown as text"),
+});
+
+function A2UIMarkdown({ content }: MarkdownProps) {
+  // react-markdown builds React elements without raw HTML and drops unsafe link protocols, so no sanitizing needed
+  return (
+    <div style={{ fontSize: 14, lineHeight: 1.5, color: tokens.colorNeutralForeground1 }}>
+      <Markdown>{content}</Markdown>
+    </div>
+  );
+}
+
+// CodeBlock component
+type CodeBlockProps = {
+  code: string;
+  language?: string;
+  title?: string;
+};
+
+const CodeBlockSchema = z.object({
+  code: z.string(),
+  language: z.string().optional().describe('Language name shown above the code, e.g. "typescript"'),
+  title: z.string().optional().describe("Caption shown instead of the language, e.g. a file name"),
+});
+
+function A2UICodeBlock({ code, language, title }: CodeBlockProps) {
+  const [copied, setCopied] = React.useState(false);
+  const caption = title ?? language;
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard access can be denied; the code can still be selected by hand
+    }
+  };
+
+  return (
+    <figure
+      style={{
+        margin: 0,
+        border: `1px solid ${tokens.colorNeutralStroke2}`,
+        borderRadius: 8,
+        backgroundColor: tokens.colorNeutralBackground3,
+        overflow: "hidden",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          padding: "4px 8px 4px 12px",
+          borderBottom: `1px solid ${tokens.colorNeutralStroke2}`,
+        }}
+      >
+        <figcaption style={{ fontSize: 12, color: tokens.colorNeutralForeground3 }}>{caption}</figcaption>
+        <button
+          type="button"
+          onClick={copy}
+          aria-label={copied ? "Copied" : "Copy code"}
+          style={{
+            padding: "2px 8px",
+            borderRadius: 4,
+            border: `1px solid ${tokens.colorNeutralStroke1}`,
+            background: tokens.colorNeutralBackground1,
+            color: tokens.colorNeutralForeground2,
+            fontSize: 12,
+            cursor: "pointer",
+          }}
+        >
+          {copied ? "Copied" : "Copy"}
+        </button>
+      </div>
+      {/* Focusable so keyboard users can scroll long lines */}
+      <pre
+        tabIndex={0}
+        aria-label={caption ? `${caption} code` : "Code"}
+        style={{ margin: 0, padding: 12, overflowX: "auto", fontSize: 13 }}
+      >
+        <code
+          className={language ? `language-${language}` : undefined}
+          style={{ fontFamily: tokens.fontFamilyMonospace }}
+        >
+          {code}
+        </code>
+      </pre>
+    </figure>
+  );
+}
+
+// Link component
+type LinkProps = {
+  label: string;
+  href: string;
+  newTab?: boolean;
+  onAction?: ActionHandler;
+};
+
+const LinkSchema = z.object({
+  label: z.string(),
+  href: z.string().describe("http, https or mailto URL"),
+  newTab: z.boolean().optional().describe("Open in a new tab; defaults to true"),
+});
+
+// Only navigations that cannot run script in the page
+const SAFE_LINK_PROTOCOLS = new Set(["http:", "https:", "mailto:"]);
+
+function safeHref(href: string): string | undefined {
+  try {
+    const url = new URL(href, window.location.href);
+    return SAFE_LINK_PROTOCOLS.has(url.protocol) ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function A2UILink({ label, href, newTab = true, onAction }: LinkProps) {
+  const url = safeHref(href);
+  if (!url) {
+    return <span style={{ color: tokens.colorNeutralForeground1 }}>{label}</span>;
+  }
+
+  return (
+    <a
+      href={url}
+      target={newTab ? "_blank" : undefined}
+      rel={newTab ? "noopener noreferrer" : undefined}
+      onClick={() => onAction?.("click", { href: url })}
+      style={{ color: tokens.colorBrandForegroundLink }}
+    >
+      {label}
+      {newTab && (
+        <>
+          <span aria-hidden="true"> ↗</span>
+          <span style={visuallyHidden}> (opens in a new tab)</span>
+        </>
+      )}
+    </a>
+  );
+}
+
+// Divider component
+type DividerProps = {
+  label?: string;
+  spacing?: "sm" | "md" | "lg";
+};
+
+const DividerSchema = z.object({
+  label: z.string().optional().describe("Text shown in the middle of the line"),
+  spacing: z.enum(["sm", "md", "lg"]).optional(),
+});
+
+function A2UIDivider({ label, spacing = "md" }: DividerProps) {
+  const margin = `${{ sm: 4, md: 12, lg: 24 }[spacing]}px 0`;
+  const border = `1px solid ${tokens.colorNeutralStroke2}`;
+  const line = <span style={{ flexGrow: 1, borderTop: border }} />;
+
+  if (!label) {
+    return <hr style={{ margin, border: "none", borderTop: border }} />;
+  }
+
+  return (
+    <div role="separator" aria-label={label} style={{ display: "flex", alignItems: "center", gap: 8, margin }}>
+      {line}
+      <span aria-hidden="true" style={{ fontSize: 12, color: tokens.colorNeutralForeground3 }}>
+        {label}
+      </span>
+      {line}
+    </div>
+  );
+}
+
+// Avatar component
+type AvatarProps = {
+  name: string;
+  src?: string;
+  size?: "sm" | "md" | "lg";
+  showName?: boolean;
+};
+
+const AvatarSchema = z.object({
+  name: z.string().describe("Person or entity shown; its initials are used when there is no image"),
+  src: z.string().optional(),
+  size: z.enum(["sm", "md", "lg"]).optional(),
+  showName: z.boolean().optional().describe("Show the name next to the avatar"),
+});
+
+function A2UIAvatar({ name, src, size = "md", showName }: AvatarProps) {
+  const [failed, setFailed] = React.useState(false);
+  const dimension = { sm: 24, md: 36, lg: 56 }[size];
+  const initials = name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+  const shape: React.CSSProperties = { width: dimension, height: dimension, borderRadius: "50%", flexShrink: 0 };
+
+  return (
+    <span style={{ display: "inline-flex", alignItems: "center", gap: 8 }}>
+      {src && !failed ? (
+        <img
+          src={src}
+          alt={showName ? "" : name}
+          onError={() => setFailed(true)}
+          style={{ ...shape, objectFit: "cover" }}
+        />
+      ) : (
+        <span
+          role={showName ? undefined : "img"}
+          aria-label={showName ? undefined : name}
+          aria-hidden={showName ? true : undefined}
+          style={{
+            ...shape,
+            display: "inline-flex",
+            alignItems: "center",
+            justifyContent: "center",
+            backgroundColor: tokens.colorBrandBackground2,
+            color: tokens.colorBrandForeground2,
+            fontSize: dimension * 0.4,
+            fontWeight: 600,
+          }}
+        >
+          {initials}
+        </span>
+      )}
+      {showName && <span style={{ fontSize: 14, color: tokens.colorNeutralForeground1 }}>{name}</span>}
+    </span>
+  );
+}
+
+// Stepper component
+type StepperProps = {
+  steps: Array<{ id: string; label: string; description?: string }>;
+  current?: string;
+  clickable?: boolean;
+  onAction?: ActionHandler;
+};
+
+const StepperSchema = z.object({
+  steps: z.array(z.object({ id: z.string(), label: z.string(), description: z.string().optional() })),
+  current: z.string().optional().describe("ID of the current step; steps before it show as done"),
+  clickable: z.boolean().optional().describe("Let the user pick a step, which emits a select action"),
+});
+
+function A2UIStepper({ steps, current, clickable, onAction }: StepperProps) {
+  const currentIndex = steps.findIndex((step) => step.id === current);
+
+  return (
+    <ol style={{ display: "flex", gap: 8, margin: 0, padding: 0, listStyleType: "none" }}>
+      {steps.map((step, index) => {
+        const done = index < currentIndex;
+        const active = index === currentIndex;
+        const content = (
+          <>
+            <span
+              aria-hidden="true"
+              style={{
+                display: "inline-flex",
+                alignItems: "center",
+                justifyContent: "center",
+                width: 24,
+                height: 24,
+                borderRadius: "50%",
+                flexShrink: 0,
+                fontSize: 12,
+                backgroundColor: done || active ? tokens.colorBrandBackground : tokens.colorNeutralBackground3,
+                color: done || active ? tokens.colorNeutralForegroundOnBrand : tokens.colorNeutralForeground2,
+              }}
+            >
+              {done ? "✓" : index + 1}
+            </span>
+            <span style={{ display: "flex", flexDirection: "column", textAlign: "left" }}>
+              <span style={{ fontSize: 14, fontWeight: active ? 600 : 400, color: tokens.colorNeutralForeground1 }}>
+                {step.label}
+                {done && <span style={visuallyHidden}> (completed)</span>}
+              </span>
+              {step.description && (
+                <span style={{ fontSize: 12, color: tokens.colorNeutralForeground3 }}>{step.description}</span>
+              )}
+            </span>
+          </>
+        );
+        const itemStyle: React.CSSProperties = { display: "flex", alignItems: "flex-start", gap: 8 };
+
+        return (
+          <li key={step.id} aria-current={active ? "step" : undefined} style={{ flex: 1 }}>
+            {clickable ? (
+              <button
+                type="button"
+                onClick={() => onAction?.("select", { current: step.id })}
+                style={{
+                  ...itemStyle,
+                  width: "100%",
+                  padding: 0,
+                  border: "none",
+                  background: "none",
+                  cursor: "pointer",
+                }}
+              >
+                {content}
+              </button>
+            ) : (
+              <div style={itemStyle}>{content}</div>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
 export function registerDefaultA2UIComponents() {
   if (!registry.has("Text")) {
     registerComponent("Text", A2UIText, TextSchema, {
@@ -504,7 +1614,8 @@ export function registerDefaultA2UIComponents() {
   if (!registry.has("TextInput")) {
     registerComponent("TextInput", A2UITextInput, TextInputSchema, {
       category: "interactable",
-      description: "Text input that emits an A2UI input action",
+      description: "Text input; inside a Form its value is sent with the form's submit action",
+      valueProp: "value",
     });
   }
 
@@ -553,14 +1664,24 @@ export function registerDefaultA2UIComponents() {
   if (!registry.has("Checkbox")) {
     registerComponent("Checkbox", A2UICheckbox, CheckboxSchema, {
       category: "interactable",
-      description: "Checkbox input that emits select action",
+      description: "Checkbox input that emits select action, or inside a Form is sent with its submit action",
+      valueProp: "checked",
     });
   }
 
   if (!registry.has("Select")) {
     registerComponent("Select", A2UISelect, SelectSchema, {
       category: "interactable",
-      description: "Dropdown select input",
+      description: "Dropdown select input; inside a Form its value is sent with the form's submit action",
+      valueProp: "value",
+    });
+  }
+
+  if (!registry.has("Form")) {
+    registerComponent("Form", A2UIForm, FormSchema, {
+      category: "interactable",
+      container: true,
+      description: "Groups fields that keep their values locally and sends them in one submit action as { values }",
     });
   }
 
@@ -570,4 +1691,113 @@ export function registerDefaultA2UIComponents() {
       description: "Progress bar indicator",
     });
   }
+
+  if (!registry.has("Tabs")) {
+    registerComponent("Tabs", A2UITabs, TabsSchema, {
+      category: "interactable",
+      container: true,
+      localEvents: ["select"],
+      description: "Tabbed panels, one tab per child in order; switching tabs stays local, emits select { selected }",
+    });
+  }
+
+  if (!registry.has("Accordion")) {
+    registerComponent("Accordion", A2UIAccordion, AccordionSchema, {
+      category: "interactable",
+      container: true,
+      localEvents: ["select"],
+      description: "Collapsible sections, one per child in order; toggling stays local and emits select { expanded }",
+    });
+  }
+
+  if (!registry.has("Modal")) {
+    registerComponent("Modal", A2UIModal, ModalSchema, {
+      category: "interactable",
+      container: true,
+      localEvents: ["select"],
+      description: "Dialog over the page showing its children; closing it emits select { open: false }",
+    });
+  }
+
+  if (!registry.has("List")) {
+    registerComponent("List", A2UIList, ListSchema, {
+      category: "generative",
+      description: "List of items shown as text or through a component template; item actions carry the item's index",
+    });
+  }
+
+  if (!registry.has("Grid")) {
+    registerComponent("Grid", A2UIGrid, GridSchema, {
+      category: "generative",
+      container: true,
+      description: "Grid layout placing each child in the next cell",
+    });
+  }
+
+  if (!registry.has("Slider")) {
+    registerComponent("Slider", A2UISlider, SliderSchema, {
+      category: "interactable",
+      valueProp: "value",
+      description: "Range slider for a number; emits input { value }, and inside a Form is sent with its submit action",
+    });
+  }
+
+  if (!registry.has("DatePicker")) {
+    registerComponent("DatePicker", A2UIDatePicker, DatePickerSchema, {
+      category: "interactable",
+      valueProp: "value",
+      description: "Date input with YYYY-MM-DD values; emits input { value }, or inside a Form is sent with its submit",
+    });
+  }
+
+  if (!registry.has("RadioGroup")) {
+    registerComponent("RadioGroup", A2UIRadioGroup, RadioGroupSchema, {
+      category: "interactable",
+      valueProp: "value",
+      description: "Group of radio buttons for picking one option; emits select { value }",
+    });
+  }
+
+  if (!registry.has("Markdown")) {
+    registerComponent("Markdown", A2UIMarkdown, MarkdownSchema, {
+      category: "generative",
+      description: "Formatted text written in Markdown: headings, lists, emphasis, links and code",
+    });
+  }
+
+  if (!registry.has("CodeBlock")) {
+    registerComponent("CodeBlock", A2UICodeBlock, CodeBlockSchema, {
+      category: "generative",
+      description: "Block of source code with a caption and a copy button",
+    });
+  }
+
+  if (!registry.has("Link")) {
+    registerComponent("Link", A2UILink, LinkSchema, {
+      category: "interactable",
+      localEvents: ["click"],
+      description: "Hyperlink to a web page or email address",
+    });
+  }
+
+  if (!registry.has("Divider")) {
+    registerComponent("Divider", A2UIDivider, DividerSchema, {
+      category: "generative",
+      description: "Horizontal line separating content, optionally labelled",
+    });
+  }
+
+  if (!registry.has("Avatar")) {
+    registerComponent("Avatar", A2UIAvatar, AvatarSchema, {
+      category: "generative",
+      description: "Picture of a person or entity, falling back to their initials",
+    });
+  }
+
+  if (!registry.has("Stepper")) {
+    registerComponent("Stepper", A2UIStepper, StepperSchema, {
+      category: "interactable",
+      description: "Progress through numbered steps; clickable steps emit select { current }",
+    });
+  }
 }
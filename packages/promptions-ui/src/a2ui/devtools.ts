@@ -0,0 +1,247 @@
+import { A2UIAction, A2UIComponent, A2UILineRecord, validateComponent } from "./protocol";
+import type { A2UIStreamParser } from "./streamParser";
+import type { A2UIDataModel } from "./dataModel";
+
+// A2UI Devtools - A timeline of stream lines and actions, with the tree after each one for time travel
+
+// Oldest entries are dropped beyond this many, along with frames no entry points to
+const MAX_DEVTOOLS_ENTRIES = 1000;
+
+const SESSION_FORMAT = "a2ui-devtools-session";
+const SESSION_FORMAT_VERSION = 1;
+
+/** The tree and data model as they were at one parser version */
+export interface A2UIDevtoolsFrame {
+    /** Unique within the recorder */
+    id: number;
+    version: number;
+    /** Components by ID, without inline children */
+    components: Record<string, A2UIComponent>;
+    childIds: Record<string, string[]>;
+    rootIds: string[];
+    data: A2UIDataModel;
+}
+
+interface EntryBase {
+    /** Unique within the recorder, usable as a React key */
+    id: number;
+    timestamp: number;
+    /** Frame with the state right after the entry */
+    frameId: number;
+}
+
+export type A2UIDevtoolsEntry =
+    | (EntryBase & { kind: "line"; record: A2UILineRecord })
+    | (EntryBase & {
+          kind: "action";
+          action: A2UIAction;
+          /** Whether the action went to the server, rather than staying with the client */
+          sent: boolean;
+      });
+
+export interface A2UIDevtoolsSession {
+    format: typeof SESSION_FORMAT;
+    formatVersion: typeof SESSION_FORMAT_VERSION;
+    entries: A2UIDevtoolsEntry[];
+    frames: A2UIDevtoolsFrame[];
+}
+
+type ParserState = ReturnType<A2UIStreamParser["getState"]>;
+
+/**
+ * Root components of a frame, in render order.
+ */
+export function getFrameRoots(frame: A2UIDevtoolsFrame): A2UIComponent[] {
+    return frame.rootIds.map((id) => frame.components[id]).filter((c): c is A2UIComponent => c !== undefined);
+}
+
+/**
+ * Children of a component in a frame, or undefined when the component is not in it.
+ */
+export function getFrameChildren(frame: A2UIDevtoolsFrame, id: string): A2UIComponent[] | undefined {
+    return frame.childIds[id]
+        ?.map((childId) => frame.components[childId])
+        .filter((c): c is A2UIComponent => c !== undefined);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Records what an A2UI surface received and sent. The parser replaces components instead of changing them, so
+ * frames share unchanged components with each other and with the live tree.
+ */
+export class A2UIDevtoolsRecorder {
+    private entries: A2UIDevtoolsEntry[] = [];
+    private frames = new Map<number, A2UIDevtoolsFrame>();
+    private listeners = new Set<() => void>();
+    private nextId = 1;
+    private revision = 0;
+    // The components map and version of the last frame, to tell whether the state changed since
+    private lastComponents?: Map<string, A2UIComponent>;
+    private lastVersion = -1;
+
+    /**
+     * Record a stream line and the state it left the parser in.
+     */
+    recordLine(record: A2UILineRecord, state: ParserState): void {
+        this.push({ id: this.nextId++, timestamp: Date.now(), frameId: this.capture(state), kind: "line", record });
+    }
+
+    /**
+     * Record a user action and the state it left the parser in, e.g. after client handlers ran.
+     */
+    recordAction(action: A2UIAction, sent: boolean, state: ParserState): void {
+        this.push({
+            id: this.nextId++,
+            timestamp: Date.now(),
+            frameId: this.capture(state),
+            kind: "action",
+            action,
+            sent,
+        });
+    }
+
+    getEntries(): ReadonlyArray<A2UIDevtoolsEntry> {
+        return this.entries;
+    }
+
+    getFrame(id: number): A2UIDevtoolsFrame | undefined {
+        return this.frames.get(id);
+    }
+
+    /**
+     * Frames in the order they were captured.
+     */
+    getFrames(): A2UIDevtoolsFrame[] {
+        return [...this.frames.values()];
+    }
+
+    /**
+     * Everything recorded, as JSON-serializable data for `importSession`.
+     */
+    exportSession(): A2UIDevtoolsSession {
+        return {
+            format: SESSION_FORMAT,
+            formatVersion: SESSION_FORMAT_VERSION,
+            entries: [...this.entries],
+            frames: this.getFrames(),
+        };
+    }
+
+    /**
+     * Replace the recording with an exported session. Throws when the value is not a session this recorder wrote.
+     */
+    importSession(session: unknown): void {
+        if (
+            !isObject(session) ||
+            session.format !== SESSION_FORMAT ||
+            session.formatVersion !== SESSION_FORMAT_VERSION ||
+            !Array.isArray(session.entries) ||
+            !Array.isArray(session.frames)
+        ) {
+            throw new Error("Not an A2UI devtools session");
+        }
+
+        const frames = new Map<number, A2UIDevtoolsFrame>();
+        for (const frame of session.frames) {
+            if (
+                !isObject(frame) ||
+                typeof frame.id !== "number" ||
+                typeof frame.version !== "number" ||
+                !isObject(frame.components) ||
+                !isObject(frame.childIds) ||
+                !Array.isArray(frame.rootIds) ||
+                !isObject(frame.data)
+            ) {
+                throw new Error("A2UI devtools session has a malformed frame");
+            }
+            // Frames are rendered as they are, so a component the renderer cannot handle must not get in
+            for (const component of Object.values(frame.components)) {
+                const { valid, errors } = validateComponent(component);
+                if (!valid) {
+                    throw new Error(
+                        `A2UI devtools session has a malformed component in frame ${frame.id}: ${errors.join("; ")}`,
+                    );
+                }
+            }
+            frames.set(frame.id, frame as unknown as A2UIDevtoolsFrame);
+        }
+
+        const entries = session.entries.filter(
+            (entry): entry is A2UIDevtoolsEntry =>
+                isObject(entry) &&
+                typeof entry.id === "number" &&
+                typeof entry.frameId === "number" &&
+                frames.has(entry.frameId) &&
+                ((entry.kind === "line" && isObject(entry.record)) ||
+                    (entry.kind === "action" && isObject(entry.action))),
+        );
+
+        this.entries = entries;
+        this.frames = frames;
+        this.nextId = Math.max(0, ...entries.map((entry) => entry.id), ...frames.keys()) + 1;
+        this.lastComponents = undefined;
+        this.lastVersion = -1;
+        this.notify();
+    }
+
+    clear(): void {
+        this.entries = [];
+        this.frames = new Map();
+        this.lastComponents = undefined;
+        this.lastVersion = -1;
+        this.notify();
+    }
+
+    subscribe = (listener: () => void): (() => void) => {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    };
+
+    /**
+     * Changes whenever the recording does, for `useSyncExternalStore`.
+     */
+    getSnapshot = (): number => this.revision;
+
+    /**
+     * Return the frame for the parser's current state, capturing a new one only when the state changed.
+     */
+    private capture(state: ParserState): number {
+        const last = [...this.frames.values()].pop();
+        if (last && state.components === this.lastComponents && state.version === this.lastVersion) {
+            return last.id;
+        }
+
+        const frame: A2UIDevtoolsFrame = {
+            id: this.nextId++,
+            version: state.version,
+            components: Object.fromEntries(state.components),
+            childIds: Object.fromEntries(state.childIds),
+            rootIds: [...state.rootIds],
+            data: state.data,
+        };
+        this.frames.set(frame.id, frame);
+        this.lastComponents = state.components;
+        this.lastVersion = state.version;
+        return frame.id;
+    }
+
+    private push(entry: A2UIDevtoolsEntry): void {
+        this.entries = [...this.entries, entry];
+        if (this.entries.length > MAX_DEVTOOLS_ENTRIES) {
+            this.entries = this.entries.slice(-MAX_DEVTOOLS_ENTRIES);
+            const used = new Set(this.entries.map((e) => e.frameId));
+            for (const id of this.frames.keys()) {
+                if (!used.has(id)) this.frames.delete(id);
+            }
+        }
+        this.notify();
+    }
+
+    private notify(): void {
+        this.revision++;
+        this.listeners.forEach((listener) => listener());
+    }
+}
@@ -0,0 +1,113 @@
+import { createContext, useContext } from "react";
+
+// A2UI Forms - Fields inside a Form keep their values locally until the form submits them in one action
+
+// Longest pattern accepted from the stream, so a model cannot make validation arbitrarily expensive
+const MAX_PATTERN_LENGTH = 500;
+
+export interface A2UIFormField {
+    /** Key of the field's value in the submit payload */
+    name: string;
+    value: unknown;
+    label?: string;
+    required?: boolean;
+    /** Regular expression the whole text value must match */
+    pattern?: string;
+    /** Shown when the value does not match `pattern` */
+    patternMessage?: string;
+}
+
+export type A2UIFieldRules = Omit<A2UIFormField, "value">;
+
+interface A2UIFormContextValue {
+    /** Add a field or change its rules, keeping any value it already holds */
+    registerField: (componentId: string, rules: A2UIFieldRules, initialValue: unknown) => void;
+    unregisterField: (componentId: string) => void;
+    setFieldValue: (componentId: string, value: unknown) => void;
+    /** Validate every field and send the submit action when they all pass */
+    submit: () => void;
+    /** Validation messages by component ID, from the last submit */
+    errors: Record<string, string>;
+}
+
+export const A2UIFormContext = createContext<A2UIFormContextValue | null>(null);
+
+/**
+ * The Form a component is rendered in, or null outside of forms.
+ */
+export function useA2UIForm(): A2UIFormContextValue | null {
+    return useContext(A2UIFormContext);
+}
+
+function isEmpty(value: unknown): boolean {
+    return value === undefined || value === null || value === "" || value === false;
+}
+
+/** Whether a character repeats what precedes it; `?` makes it optional but does not repeat it */
+function isRepetition(char: string | undefined): boolean {
+    return char === "*" || char === "+" || char === "{";
+}
+
+/**
+ * Whether a pattern repeats a group that contains a repetition, an optional part or an alternation, e.g. `(a+)+`,
+ * `(a?)*` or `(a|ab)*`. Such groups can match the same text in many ways and take exponential time to reject a
+ * value, so these patterns are ignored like patterns that do not compile.
+ */
+function hasAmbiguousRepetition(pattern: string): boolean {
+    // For each open group, whether a quantifier or `|` has been seen inside it
+    const groups: boolean[] = [];
+    const markInnermost = () => {
+        if (groups.length > 0) groups[groups.length - 1] = true;
+    };
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === "\\") {
+            i++;
+        } else if (char === "[") {
+            // Quantifier characters inside a class are literals
+            while (++i < pattern.length && pattern[i] !== "]") {
+                if (pattern[i] === "\\") i++;
+            }
+        } else if (char === "(") {
+            groups.push(false);
+            // Skip the `?` of `(?:`, `(?=` and named groups
+            if (pattern[i + 1] === "?") i++;
+        } else if (char === ")") {
+            const ambiguous = groups.pop() ?? false;
+            if (ambiguous && isRepetition(pattern[i + 1])) return true;
+            if (ambiguous) markInnermost();
+        } else if (isRepetition(char) || char === "?" || char === "|") {
+            markInnermost();
+        }
+    }
+    return false;
+}
+
+/**
+ * Check a field against its required and pattern rules, returning the message to show or undefined when it passes.
+ */
+export function validateField(field: A2UIFormField): string | undefined {
+    const label = field.label || field.name;
+
+    if (isEmpty(field.value)) {
+        return field.required ? `${label} is required` : undefined;
+    }
+
+    if (field.pattern && typeof field.value === "string") {
+        if (field.pattern.length > MAX_PATTERN_LENGTH || hasAmbiguousRepetition(field.pattern)) {
+            return undefined;
+        }
+        let pattern: RegExp;
+        try {
+            pattern = new RegExp(`^(?:${field.pattern})$`);
+        } catch {
+            // A pattern the browser cannot compile is the model's mistake, not the user's
+            return undefined;
+        }
+        if (!pattern.test(field.value)) {
+            return field.patternMessage || `${label} is not in the expected format`;
+        }
+    }
+
+    return undefined;
+}
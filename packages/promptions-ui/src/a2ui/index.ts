@@ -1,5 +1,9 @@
 export * from "./protocol";
 export * from "./streamParser";
+export * from "./dataModel";
+export * from "./formContext";
 export * from "./renderer";
 export * from "./A2UIProvider";
+export * from "./devtools";
+export * from "./A2UIDevtools";
 export * from "./defaultComponents";
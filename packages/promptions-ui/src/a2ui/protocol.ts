@@ -1,5 +1,41 @@
 import { z } from "zod";
 
+const A2UIActionTypeSchema = z.enum(["click", "input", "select", "scroll", "submit", "custom"]);
+
+// Longest list of operations a single handler may run
+const MAX_HANDLER_OPERATIONS = 20;
+
+// A2UI Client Operations - Steps a handler runs in the browser, without a round trip to the AI
+const A2UIClientOperationSchema = z.union([
+  z.object({
+    set: z.string().describe("JSON Pointer to set"),
+    value: z.unknown().describe("Value to set"),
+  }),
+  z.object({
+    toggle: z.string().describe("JSON Pointer of a boolean to flip; a missing value becomes true"),
+  }),
+  z.object({
+    increment: z.string().describe("JSON Pointer of a number to add to; a missing value counts as 0"),
+    by: z.number().optional().describe("Amount to add, negative to decrement; defaults to 1"),
+  }),
+  z.object({
+    show: z.string().describe("Component ID to show"),
+  }),
+  z.object({
+    hide: z.string().describe("Component ID to hide"),
+  }),
+]);
+
+export type A2UIClientOperation = z.infer<typeof A2UIClientOperationSchema>;
+
+const A2UIClientHandlerSchema = z.object({
+  on: A2UIActionTypeSchema.describe("Action type the handler runs for"),
+  do: z.array(A2UIClientOperationSchema).max(MAX_HANDLER_OPERATIONS).describe("Operations to run, in order"),
+  send: z.boolean().optional().describe("Also send the action to the AI after running the operations"),
+});
+
+export type A2UIClientHandler = z.infer<typeof A2UIClientHandlerSchema>;
+
 // A2UI Message Schema - Declarative protocol for AI-to-UI communication
 const A2UIComponentSchemaBase = z.object({
   id: z.string().describe("Unique component identifier"),
@@ -14,6 +50,11 @@ const A2UIComponentSchemaBase = z.object({
     wrap: z.boolean().optional().describe("Allow wrapping"),
   }).optional().describe("Layout properties"),
   style: z.record(z.string(), z.union([z.string(), z.number()])).optional().describe("CSS styles"),
+  hidden: z
+    .union([z.boolean(), z.object({ $bind: z.string() })])
+    .optional()
+    .describe("Hide the component, or bind it to a data model value that hides it when truthy"),
+  handlers: z.array(A2UIClientHandlerSchema).optional().describe("Actions the client handles itself"),
 });
 
 export type A2UIComponent = z.infer<typeof A2UIComponentSchemaBase> & {
@@ -27,7 +68,7 @@ const A2UIComponentSchema: z.ZodType<A2UIComponent> = A2UIComponentSchemaBase.ex
 
 // A2UI Action Schema - For user interactions sent back to AI
 export const A2UIActionSchema = z.object({
-  type: z.enum(["click", "input", "select", "scroll", "submit", "custom"]),
+  type: A2UIActionTypeSchema,
   componentId: z.string().describe("Component that triggered the action"),
   payload: z.record(z.string(), z.unknown()).optional().describe("Action payload"),
   timestamp: z.number().describe("Unix timestamp"),
@@ -35,13 +76,50 @@ export const A2UIActionSchema = z.object({
 
 export type A2UIAction = z.infer<typeof A2UIActionSchema>;
 
+// A2UI Tree Snapshot - The current UI sent along with actions, so the AI can target existing components
+export interface A2UISnapshotNode {
+  id: string;
+  type: string;
+  /** Left out once the snapshot's size budget is spent */
+  props?: Record<string, unknown>;
+  /** What the user entered or picked, for inputs, checkboxes and selects */
+  value?: unknown;
+  /** Set when a client handler or the component's own `hidden` flag hides it */
+  hidden?: boolean;
+  children?: A2UISnapshotNode[];
+}
+
+export interface A2UITreeSnapshot {
+  components: A2UISnapshotNode[];
+  /** Recent actions, oldest first; the last one is the action being sent */
+  actions: A2UIAction[];
+  /** The data model that bound props read from */
+  data?: unknown;
+  /** Whether props, long strings or deep components were left out to keep the snapshot small */
+  truncated: boolean;
+}
+
 // A2UI Stream Message - For streaming protocol
 export const A2UIStreamMessageSchema = z.union([
   z.object({
     type: z.literal("component"),
     data: A2UIComponentSchema,
+    parentId: z.string().optional().describe("Parent to append to; omit for a root component"),
+    index: z.number().int().nonnegative().optional().describe("Position among the parent's children"),
     complete: z.boolean().optional().describe("Whether this is the final message"),
   }),
+  z.object({
+    type: z.literal("insert"),
+    data: A2UIComponentSchema,
+    parentId: z.string().optional().describe("Parent to insert into; omit to insert a root component"),
+    index: z.number().int().nonnegative().describe("Position among the parent's children"),
+  }),
+  z.object({
+    type: z.literal("move"),
+    id: z.string().describe("Component ID to move"),
+    parentId: z.string().optional().describe("New parent; omit to make it a root component"),
+    index: z.number().int().nonnegative().optional().describe("Position among the new parent's children"),
+  }),
   z.object({
     type: z.literal("update"),
     id: z.string().describe("Component ID to update"),
@@ -51,6 +129,12 @@ export const A2UIStreamMessageSchema = z.union([
     type: z.literal("remove"),
     id: z.string().describe("Component ID to remove"),
   }),
+  z.object({
+    type: z.literal("data"),
+    path: z.string().optional().describe("JSON Pointer into the data model; omit for the whole model"),
+    value: z.unknown().optional().describe("Value to set or merge"),
+    op: z.enum(["set", "merge", "remove"]).optional().describe("How to apply the value; defaults to set"),
+  }),
   z.object({
     type: z.literal("action"),
     data: A2UIActionSchema,
@@ -66,11 +150,20 @@ export type A2UIStreamMessage = z.infer<typeof A2UIStreamMessageSchema>;
 
 // Protocol configuration
 export interface A2UIConfig {
+  /** Most components the tree may hold at once */
   maxComponents: number;
+  /** Deepest nesting allowed, counting root components as depth 1 */
   maxDepth: number;
+  /** Component types the stream may use; empty allows every type */
   allowedComponents: string[];
+  /** Largest props object allowed, in characters of JSON */
   maxPropsSize: number;
+  /** Largest data model allowed, in characters of JSON */
+  maxDataSize: number;
+  /** Keep a history of user actions to send with later actions */
   enableActionLogging: boolean;
+  /** Reject a whole message when any component in it breaks a limit, instead of dropping just that component */
+  strict: boolean;
 }
 
 export const DefaultA2UIConfig: A2UIConfig = {
@@ -78,9 +171,60 @@ export const DefaultA2UIConfig: A2UIConfig = {
   maxDepth: 10,
   allowedComponents: [],
   maxPropsSize: 10000,
+  maxDataSize: 50000,
   enableActionLogging: true,
+  strict: false,
 };
 
+// Why the parser dropped a message or a component within one
+export type A2UIRejectionReason =
+  | "parse-error"
+  | "invalid-message"
+  | "max-components"
+  | "max-depth"
+  | "component-not-allowed"
+  | "max-props-size"
+  | "max-data-size"
+  | "invalid-path"
+  | "unknown-component"
+  | "unknown-parent"
+  | "duplicate-id"
+  | "cycle"
+  | "invalid-props";
+
+export interface A2UIRejection {
+  reason: A2UIRejectionReason;
+  /** The warning text, naming the component and the limit */
+  message: string;
+  /** Type of the stream message, when it could be parsed */
+  messageType?: A2UIStreamMessage["type"];
+  componentId?: string;
+}
+
+export interface A2UIParserStats {
+  /** Messages applied, including component messages that lost some nested components */
+  accepted: number;
+  /** Messages dropped entirely */
+  rejected: number;
+  /** Rejections by reason, counting each dropped message or nested component once */
+  reasons: Partial<Record<A2UIRejectionReason, number>>;
+  /** The most recent rejections, oldest first */
+  recent: A2UIRejection[];
+}
+
+// One NDJSON line as the parser received it, with what became of it
+export interface A2UILineRecord {
+  /** The line as received, without surrounding whitespace */
+  line: string;
+  /** "applied" includes component messages that lost some nested components, which `errors` then lists */
+  status: "applied" | "rejected" | "invalid" | "parse-error";
+  messageType?: A2UIStreamMessage["type"];
+  /** Messages of the rejections the line caused */
+  errors?: string[];
+  /** Parser version after the line */
+  version: number;
+}
+
 // Validation functions
 export function validateComponent(component: unknown): { valid: boolean; errors: string[] } {
   const result = A2UIComponentSchema.safeParse(component);
@@ -1,6 +1,10 @@
-import React, { useMemo, useCallback } from "react";
+import React, { useMemo, useCallback, useEffect } from "react";
+import { tokens } from "@fluentui/react-components";
 import { A2UIComponent, A2UIAction } from "./protocol";
 import { useTambo } from "../registry/TamboProvider";
+import { useOptionalA2UI } from "./A2UIProvider";
+import { isBinding, isComponentHidden, resolveBindings } from "./dataModel";
+import { useA2UIForm } from "./formContext";
 
 type ActionHandler = (eventType: A2UIAction["type"], payload?: Record<string, unknown>) => void;
 
@@ -13,21 +17,109 @@ interface A2UIRendererProps {
 
 export function A2UIRenderer({ component, actionCallback, className, style }: A2UIRendererProps) {
   const { registeredComponents } = useTambo();
+  const a2ui = useOptionalA2UI();
+  const form = useA2UIForm();
   const timestampRef = React.useRef(Date.now());
 
   const entry = useMemo(() => {
     return registeredComponents.get(component.type);
   }, [component.type, registeredComponents]);
 
+  // Resolve bindings against the current data model
+  const dataModel = a2ui?.dataModel ?? {};
+  const props = resolveBindings(component.props, dataModel);
+  const hidden = isComponentHidden(component, dataModel);
+
+  // Inside a Form, a visible field's value and rules go to the form, which validates and submits them all at once
+  const valueProp = form && !hidden ? entry?.valueProp : undefined;
+  const fieldValue = valueProp ? props[valueProp] : undefined;
+  const fieldName = typeof props.name === "string" && props.name ? props.name : component.id;
+  const fieldLabel = typeof props.label === "string" ? props.label : undefined;
+  const required = props.required === true;
+  const pattern = typeof props.pattern === "string" ? props.pattern : undefined;
+  const patternMessage = typeof props.patternMessage === "string" ? props.patternMessage : undefined;
+
+  useEffect(() => {
+    if (form && valueProp) {
+      form.registerField(
+        component.id,
+        { name: fieldName, label: fieldLabel, required, pattern, patternMessage },
+        fieldValue,
+      );
+    }
+    // The value is only the initial one here; later changes arrive through setFieldValue
+  }, [form, valueProp, component.id, fieldName, fieldLabel, required, pattern, patternMessage]);
+
+  useEffect(() => {
+    if (form && valueProp && fieldValue !== undefined) {
+      form.setFieldValue(component.id, fieldValue);
+    }
+  }, [form, valueProp, component.id, fieldValue]);
+
+  useEffect(() => {
+    if (!form || !valueProp) return undefined;
+    return () => form.unregisterField(component.id);
+  }, [form, valueProp, component.id]);
+
+  const setData = a2ui?.setData;
+  const recordAction = a2ui?.recordAction;
+  const runClientHandlers = a2ui?.runClientHandlers;
   const handleAction: ActionHandler = useCallback((eventType, payload) => {
+    const isFieldChange = eventType === "input" || eventType === "select";
+
+    // Two-way bindings: an input or select writes each payload field back to the path its prop is bound to
+    if (isFieldChange && payload && setData) {
+      for (const [key, value] of Object.entries(payload)) {
+        const prop = component.props[key];
+        if (isBinding(prop)) {
+          setData(prop.$bind, value);
+        }
+      }
+    }
+
+    if (form && valueProp && isFieldChange && payload && valueProp in payload) {
+      form.setFieldValue(component.id, payload[valueProp]);
+    }
+
     const action: A2UIAction = {
       type: eventType,
       componentId: component.id,
       payload,
       timestamp: timestampRef.current++,
     };
+
+    // Handlers the component declares run here, and the action only goes on when none matched or one asks to send
+    if (runClientHandlers?.(action)) {
+      return;
+    }
+
+    // A submit button inside a form submits the form instead; containers such as a nested Form submit themselves
+    if (form && eventType === "submit" && !entry?.container) {
+      form.submit();
+      return;
+    }
+
+    // Keystrokes, any field change inside a form, and events the component handles itself stay on the client,
+    // unless a handler asks to send them; the next action that reaches the server carries them in its snapshot
+    const sendRequested = component.handlers?.some(h => h.on === eventType && h.send === true);
+    const local = (isFieldChange && (form || eventType === "input")) || entry?.localEvents?.includes(eventType);
+    if (local && !sendRequested && recordAction) {
+      recordAction(action);
+      return;
+    }
     actionCallback?.(action);
-  }, [component.id, actionCallback]);
+  }, [
+    component.id,
+    component.props,
+    component.handlers,
+    actionCallback,
+    setData,
+    recordAction,
+    runClientHandlers,
+    form,
+    valueProp,
+    entry,
+  ]);
 
   // Layout styles
   const layoutStyle = useMemo((): React.CSSProperties => {
@@ -70,6 +162,23 @@ export function A2UIRenderer({ component, actionCallback, className, style }: A2
     };
   }, [component.layout, component.style]);
 
+  // Props that do not match the component's schema are reported once per distinct set of issues
+  const validation = entry && !hidden ? entry.schema.safeParse(props) : undefined;
+  const propErrors = validation && !validation.success
+    ? validation.error.issues.map(e => `${e.path?.join(".") || "root"}: ${e.message}`)
+    : undefined;
+  const propErrorKey = propErrors?.join("\n");
+  const reportInvalidProps = a2ui?.reportInvalidProps;
+  useEffect(() => {
+    if (!propErrors) return;
+    console.warn(`A2UI: Invalid props for "${component.id}" (${component.type}):`, propErrors);
+    reportInvalidProps?.(component.id, component.type, propErrors);
+  }, [propErrorKey, component.id, component.type, reportInvalidProps]);
+
+  if (hidden) {
+    return null;
+  }
+
   if (!entry) {
     console.warn(`A2UI: Unknown component type "${component.type}"`);
     return (
@@ -79,15 +188,23 @@ export function A2UIRenderer({ component, actionCallback, className, style }: A2
     );
   }
 
-  // Validate props
-  const result = entry.schema.safeParse(component.props);
-  const validProps = result.success ? result.data : component.props;
+  if (!validation?.success) {
+    return (
+      <div style={layoutStyle} className={className} data-a2ui-id={component.id}>
+        <span style={{ color: "red", fontSize: "12px" }}>Invalid props for {component.type}</span>
+      </div>
+    );
+  }
+  const validProps = validation.data;
 
   const Component = entry.component as React.ComponentType<Record<string, unknown> & { onAction?: ActionHandler }>;
 
-  const children = component.children?.map((child) => (
+  // Streamed components get their children from the parser's tree index, standalone trees carry them inline
+  const childComponents = a2ui?.getChildren(component.id) ?? component.children;
+  const children = childComponents?.map((child) => (
     <A2UIRenderer key={child.id} component={child} actionCallback={actionCallback} />
   ));
+  const fieldError = form?.errors[component.id];
 
   return (
     <div
@@ -98,8 +215,21 @@ export function A2UIRenderer({ component, actionCallback, className, style }: A2
       aria-relevant="additions"
       aria-atomic="false"
     >
-      <Component {...(validProps as Record<string, unknown>)} onAction={handleAction} />
-      {children}
+      {entry.container ? (
+        <Component {...(validProps as Record<string, unknown>)} onAction={handleAction}>
+          {children}
+        </Component>
+      ) : (
+        <>
+          <Component {...(validProps as Record<string, unknown>)} onAction={handleAction} />
+          {children}
+        </>
+      )}
+      {fieldError && (
+        <span role="alert" style={{ fontSize: 12, color: tokens.colorPaletteRedForeground1 }}>
+          {fieldError}
+        </span>
+      )}
     </div>
   );
 }
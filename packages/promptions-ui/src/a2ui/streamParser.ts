@@ -1,8 +1,42 @@
-import { A2UIStreamMessage, A2UIComponent, A2UIAction, validateStreamMessage, DefaultA2UIConfig, A2UIConfig } from "./protocol";
+import {
+  A2UIStreamMessage,
+  A2UIComponent,
+  A2UIAction,
+  A2UIClientOperation,
+  A2UISnapshotNode,
+  A2UITreeSnapshot,
+  A2UIRejection,
+  A2UIParserStats,
+  A2UILineRecord,
+  validateStreamMessage,
+  DefaultA2UIConfig,
+  A2UIConfig,
+} from "./protocol";
+import {
+  A2UIDataModel,
+  getDataValue,
+  isComponentHidden,
+  mergeDataValue,
+  removeDataValue,
+  setDataValue,
+} from "./dataModel";
+
+// Limits that keep the snapshot sent with each action small enough for a prompt
+const MAX_ACTION_HISTORY = 10;
+const MAX_SNAPSHOT_STRING = 200;
+const MAX_SNAPSHOT_ITEMS = 20;
+const MAX_SNAPSHOT_PROPS_SIZE = 6000;
 
 interface ParsedState {
+  /** Components by ID, without inline children; the tree is kept in `childIds` and `parentIds` */
   components: Map<string, A2UIComponent>;
+  /** Child IDs of each component, in render order */
+  childIds: Map<string, string[]>;
+  /** Parent ID of each component, null for root components */
+  parentIds: Map<string, string | null>;
   rootIds: string[];
+  /** JSON that component props bind to with { "$bind": "/path" } */
+  data: A2UIDataModel;
   version: number;
 }
 
@@ -10,30 +44,76 @@ interface StreamParserOptions {
   config?: Partial<A2UIConfig>;
   onError?: (error: Error, message: unknown) => void;
   onWarning?: (warning: string) => void;
+  /** Called for every dropped message or nested component */
+  onReject?: (rejection: A2UIRejection) => void;
+  /** Called for every line received, after it has been applied or rejected */
+  onLine?: (record: A2UILineRecord) => void;
+}
+
+// A broken limit, before it is recorded against the message being applied
+type Violation = Omit<A2UIRejection, "messageType">;
+
+const MAX_RECENT_REJECTIONS = 20;
+
+/**
+ * Component templates a component renders per item, e.g. the `template` of a List and any template nested in
+ * that template's props, outermost first. They are not part of the tree, so they never reach `checkComponent`.
+ */
+function componentTemplates(props: Record<string, unknown>): unknown[] {
+  const templates: unknown[] = [];
+  let template = props.template;
+  while (typeof template === "object" && template !== null && !Array.isArray(template)) {
+    templates.push(template);
+    const nested = (template as { props?: unknown }).props;
+    template = typeof nested === "object" && nested !== null ? (nested as { template?: unknown }).template : undefined;
+  }
+  return templates;
 }
 
 export class A2UIStreamParser {
   private config: A2UIConfig;
   private state: ParsedState;
+  private stats: A2UIParserStats;
   private buffer: string = "";
   private version: number = 0;
+  private values = new Map<string, unknown>();
+  private actions: A2UIAction[] = [];
+  private messageType?: A2UIStreamMessage["type"];
+  // Rejection messages of the line being processed, collected only when someone listens for lines
+  private lineErrors?: string[];
   private onError?: (error: Error, message: unknown) => void;
   private onWarning?: (warning: string) => void;
+  private onReject?: (rejection: A2UIRejection) => void;
+  private onLine?: (record: A2UILineRecord) => void;
 
   constructor(options: StreamParserOptions = {}) {
     this.config = { ...DefaultA2UIConfig, ...options.config };
     this.onError = options.onError;
     this.onWarning = options.onWarning;
-    this.state = {
+    this.onReject = options.onReject;
+    this.onLine = options.onLine;
+    this.state = A2UIStreamParser.emptyState();
+    this.stats = A2UIStreamParser.emptyStats();
+  }
+
+  private static emptyState(): ParsedState {
+    return {
       components: new Map(),
+      childIds: new Map(),
+      parentIds: new Map(),
       rootIds: [],
+      data: {},
       version: 0,
     };
   }
 
+  private static emptyStats(): A2UIParserStats {
+    return { accepted: 0, rejected: 0, reasons: {}, recent: [] };
+  }
+
   /**
    * Process incoming chunk of data from the AI stream.
-   * Handles partial JSON and multiple messages.
+   * Handles partial JSON and multiple messages. Returns the messages that were applied.
    */
   processChunk(chunk: string): A2UIStreamMessage[] {
     this.buffer += chunk;
@@ -45,20 +125,45 @@ export class A2UIStreamParser {
       this.buffer = this.buffer.slice(boundary + 1);
 
       if (line) {
+        let status: A2UILineRecord["status"] = "parse-error";
+        let messageType: A2UIStreamMessage["type"] | undefined;
+        this.lineErrors = this.onLine ? [] : undefined;
+
+        let parsed: unknown;
         try {
-          const parsed = JSON.parse(line);
+          parsed = JSON.parse(line);
+        } catch (error) {
+          this.stats.rejected++;
+          this.record({ reason: "parse-error", message: `Parse error: ${error}` });
+          this.onError?.(new Error(`Parse error: ${error}`), line);
+        }
+
+        if (parsed !== undefined) {
           const validation = validateStreamMessage(parsed);
 
           if (validation.valid) {
             const message = parsed as A2UIStreamMessage;
-            this.applyMessage(message);
-            messages.push(message);
+            messageType = message.type;
+            this.messageType = message.type;
+            if (this.applyMessage(message)) {
+              this.stats.accepted++;
+              messages.push(message);
+              status = "applied";
+            } else {
+              this.stats.rejected++;
+              status = "rejected";
+            }
+            this.messageType = undefined;
           } else {
-            this.onWarning?.(`Invalid message: ${validation.errors.join(", ")}`);
+            this.stats.rejected++;
+            this.reject({ reason: "invalid-message", message: `Invalid message: ${validation.errors.join(", ")}` });
+            status = "invalid";
           }
-        } catch (error) {
-          this.onError?.(new Error(`Parse error: ${error}`), line);
         }
+
+        const errors = this.lineErrors?.length ? this.lineErrors : undefined;
+        this.lineErrors = undefined;
+        this.onLine?.({ line, status, messageType, errors, version: this.version });
       }
 
       boundary = this.buffer.indexOf("\n");
@@ -68,22 +173,52 @@ export class A2UIStreamParser {
   }
 
   /**
-   * Apply a validated message to the state.
+   * Apply a validated message to the state. Returns false when the whole message was rejected.
    */
-  private applyMessage(message: A2UIStreamMessage): void {
-    this.version++;
+  private applyMessage(message: A2UIStreamMessage): boolean {
+    let applied = true;
 
     switch (message.type) {
       case "component":
-        this.addComponent(message.data, true);
+        applied = this.addTree(message.data, message.parentId, message.index);
+        break;
+
+      case "insert":
+        if (this.state.components.has(message.data.id)) {
+          this.reject({
+            reason: "duplicate-id",
+            message: `Cannot insert "${message.data.id}": component already exists, use move instead`,
+            componentId: message.data.id,
+          });
+          applied = false;
+        } else {
+          applied = this.addTree(message.data, message.parentId, message.index);
+        }
+        break;
+
+      case "move":
+        applied = this.moveComponent(message.id, message.parentId, message.index);
         break;
 
       case "update":
-        this.updateComponent(message.id, message.props);
+        applied = this.updateComponent(message.id, message.props);
         break;
 
       case "remove":
-        this.removeComponent(message.id);
+        if (this.state.components.has(message.id)) {
+          this.removeComponent(message.id);
+        } else {
+          this.reject({
+            reason: "unknown-component",
+            message: `Cannot remove "${message.id}": component does not exist`,
+            componentId: message.id,
+          });
+          applied = false;
+        }
+        break;
+
+      case "data":
+        applied = this.applyData(message.path ?? "", message.value, message.op ?? "set");
         break;
 
       case "action":
@@ -95,49 +230,429 @@ export class A2UIStreamParser {
         break;
     }
 
-    this.state.version = this.version;
+    if (applied) {
+      this.version++;
+      this.state.version = this.version;
+    }
+    return applied;
   }
 
-  private addComponent(component: A2UIComponent, isRoot = false): void {
-    if (this.state.components.size >= this.config.maxComponents) {
-      this.onWarning?.("Max components limit reached");
-      return;
+  /**
+   * Add the component of a component or insert message. In strict mode the whole subtree is checked first, and a
+   * single violation anywhere rejects the message; otherwise only the offending components are dropped.
+   */
+  private addTree(component: A2UIComponent, parentId?: string, index?: number): boolean {
+    if (this.config.strict) {
+      const violations = this.findViolations(component, parentId);
+      if (violations.length > 0) {
+        const [first] = violations;
+        const others = violations.length > 1 ? ` (and ${violations.length - 1} more)` : "";
+        this.reject({ ...first, message: `Rejected "${component.id}" in strict mode: ${first.message}${others}` });
+        return false;
+      }
     }
+    return this.addComponent(component, parentId, index);
+  }
 
-    if (component.id) {
-      this.state.components.set(component.id, component);
+  /**
+   * Add a component and its inline children under `parentId`, or as a root component. Sending a component that
+   * already exists updates it in place instead; inline children then replace its current children, and a
+   * `parentId` or `index` moves it. Children that break a limit are dropped on their own.
+   */
+  private addComponent(component: A2UIComponent, parentId?: string, index?: number): boolean {
+    if (parentId !== undefined && !this.state.components.has(parentId)) {
+      this.reject({
+        reason: "unknown-parent",
+        message: `Cannot add "${component.id}": parent "${parentId}" does not exist`,
+        componentId: component.id,
+      });
+      return false;
+    }
 
-      if (isRoot && !this.state.rootIds.includes(component.id)) {
-        this.state.rootIds.push(component.id);
-      }
+    const exists = this.state.components.has(component.id);
+    const violation = this.checkComponent(
+      component,
+      this.depthFor(component.id, parentId),
+      exists ? undefined : this.state.components.size
+    );
+    if (violation) {
+      this.reject(violation);
+      return false;
+    }
+
+    const { children, ...data } = component;
 
-      // Add children
-      if (component.children) {
-        for (const child of component.children) {
-          this.addComponent(child);
+    if (exists) {
+      if ((parentId !== undefined || index !== undefined) && !this.moveComponent(component.id, parentId, index)) {
+        return false;
+      }
+      this.state.components.set(component.id, data);
+      if (children) {
+        for (const childId of this.state.childIds.get(component.id) ?? []) {
+          this.removeComponent(childId);
         }
       }
+    } else {
+      this.state.components.set(component.id, data);
+      this.state.childIds.set(component.id, []);
+      this.attach(component.id, parentId ?? null, index);
+    }
+
+    for (const child of children ?? []) {
+      this.addComponent(child, component.id);
+    }
+    return true;
+  }
+
+  /**
+   * Check a component against the type, depth and props limits, and against the component limit when
+   * `componentCount` is given because it would be added.
+   */
+  private checkComponent(component: A2UIComponent, depth: number, componentCount?: number): Violation | undefined {
+    const { id, type, props } = component;
+    const { allowedComponents, maxDepth, maxPropsSize, maxComponents } = this.config;
+
+    if (!id) {
+      return { reason: "invalid-message", message: `Component of type "${type}" has no id` };
+    }
+    if (allowedComponents.length > 0 && !allowedComponents.includes(type)) {
+      return {
+        reason: "component-not-allowed",
+        message: `Component "${id}" has type "${type}", which is not in allowedComponents`,
+        componentId: id,
+      };
+    }
+    if (depth > maxDepth) {
+      return {
+        reason: "max-depth",
+        message: `Component "${id}" would be at depth ${depth}, deeper than maxDepth ${maxDepth}`,
+        componentId: id,
+      };
+    }
+    const templateViolation = this.checkTemplates(id, props, depth);
+    if (templateViolation) {
+      return templateViolation;
+    }
+    const propsSize = JSON.stringify(props).length;
+    if (propsSize > maxPropsSize) {
+      return {
+        reason: "max-props-size",
+        message: `Props of "${id}" are ${propsSize} characters of JSON, over maxPropsSize ${maxPropsSize}`,
+        componentId: id,
+      };
+    }
+    if (componentCount !== undefined && componentCount >= maxComponents) {
+      return {
+        reason: "max-components",
+        message: `Cannot add "${id}": the tree already holds maxComponents ${maxComponents} components`,
+        componentId: id,
+      };
+    }
+    return undefined;
+  }
+
+  /**
+   * Check the templates a component renders per item against the type and depth limits, each one a level below
+   * the component or template it sits in. A template must name its type outright: one taken from a binding or an
+   * item could be any type.
+   */
+  private checkTemplates(id: string, props: Record<string, unknown>, depth: number): Violation | undefined {
+    const { allowedComponents, maxDepth } = this.config;
+
+    for (const [index, template] of componentTemplates(props).entries()) {
+      const type = (template as { type?: unknown }).type;
+      if (typeof type !== "string") {
+        return {
+          reason: "invalid-message",
+          message: `Component "${id}" has a template without a component type`,
+          componentId: id,
+        };
+      }
+      if (allowedComponents.length > 0 && !allowedComponents.includes(type)) {
+        return {
+          reason: "component-not-allowed",
+          message: `Component "${id}" has a template of type "${type}", which is not in allowedComponents`,
+          componentId: id,
+        };
+      }
+      if (depth + index + 1 > maxDepth) {
+        return {
+          reason: "max-depth",
+          message: `A template of "${id}" would be at depth ${depth + index + 1}, deeper than maxDepth ${maxDepth}`,
+          componentId: id,
+        };
+      }
     }
+    return undefined;
   }
 
-  private updateComponent(id: string, props: Record<string, unknown>): void {
+  /**
+   * Every limit a component message would break, without applying it.
+   */
+  private findViolations(component: A2UIComponent, parentId?: string): Violation[] {
+    if (parentId !== undefined && !this.state.components.has(parentId)) {
+      return [
+        {
+          reason: "unknown-parent",
+          message: `Cannot add "${component.id}": parent "${parentId}" does not exist`,
+          componentId: component.id,
+        },
+      ];
+    }
+
+    const violations: Violation[] = [];
+    let componentCount = this.state.components.size;
+
+    const visit = (node: A2UIComponent, depth: number) => {
+      const exists = this.state.components.has(node.id);
+      const violation = this.checkComponent(node, depth, exists ? undefined : componentCount);
+      if (violation) {
+        violations.push(violation);
+      } else if (!exists) {
+        componentCount++;
+      }
+
+      if (node.children) {
+        for (const child of node.children) {
+          visit(child, depth + 1);
+        }
+      } else if (exists) {
+        // The component keeps its current children, which move along with it
+        const deepest = depth + this.subtreeHeight(node.id) - 1;
+        const { maxDepth } = this.config;
+        if (deepest > maxDepth) {
+          violations.push({
+            reason: "max-depth",
+            message: `Children of "${node.id}" would reach depth ${deepest}, deeper than maxDepth ${maxDepth}`,
+            componentId: node.id,
+          });
+        }
+      }
+    };
+
+    visit(component, this.depthFor(component.id, parentId));
+    return violations;
+  }
+
+  private updateComponent(id: string, props: Record<string, unknown>): boolean {
     const component = this.state.components.get(id);
-    if (component) {
-      component.props = { ...component.props, ...props };
+    if (!component) {
+      this.reject({
+        reason: "unknown-component",
+        message: `Cannot update "${id}": component does not exist`,
+        componentId: id,
+      });
+      return false;
+    }
+
+    const merged = { ...component.props, ...props };
+    const templateViolation = this.checkTemplates(id, merged, this.depthOf(id));
+    if (templateViolation) {
+      this.reject(templateViolation);
+      return false;
+    }
+    const propsSize = JSON.stringify(merged).length;
+    const { maxPropsSize } = this.config;
+    if (propsSize > maxPropsSize) {
+      this.reject({
+        reason: "max-props-size",
+        message: `Cannot update "${id}": props would be ${propsSize} characters, over maxPropsSize ${maxPropsSize}`,
+        componentId: id,
+      });
+      return false;
     }
+
+    this.state.components.set(id, { ...component, props: merged });
+    return true;
+  }
+
+  private moveComponent(id: string, parentId?: string, index?: number): boolean {
+    if (!this.state.components.has(id)) {
+      this.reject({
+        reason: "unknown-component",
+        message: `Cannot move "${id}": component does not exist`,
+        componentId: id,
+      });
+      return false;
+    }
+    if (parentId !== undefined && !this.state.components.has(parentId)) {
+      this.reject({
+        reason: "unknown-parent",
+        message: `Cannot move "${id}": parent "${parentId}" does not exist`,
+        componentId: id,
+      });
+      return false;
+    }
+
+    // A component cannot become a descendant of itself
+    for (let ancestor = parentId ?? null; ancestor !== null; ancestor = this.state.parentIds.get(ancestor) ?? null) {
+      if (ancestor === id) {
+        this.reject({ reason: "cycle", message: `Cannot move "${id}" inside itself`, componentId: id });
+        return false;
+      }
+    }
+
+    const deepest = (parentId !== undefined ? this.depthOf(parentId) : 0) + this.subtreeHeight(id);
+    const { maxDepth } = this.config;
+    if (deepest > maxDepth) {
+      this.reject({
+        reason: "max-depth",
+        message: `Cannot move "${id}": its subtree would reach depth ${deepest}, deeper than maxDepth ${maxDepth}`,
+        componentId: id,
+      });
+      return false;
+    }
+
+    this.detach(id);
+    this.attach(id, parentId ?? null, index);
+    return true;
   }
 
   private removeComponent(id: string): void {
-    const component = this.state.components.get(id);
-    if (component) {
+    if (this.state.components.has(id)) {
       // Remove children first
-      if (component.children) {
-        for (const child of component.children) {
-          this.removeComponent(child.id);
-        }
+      for (const childId of this.state.childIds.get(id) ?? []) {
+        this.removeComponent(childId);
       }
+      this.detach(id);
       this.state.components.delete(id);
-      this.state.rootIds = this.state.rootIds.filter(rootId => rootId !== id);
+      this.state.childIds.delete(id);
+      this.state.parentIds.delete(id);
+      this.values.delete(id);
+    }
+  }
+
+  /**
+   * Change the data model at a JSON Pointer, keeping it within `maxDataSize`.
+   */
+  private applyData(path: string, value: unknown, op: "set" | "merge" | "remove"): boolean {
+    const data = this.state.data;
+    const next =
+      op === "remove"
+        ? removeDataValue(data, path)
+        : op === "merge"
+          ? mergeDataValue(data, path, value)
+          : setDataValue(data, path, value);
+
+    if (!next) {
+      this.reject({
+        reason: "invalid-path",
+        message: `Cannot ${op} data at "${path}": invalid path, or a value that does not suit the operation`,
+      });
+      return false;
+    }
+
+    const dataSize = JSON.stringify(next).length;
+    const { maxDataSize } = this.config;
+    if (dataSize > maxDataSize) {
+      this.reject({
+        reason: "max-data-size",
+        message: `Cannot ${op} data at "${path}": the model would be ${dataSize} characters, over ${maxDataSize}`,
+      });
+      return false;
+    }
+
+    this.state.data = next;
+    return true;
+  }
+
+  /**
+   * Run one step of a client handler. Data operations go through the same checks as data messages.
+   */
+  private applyOperation(operation: A2UIClientOperation): boolean {
+    if ("set" in operation) {
+      return this.applyData(operation.set, operation.value, "set");
+    }
+    if ("toggle" in operation) {
+      return this.applyData(operation.toggle, !getDataValue(this.state.data, operation.toggle), "set");
+    }
+    if ("increment" in operation) {
+      const current = getDataValue(this.state.data, operation.increment);
+      const base = typeof current === "number" ? current : 0;
+      return this.applyData(operation.increment, base + (operation.by ?? 1), "set");
+    }
+
+    const id = "show" in operation ? operation.show : operation.hide;
+    const component = this.state.components.get(id);
+    if (!component) {
+      this.reject({
+        reason: "unknown-component",
+        message: `Cannot ${"show" in operation ? "show" : "hide"} "${id}": component does not exist`,
+        componentId: id,
+      });
+      return false;
+    }
+    this.state.components.set(id, { ...component, hidden: "hide" in operation });
+    return true;
+  }
+
+  private reject(violation: Violation): void {
+    this.record(violation);
+    this.onWarning?.(violation.message);
+  }
+
+  private record(violation: Violation): void {
+    const rejection: A2UIRejection = { ...violation, messageType: this.messageType };
+    this.stats.reasons[rejection.reason] = (this.stats.reasons[rejection.reason] ?? 0) + 1;
+    this.stats.recent = [...this.stats.recent, rejection].slice(-MAX_RECENT_REJECTIONS);
+    this.lineErrors?.push(rejection.message);
+    this.onReject?.(rejection);
+  }
+
+  /**
+   * Depth of a component, counting root components as 1.
+   */
+  private depthOf(id: string): number {
+    let depth = 1;
+    let parent = this.state.parentIds.get(id) ?? null;
+    while (parent !== null) {
+      depth++;
+      parent = this.state.parentIds.get(parent) ?? null;
+    }
+    return depth;
+  }
+
+  /**
+   * Depth a component will have once added under `parentId`; an existing component without one stays put.
+   */
+  private depthFor(id: string, parentId?: string): number {
+    if (parentId !== undefined) return this.depthOf(parentId) + 1;
+    return this.state.components.has(id) ? this.depthOf(id) : 1;
+  }
+
+  /**
+   * Levels in a component's subtree, 1 for a component without children or templates.
+   */
+  private subtreeHeight(id: string): number {
+    const childHeights = (this.state.childIds.get(id) ?? []).map(childId => this.subtreeHeight(childId));
+    const templateLevels = componentTemplates(this.state.components.get(id)?.props ?? {}).length;
+    return 1 + Math.max(templateLevels, ...childHeights);
+  }
+
+  /**
+   * Put a component at `index` among its new siblings, appending when the index is missing or past the end.
+   */
+  private attach(id: string, parentId: string | null, index?: number): void {
+    const siblings = [...this.siblingIds(parentId)];
+    siblings.splice(Math.min(index ?? siblings.length, siblings.length), 0, id);
+    this.setSiblingIds(parentId, siblings);
+    this.state.parentIds.set(id, parentId);
+  }
+
+  private detach(id: string): void {
+    const parentId = this.state.parentIds.get(id) ?? null;
+    this.setSiblingIds(parentId, this.siblingIds(parentId).filter(siblingId => siblingId !== id));
+  }
+
+  private siblingIds(parentId: string | null): string[] {
+    return parentId === null ? this.state.rootIds : this.state.childIds.get(parentId) ?? [];
+  }
+
+  private setSiblingIds(parentId: string | null, ids: string[]): void {
+    if (parentId === null) {
+      this.state.rootIds = ids;
+    } else {
+      this.state.childIds.set(parentId, ids);
     }
   }
 
@@ -164,6 +679,16 @@ export class A2UIStreamParser {
       .filter((c): c is A2UIComponent => c !== undefined);
   }
 
+  /**
+   * Get a component's children in render order, or undefined when the component is not in the tree.
+   */
+  getChildren(id: string): A2UIComponent[] | undefined {
+    return this.state.childIds
+      .get(id)
+      ?.map(childId => this.state.components.get(childId))
+      .filter((c): c is A2UIComponent => c !== undefined);
+  }
+
   /**
    * Get the current version number.
    */
@@ -171,17 +696,185 @@ export class A2UIStreamParser {
     return this.version;
   }
 
+  /**
+   * Get the data model that bound props read from.
+   */
+  getDataModel(): A2UIDataModel {
+    return this.state.data;
+  }
+
+  /**
+   * Write a value into the data model from the UI, e.g. an input with a two-way binding. Returns false, with a
+   * warning, when the path or size limit rules the write out.
+   */
+  setData(path: string, value: unknown): boolean {
+    const applied = this.applyData(path, value, "set");
+    if (applied) {
+      this.version++;
+      this.state.version = this.version;
+    }
+    return applied;
+  }
+
+  /**
+   * Run the client handlers that the action's component declares for the action's type, so the action needs no
+   * server round trip. A failed operation is rejected with a warning and the rest still run. Returns whether any
+   * handler matched, and whether one asked for the action to be sent on as well; actions that stay on the client
+   * are recorded here, while sent ones are recorded when they are sent.
+   */
+  runClientHandlers(action: A2UIAction): { handled: boolean; send: boolean } {
+    const handlers = this.state.components.get(action.componentId)?.handlers?.filter(h => h.on === action.type) ?? [];
+    if (handlers.length === 0) {
+      return { handled: false, send: false };
+    }
+
+    let changed = false;
+    for (const handler of handlers) {
+      for (const operation of handler.do) {
+        changed = this.applyOperation(operation) || changed;
+      }
+    }
+    if (changed) {
+      this.version++;
+      this.state.version = this.version;
+    }
+
+    const send = handlers.some(h => h.send === true);
+    if (!send) {
+      this.recordAction(action);
+    }
+    return { handled: true, send };
+  }
+
+  /**
+   * Get the accepted and rejected message counts, rejections by reason and the most recent rejections.
+   */
+  /**
+   * Count a component whose props failed its registered schema. The renderer reports these, since only it knows
+   * the registry; the component stays in the tree, so the line that added it still counts as accepted.
+   */
+  reportInvalidProps(componentId: string, type: string, errors: string[]): void {
+    this.reject({
+      reason: "invalid-props",
+      message: `Props of "${componentId}" do not match the "${type}" schema: ${errors.join("; ")}`,
+      componentId,
+    });
+  }
+
+  getStats(): A2UIParserStats {
+    return { ...this.stats, reasons: { ...this.stats.reasons }, recent: [...this.stats.recent] };
+  }
+
+  /**
+   * Record a user action: input and select actions set the component's current value, and every action joins the
+   * history sent with later actions, unless `enableActionLogging` is off. Consecutive keystrokes in the same input
+   * count as one action.
+   */
+  recordAction(action: A2UIAction): void {
+    if (action.type === "input" || action.type === "select") {
+      const payload = action.payload ?? {};
+      const value = "value" in payload ? payload.value : payload.checked;
+      if (value !== undefined) {
+        this.values.set(action.componentId, value);
+      }
+    }
+
+    if (!this.config.enableActionLogging) {
+      return;
+    }
+
+    const last = this.actions[this.actions.length - 1];
+    if (action.type === "input" && last?.type === "input" && last.componentId === action.componentId) {
+      this.actions[this.actions.length - 1] = action;
+    } else {
+      this.actions = [...this.actions, action].slice(-MAX_ACTION_HISTORY);
+    }
+  }
+
+  /**
+   * Get a compact copy of the current tree for the AI: ids, types, props and the values the user entered, plus the
+   * recent action history. Long strings are clipped, and props are left out once the size budget is spent, so ids
+   * and types are always present.
+   */
+  getSnapshot(): A2UITreeSnapshot {
+    let budget = MAX_SNAPSHOT_PROPS_SIZE;
+    let truncated = false;
+
+    const compact = (value: unknown, depth: number): unknown => {
+      if (typeof value === "string") {
+        if (value.length <= MAX_SNAPSHOT_STRING) return value;
+        truncated = true;
+        return `${value.slice(0, MAX_SNAPSHOT_STRING)}…`;
+      }
+      if (value === null || typeof value !== "object") {
+        return typeof value === "function" ? undefined : value;
+      }
+      if (depth >= 3) {
+        truncated = true;
+        return Array.isArray(value) ? [] : {};
+      }
+      if (Array.isArray(value)) {
+        if (value.length > MAX_SNAPSHOT_ITEMS) truncated = true;
+        return value.slice(0, MAX_SNAPSHOT_ITEMS).map(item => compact(item, depth + 1));
+      }
+      const entries = Object.entries(value);
+      if (entries.length > MAX_SNAPSHOT_ITEMS) truncated = true;
+      return Object.fromEntries(
+        entries.slice(0, MAX_SNAPSHOT_ITEMS).map(([key, item]) => [key, compact(item, depth + 1)])
+      );
+    };
+
+    const toNode = (component: A2UIComponent, depth: number): A2UISnapshotNode => {
+      const node: A2UISnapshotNode = { id: component.id, type: component.type };
+
+      const props = compact(component.props, 0) as Record<string, unknown>;
+      const size = JSON.stringify(props).length;
+      if (size <= budget) {
+        node.props = props;
+        budget -= size;
+      } else {
+        truncated = true;
+      }
+
+      if (this.values.has(component.id)) {
+        node.value = compact(this.values.get(component.id), 0);
+      }
+      if (isComponentHidden(component, this.state.data)) {
+        node.hidden = true;
+      }
+
+      const children = this.getChildren(component.id) ?? [];
+      if (children.length > 0) {
+        if (depth + 1 < this.config.maxDepth) {
+          node.children = children.map(child => toNode(child, depth + 1));
+        } else {
+          truncated = true;
+        }
+      }
+
+      return node;
+    };
+
+    return {
+      components: this.getRootComponents().map(component => toNode(component, 0)),
+      data: Object.keys(this.state.data).length > 0 ? compact(this.state.data, 0) : undefined,
+      actions: this.actions.map(action =>
+        action.payload ? { ...action, payload: compact(action.payload, 0) as Record<string, unknown> } : action
+      ),
+      truncated,
+    };
+  }
+
   /**
    * Clear the parser state.
    */
   reset(): void {
     this.buffer = "";
     this.version = 0;
-    this.state = {
-      components: new Map(),
-      rootIds: [],
-      version: 0,
-    };
+    this.values = new Map();
+    this.actions = [];
+    this.state = A2UIStreamParser.emptyState();
+    this.stats = A2UIStreamParser.emptyStats();
   }
 }
 
@@ -1,14 +1,30 @@
 import React from "react";
-import { makeStyles, tokens, Radio, Checkbox, Text, Label, Switch } from "@fluentui/react-components";
+import { makeStyles, tokens, Radio, Checkbox, Text, Label, Switch, Slider } from "@fluentui/react-components";
 import {
     BasicOptions,
     SingleOptionControl,
     MultiOptionControl,
     BinaryOptionControl,
     CanvasControl,
+    SliderControl,
+    RangeControl,
+    TextInputControl,
+    OTHER_OPTION_KEY,
+    formatNumericValue,
+    getChoiceDescription,
+    applyCanvasMessage,
     basicOptionSet as b,
 } from "@promptions/promptions-llm";
 import { VisualOptionSet, OptionRenderer } from "./types";
+import { DraftInput } from "./draftInput";
+import { useSliderDraft } from "./sliderDraft";
+import { MergeSummary } from "./mergeSummary";
+import { ChoiceTip, ControlDetails } from "./controlInfo";
+import { CustomControlOption } from "./customControl";
+import { CodeRenderer, PostProcessorConfig } from "./codegen";
+import { useCanvasSandboxLevel } from "./canvasSandbox";
+import { ResolvedTheme, useTheme } from "./theme";
+import { canvasBridgeScript, postCanvasState, useCanvasBridge } from "./canvasBridge";
 
 const useStyles = makeStyles({
     "@keyframes slideUp": {
@@ -19,10 +35,10 @@ const useStyles = makeStyles({
         marginBottom: tokens.spacingVerticalM,
         padding: tokens.spacingVerticalM,
         borderRadius: tokens.borderRadiusLarge,
-        backgroundColor: "rgba(255, 255, 255, 0.4)",
+        backgroundColor: tokens.colorNeutralBackgroundAlpha,
         backdropFilter: "blur(12px)",
         WebkitBackdropFilter: "blur(12px)",
-        border: `1px solid rgba(255, 255, 255, 0.2)`,
+        border: `1px solid ${tokens.colorNeutralStrokeAlpha}`,
         boxShadow: "0 8px 32px 0 rgba(31, 38, 135, 0.07)",
         transition: "all 0.3s cubic-bezier(0.2, 0.8, 0.2, 1)",
         animationName: "slideUp",
@@ -62,6 +78,12 @@ const useStyles = makeStyles({
         gap: tokens.spacingHorizontalXS,
         padding: tokens.spacingVerticalXS,
     },
+    otherInput: {
+        minWidth: "160px",
+    },
+    textInput: {
+        width: "100%",
+    },
     toggleContainer: {
         display: "flex",
         alignItems: "center",
@@ -71,12 +93,38 @@ const useStyles = makeStyles({
         fontSize: tokens.fontSizeBase200,
         color: tokens.colorNeutralForeground1,
     },
+    sliderContainer: {
+        display: "flex",
+        alignItems: "center",
+        gap: tokens.spacingHorizontalS,
+    },
+    slider: {
+        flex: 1,
+        minWidth: "120px",
+    },
+    sliderValue: {
+        minWidth: "64px",
+        fontSize: tokens.fontSizeBase200,
+        color: tokens.colorNeutralForeground1,
+        fontVariantNumeric: "tabular-nums",
+        textAlign: "right",
+    },
+    sliderBoundLabel: {
+        minWidth: "40px",
+        fontSize: tokens.fontSizeBase200,
+        color: tokens.colorNeutralForeground3,
+    },
+    rangeContainer: {
+        display: "flex",
+        flexDirection: "column",
+        gap: tokens.spacingVerticalXS,
+    },
     thoughtContainer: {
         padding: tokens.spacingVerticalM,
         paddingLeft: tokens.spacingHorizontalM,
         marginBottom: tokens.spacingVerticalM,
         borderLeft: `4px solid ${tokens.colorBrandStroke1}`,
-        backgroundColor: "rgba(0, 120, 212, 0.05)",
+        backgroundColor: tokens.colorBrandBackground2,
         borderRadius: tokens.borderRadiusMedium,
         fontStyle: "italic",
         backdropFilter: "blur(4px)",
@@ -90,20 +138,30 @@ const useStyles = makeStyles({
         textTransform: "uppercase",
         letterSpacing: "0.05em",
     },
+    thoughtCursor: {
+        display: "inline-block",
+        width: "2px",
+        height: "1em",
+        marginLeft: "2px",
+        verticalAlign: "text-bottom",
+        backgroundColor: tokens.colorBrandForeground1,
+        animationName: {
+            "0%": { opacity: 1 },
+            "50%": { opacity: 0 },
+            "100%": { opacity: 1 },
+        },
+        animationDuration: "1s",
+        animationIterationCount: "infinite",
+    },
     canvasContainer: {
         width: "100%",
         minHeight: "400px",
         border: `1px solid ${tokens.colorNeutralStroke2}`,
         borderRadius: tokens.borderRadiusLarge,
         overflow: "hidden",
-        backgroundColor: "#fff",
+        backgroundColor: tokens.colorNeutralBackground1,
         boxShadow: tokens.shadow8,
     },
-    canvasFrame: {
-        width: "100%",
-        height: "100%",
-        border: "none",
-    },
 });
 
 interface SingleSelectOptionProps {
@@ -123,26 +181,76 @@ const SingleSelectOption: React.FC<SingleSelectOptionProps> = ({ option, optionI
         <div className={styles.choicesContainer}>
             {Object.entries(option.options).map(([key, label]) => (
                 <div key={key} className={styles.choiceItem}>
+                    <ChoiceTip description={getChoiceDescription(option, key)}>
+                        <Label>
+                            <Radio
+                                value={key}
+                                checked={currentValue === key}
+                                disabled={disabled}
+                                onChange={() => {
+                                    if (disabled) return;
+                                    set(
+                                        new BasicOptions(
+                                            options.options.map((opt, idx) =>
+                                                idx === optionIndex ? { ...opt, value: key } : opt,
+                                            ) as any,
+                                            options.metadata,
+                                            options.kinds,
+                                        ),
+                                    );
+                                }}
+                            />
+                            {label}
+                        </Label>
+                    </ChoiceTip>
+                </div>
+            ))}
+            {option.allowOther && (
+                <div className={styles.choiceItem}>
                     <Label>
                         <Radio
-                            value={key}
-                            checked={currentValue === key}
+                            value={OTHER_OPTION_KEY}
+                            checked={currentValue === OTHER_OPTION_KEY}
                             disabled={disabled}
                             onChange={() => {
                                 if (disabled) return;
                                 set(
                                     new BasicOptions(
                                         options.options.map((opt, idx) =>
-                                            idx === optionIndex ? { ...opt, value: key } : opt,
+                                            idx === optionIndex ? { ...opt, value: OTHER_OPTION_KEY } : opt,
                                         ) as any,
+                                        options.metadata,
+                                        options.kinds,
                                     ),
                                 );
                             }}
                         />
-                        {label}
+                        Other
                     </Label>
+                    <DraftInput
+                        className={styles.otherInput}
+                        size="small"
+                        value={option.otherValue ?? ""}
+                        placeholder="Type your own…"
+                        disabled={disabled}
+                        aria-label={`${option.label}: other`}
+                        onCommit={(text) => {
+                            if (disabled) return;
+                            set(
+                                new BasicOptions(
+                                    options.options.map((opt, idx) =>
+                                        idx === optionIndex
+                                            ? { ...opt, value: OTHER_OPTION_KEY, otherValue: text }
+                                            : opt,
+                                    ) as any,
+                                    options.metadata,
+                                    options.kinds,
+                                ),
+                            );
+                        }}
+                    />
                 </div>
-            ))}
+            )}
         </div>
     );
 };
@@ -157,6 +265,8 @@ interface MultiSelectOptionProps {
 
 const MultiSelectOption: React.FC<MultiSelectOptionProps> = ({ option, optionIndex, options, set, disabled }) => {
     const styles = useStyles();
+    const selectedValues = Array.isArray(option.value) ? option.value : [];
+    const otherChecked = selectedValues.includes(OTHER_OPTION_KEY);
 
     return (
         <div className={styles.choicesContainer}>
@@ -166,30 +276,84 @@ const MultiSelectOption: React.FC<MultiSelectOptionProps> = ({ option, optionInd
 
                 return (
                     <div key={key} className={styles.choiceItem}>
-                        <Label>
-                            <Checkbox
-                                checked={isChecked}
-                                disabled={disabled}
-                                onChange={() => {
-                                    if (disabled) return;
-                                    const newValues = isChecked
-                                        ? currentValues.filter((v: string) => v !== key)
-                                        : [...currentValues, key];
+                        <ChoiceTip description={getChoiceDescription(option, key)}>
+                            <Label>
+                                <Checkbox
+                                    checked={isChecked}
+                                    disabled={disabled}
+                                    onChange={() => {
+                                        if (disabled) return;
+                                        const newValues = isChecked
+                                            ? currentValues.filter((v: string) => v !== key)
+                                            : [...currentValues, key];
 
-                                    set(
-                                        new BasicOptions(
-                                            options.options.map((opt, idx) =>
-                                                idx === optionIndex ? { ...opt, value: newValues } : opt,
-                                            ) as any,
-                                        ),
-                                    );
-                                }}
-                            />
-                            {label}
-                        </Label>
+                                        set(
+                                            new BasicOptions(
+                                                options.options.map((opt, idx) =>
+                                                    idx === optionIndex ? { ...opt, value: newValues } : opt,
+                                                ) as any,
+                                                options.metadata,
+                                                options.kinds,
+                                            ),
+                                        );
+                                    }}
+                                />
+                                {label}
+                            </Label>
+                        </ChoiceTip>
                     </div>
                 );
             })}
+            {option.allowOther && (
+                <div className={styles.choiceItem}>
+                    <Label>
+                        <Checkbox
+                            checked={otherChecked}
+                            disabled={disabled}
+                            onChange={() => {
+                                if (disabled) return;
+                                const newValues = otherChecked
+                                    ? selectedValues.filter((v: string) => v !== OTHER_OPTION_KEY)
+                                    : [...selectedValues, OTHER_OPTION_KEY];
+
+                                set(
+                                    new BasicOptions(
+                                        options.options.map((opt, idx) =>
+                                            idx === optionIndex ? { ...opt, value: newValues } : opt,
+                                        ) as any,
+                                        options.metadata,
+                                        options.kinds,
+                                    ),
+                                );
+                            }}
+                        />
+                        Other
+                    </Label>
+                    <DraftInput
+                        className={styles.otherInput}
+                        size="small"
+                        value={option.otherValue ?? ""}
+                        placeholder="Type your own…"
+                        disabled={disabled}
+                        aria-label={`${option.label}: other`}
+                        onCommit={(text) => {
+                            if (disabled) return;
+                            // Typing an answer implies the "Other" entry is selected
+                            const newValues =
+                                otherChecked || !text ? selectedValues : [...selectedValues, OTHER_OPTION_KEY];
+                            set(
+                                new BasicOptions(
+                                    options.options.map((opt, idx) =>
+                                        idx === optionIndex ? { ...opt, value: newValues, otherValue: text } : opt,
+                                    ) as any,
+                                    options.metadata,
+                                    options.kinds,
+                                ),
+                            );
+                        }}
+                    />
+                </div>
+            )}
         </div>
     );
 };
@@ -208,7 +372,11 @@ const BinaryOption: React.FC<BinaryOptionProps> = ({ option, optionIndex, option
 
     return (
         <div className={styles.toggleContainer}>
-            <Label className={styles.toggleLabel}>{isEnabled ? option.options.enabled : option.options.disabled}</Label>
+            <ChoiceTip description={getChoiceDescription(option, option.value)}>
+                <Label className={styles.toggleLabel}>
+                    {isEnabled ? option.options.enabled : option.options.disabled}
+                </Label>
+            </ChoiceTip>
             <Switch
                 checked={isEnabled}
                 disabled={disabled}
@@ -220,6 +388,8 @@ const BinaryOption: React.FC<BinaryOptionProps> = ({ option, optionIndex, option
                             options.options.map((opt, idx) =>
                                 idx === optionIndex ? { ...opt, value: newValue } : opt,
                             ) as any,
+                            options.metadata,
+                            options.kinds,
                         ),
                     );
                 }}
@@ -228,45 +398,231 @@ const BinaryOption: React.FC<BinaryOptionProps> = ({ option, optionIndex, option
     );
 };
 
-interface CanvasOptionProps {
+interface SliderOptionProps {
+    option: SliderControl;
+    optionIndex: number;
+    options: BasicOptions;
+    set: (options: BasicOptions) => void;
+    disabled: boolean;
+}
+
+const SliderOption: React.FC<SliderOptionProps> = ({ option, optionIndex, options, set, disabled }) => {
+    const styles = useStyles();
+    const { draft, setDraft, commit } = useSliderDraft(option.value, (value) => {
+        if (disabled) return;
+        set(
+            new BasicOptions(
+                options.options.map((opt, idx) => (idx === optionIndex ? { ...opt, value } : opt)) as any,
+                options.metadata,
+                options.kinds,
+            ),
+        );
+    });
+
+    return (
+        <div className={styles.sliderContainer}>
+            <Slider
+                className={styles.slider}
+                min={option.min}
+                max={option.max}
+                step={option.step ?? 1}
+                value={draft}
+                disabled={disabled}
+                aria-label={option.label}
+                onChange={(_, data) => setDraft(data.value)}
+                onPointerUp={commit}
+                onKeyUp={commit}
+                onBlur={commit}
+            />
+            <Text className={styles.sliderValue}>{formatNumericValue(draft, option.unit)}</Text>
+        </div>
+    );
+};
+
+interface RangeOptionProps {
+    option: RangeControl;
+    optionIndex: number;
+    options: BasicOptions;
+    set: (options: BasicOptions) => void;
+    disabled: boolean;
+}
+
+const RangeOption: React.FC<RangeOptionProps> = ({ option, optionIndex, options, set, disabled }) => {
+    const styles = useStyles();
+    const { draft, setDraft, commit } = useSliderDraft(option.value, (value) => {
+        if (disabled) return;
+        set(
+            new BasicOptions(
+                options.options.map((opt, idx) => (idx === optionIndex ? { ...opt, value } : opt)) as any,
+                options.metadata,
+                options.kinds,
+            ),
+        );
+    });
+    const [low, high] = draft;
+
+    const setBound = (bound: 0 | 1, value: number) => {
+        // Keep the bounds ordered so the lower handle can never pass the upper one
+        setDraft(bound === 0 ? [Math.min(value, high), high] : [low, Math.max(value, low)]);
+    };
+
+    return (
+        <div className={styles.rangeContainer}>
+            <div className={styles.sliderContainer}>
+                <Label className={styles.sliderBoundLabel}>From</Label>
+                <Slider
+                    className={styles.slider}
+                    min={option.min}
+                    max={option.max}
+                    step={option.step ?? 1}
+                    value={low}
+                    disabled={disabled}
+                    aria-label={`${option.label} minimum`}
+                    onChange={(_, data) => setBound(0, data.value)}
+                    onPointerUp={commit}
+                    onKeyUp={commit}
+                    onBlur={commit}
+                />
+                <Text className={styles.sliderValue}>{formatNumericValue(low, option.unit)}</Text>
+            </div>
+            <div className={styles.sliderContainer}>
+                <Label className={styles.sliderBoundLabel}>To</Label>
+                <Slider
+                    className={styles.slider}
+                    min={option.min}
+                    max={option.max}
+                    step={option.step ?? 1}
+                    value={high}
+                    disabled={disabled}
+                    aria-label={`${option.label} maximum`}
+                    onChange={(_, data) => setBound(1, data.value)}
+                    onPointerUp={commit}
+                    onKeyUp={commit}
+                    onBlur={commit}
+                />
+                <Text className={styles.sliderValue}>{formatNumericValue(high, option.unit)}</Text>
+            </div>
+        </div>
+    );
+};
+
+interface TextInputOptionProps {
+    option: TextInputControl;
+    optionIndex: number;
+    options: BasicOptions;
+    set: (options: BasicOptions) => void;
+    disabled: boolean;
+}
+
+const TextInputOption: React.FC<TextInputOptionProps> = ({ option, optionIndex, options, set, disabled }) => {
+    const styles = useStyles();
+
+    return (
+        <DraftInput
+            className={styles.textInput}
+            value={option.value}
+            placeholder={option.placeholder}
+            multiline={option.multiline}
+            disabled={disabled}
+            aria-label={option.label}
+            onCommit={(text) => {
+                if (disabled) return;
+                set(
+                    new BasicOptions(
+                        options.options.map((opt, idx) => (idx === optionIndex ? { ...opt, value: text } : opt)) as any,
+                        options.metadata,
+                        options.kinds,
+                    ),
+                );
+            }}
+        />
+    );
+};
+
+export interface CanvasOptionProps {
     option: CanvasControl;
+    optionIndex: number;
+    options: BasicOptions;
+    set: (options: BasicOptions) => void;
+    disabled: boolean;
 }
 
-const CanvasOption: React.FC<CanvasOptionProps> = ({ option }) => {
+// Canvas documents are assembled here, so the pipeline's syntax fixes would only risk rewriting the setup script
+const CANVAS_POST_PROCESS: PostProcessorConfig = { fixSyntaxErrors: false };
+
+function canvasDocument(option: CanvasControl, theme: ResolvedTheme): string {
+    return `<!DOCTYPE html>
+<html class="${theme}">
+<head>
+    <script src="https://cdn.tailwindcss.com"></script>
+    <link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;600&display=swap" rel="stylesheet">
+    <style>
+        body { font-family: 'Inter', sans-serif; margin: 0; padding: 20px; background: Canvas; color: CanvasText; }
+        * { transition: all 0.2s ease-in-out; }
+    </style>
+</head>
+<body>
+    ${option.code}
+    ${option.setup ? `<script>${option.setup}</script>` : ""}
+</body>
+</html>`;
+}
+
+/**
+ * Model-written HTML runs in a sandboxed `srcdoc` iframe without `allow-same-origin`, so it can never reach
+ * the app's cookies or stored API keys. What the user does inside it comes back through `window.promptions`
+ * and is folded into the control's `value`.
+ */
+export const CanvasOption: React.FC<CanvasOptionProps> = ({ option, optionIndex, options, set, disabled }) => {
     const styles = useStyles();
-    const iframeRef = React.useRef<HTMLIFrameElement>(null);
+    const sandboxLevel = useCanvasSandboxLevel();
+    const { resolved: theme } = useTheme();
+    const frameRef = React.useRef<HTMLIFrameElement>(null);
+    const code = React.useMemo(() => canvasDocument(option, theme), [option.code, option.setup, theme]);
+    // State the canvas already knows about, so only changes made elsewhere (e.g. an undo) are posted back to it
+    const knownState = React.useRef("");
+    // Messages can arrive faster than the options re-render, so keep building on the last control produced
+    const pending = React.useRef<{ base: CanvasControl; control: CanvasControl } | null>(null);
+
+    // The document only changes with the code or theme; later state reaches the running canvas as a message instead
+    const bridge = React.useMemo(() => {
+        knownState.current = JSON.stringify(option.value ?? {});
+        return canvasBridgeScript(option.value ?? {}, theme);
+    }, [option.code, option.setup, theme]);
+
+    useCanvasBridge(frameRef, (message) => {
+        if (disabled) return;
+        const current = pending.current?.base === option ? pending.current.control : option;
+        const updated = applyCanvasMessage(current, message);
+        pending.current = { base: option, control: updated };
+        knownState.current = JSON.stringify(updated.value ?? {});
+        set(
+            new BasicOptions(
+                options.options.map((opt, idx) => (idx === optionIndex ? updated : opt)) as any,
+                options.metadata,
+                options.kinds,
+            ),
+        );
+    });
 
     React.useEffect(() => {
-        if (iframeRef.current) {
-            const doc = iframeRef.current.contentDocument;
-            if (doc) {
-                const content = `
-                <!DOCTYPE html>
-                <html>
-                <head>
-                    <script src="https://cdn.tailwindcss.com"></script>
-                    <link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;600&display=swap" rel="stylesheet">
-                    <style>
-                        body { font-family: 'Inter', sans-serif; margin: 0; padding: 20px; }
-                        * { transition: all 0.2s ease-in-out; }
-                    </style>
-                </head>
-                <body>
-                    ${option.code}
-                    ${option.setup ? `<script>${option.setup}</script>` : ""}
-                </body>
-                </html>
-                `;
-                doc.open();
-                doc.write(content);
-                doc.close();
-            }
+        const state = JSON.stringify(option.value ?? {});
+        if (state !== knownState.current) {
+            knownState.current = state;
+            postCanvasState(frameRef.current, option.value ?? {});
         }
-    }, [option.code, option.setup]);
+    }, [option.value]);
 
     return (
         <div className={styles.canvasContainer}>
-            <iframe ref={iframeRef} title={option.label} className={styles.canvasFrame} />
+            <CodeRenderer
+                code={code}
+                sandboxLevel={sandboxLevel}
+                postProcessConfig={CANVAS_POST_PROCESS}
+                trustedScript={bridge}
+                frameRef={frameRef}
+                title={option.label}
+            />
         </div>
     );
 };
@@ -287,12 +643,18 @@ const MessageOptions: OptionRenderer = ({ options, set, disabled = false }) => {
                     <Text className={styles.thoughtTitle}>
                         System Reasoning
                     </Text>
-                    <Text>{metadata.thought}</Text>
+                    <Text>
+                        {metadata.thought}
+                        {metadata.thoughtStreaming && <span className={styles.thoughtCursor} aria-hidden />}
+                    </Text>
                 </div>
             )}
-            {options.options.map((option: any, optionIndex: number) => (
-                <div key={optionIndex} className={styles.optionGroup}>
+            <MergeSummary report={metadata.merge} />
+            {/* Hidden controls keep their slot so optionIndex still addresses options.options */}
+            {options.options.map((option: any, optionIndex: number) => options.isControlVisible(option) && (
+                <div key={option.id ?? optionIndex} className={styles.optionGroup}>
                     <Text className={styles.optionLabel}>{option.label}</Text>
+                    <ControlDetails option={option} options={options} />
 
                     {option.kind === "single-select" ? (
                         <SingleSelectOption
@@ -311,7 +673,46 @@ const MessageOptions: OptionRenderer = ({ options, set, disabled = false }) => {
                             disabled={disabled}
                         />
                     ) : option.kind === "canvas" ? (
-                        <CanvasOption option={option} />
+                        <CanvasOption
+                            option={option}
+                            optionIndex={optionIndex}
+                            options={options}
+                            set={set}
+                            disabled={disabled}
+                        />
+                    ) : option.kind === "slider" ? (
+                        <SliderOption
+                            option={option}
+                            optionIndex={optionIndex}
+                            options={options}
+                            set={set}
+                            disabled={disabled}
+                        />
+                    ) : option.kind === "range" ? (
+                        <RangeOption
+                            option={option}
+                            optionIndex={optionIndex}
+                            options={options}
+                            set={set}
+                            disabled={disabled}
+                        />
+                    ) : option.kind === "text-input" ? (
+                        <TextInputOption
+                            option={option}
+                            optionIndex={optionIndex}
+                            options={options}
+                            set={set}
+                            disabled={disabled}
+                        />
+                    ) : options.kinds.has(option.kind) ? (
+                        <CustomControlOption
+                            option={option}
+                            optionIndex={optionIndex}
+                            options={options}
+                            set={set}
+                            disabled={disabled}
+                            compact={false}
+                        />
                     ) : (
                         <MultiSelectOption
                             option={option}
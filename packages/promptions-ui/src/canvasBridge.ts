@@ -0,0 +1,82 @@
+import React from "react";
+import {
+    CANVAS_HOST_SOURCE,
+    CANVAS_MESSAGE_SOURCE,
+    CanvasMessage,
+    parseCanvasMessage,
+} from "@promptions/promptions-llm";
+
+/**
+ * The script that defines `window.promptions` inside a canvas iframe, seeded with the canvas's current state and
+ * the app's theme. It is host code, so it is added after the model's code has been sanitized.
+ */
+export function canvasBridgeScript(state: Record<string, unknown>, theme: "light" | "dark" = "light"): string {
+    // Escape "<" so state containing "</script>" cannot end the script early
+    const initialState = JSON.stringify(state).replace(/</g, "\\u003c");
+    return `<script>
+(function () {
+    var state = ${initialState};
+    var listeners = [];
+    function post(message) {
+        message.source = ${JSON.stringify(CANVAS_MESSAGE_SOURCE)};
+        window.parent.postMessage(message, "*");
+    }
+    window.addEventListener("message", function (event) {
+        var data = event.data;
+        if (event.source !== window.parent || !data || data.source !== ${JSON.stringify(CANVAS_HOST_SOURCE)}) return;
+        if (data.type !== "state") return;
+        state = data.state || {};
+        listeners.slice().forEach(function (listener) {
+            try { listener(state); } catch (error) { console.error(error); }
+        });
+    });
+    window.promptions = Object.freeze({
+        get state() { return state; },
+        theme: ${JSON.stringify(theme)},
+        setValue: function (key, value) {
+            state = Object.assign({}, state);
+            state[String(key)] = value;
+            post({ type: "setValue", key: String(key), value: value });
+        },
+        emit: function (event, payload) {
+            post({ type: "emit", event: String(event), payload: payload });
+        },
+        onChange: function (listener) {
+            listeners.push(listener);
+            return function () { listeners = listeners.filter(function (l) { return l !== listener; }); };
+        },
+    });
+})();
+</script>`;
+}
+
+/**
+ * Deliver valid `window.promptions` messages from the given canvas iframe. Messages from any other window,
+ * and malformed ones, are dropped.
+ */
+export function useCanvasBridge(
+    frameRef: React.RefObject<HTMLIFrameElement>,
+    onMessage: (message: CanvasMessage) => void,
+): void {
+    const handler = React.useRef(onMessage);
+    handler.current = onMessage;
+
+    React.useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            // Sandboxed frames have an opaque origin, so the sending window is what identifies the canvas
+            if (!frameRef.current || event.source !== frameRef.current.contentWindow) return;
+            const message = parseCanvasMessage(event.data);
+            if (message) handler.current(message);
+        };
+
+        window.addEventListener("message", handleMessage);
+        return () => window.removeEventListener("message", handleMessage);
+    }, [frameRef]);
+}
+
+/**
+ * Replace the state seen by the canvas, e.g. after the control's value was changed by an undo.
+ */
+export function postCanvasState(frame: HTMLIFrameElement | null, state: Record<string, unknown>): void {
+    frame?.contentWindow?.postMessage({ source: CANVAS_HOST_SOURCE, type: "state", state }, "*");
+}
@@ -0,0 +1,28 @@
+import React from "react";
+import { SANDBOX_LEVELS, SandboxLevel } from "./codegen";
+
+/** Scripts run, isolated from the host page */
+export const DEFAULT_CANVAS_SANDBOX_LEVEL: SandboxLevel = "moderate";
+
+const CanvasSandboxContext = React.createContext<SandboxLevel>(DEFAULT_CANVAS_SANDBOX_LEVEL);
+
+/**
+ * Set the sandbox level of canvas controls rendered below. Deployments that only need static canvases can
+ * choose "strict" to disable scripts entirely.
+ */
+export const CanvasSandboxProvider: React.FC<{ level: SandboxLevel; children: React.ReactNode }> = ({
+    level,
+    children,
+}) => <CanvasSandboxContext.Provider value={level}>{children}</CanvasSandboxContext.Provider>;
+
+export function useCanvasSandboxLevel(): SandboxLevel {
+    return React.useContext(CanvasSandboxContext);
+}
+
+/**
+ * Read a sandbox level from deployment configuration such as an environment variable, falling back to the
+ * default for missing or unknown values.
+ */
+export function parseSandboxLevel(value: string | undefined): SandboxLevel {
+    return SANDBOX_LEVELS.find((level) => level === value?.trim().toLowerCase()) ?? DEFAULT_CANVAS_SANDBOX_LEVEL;
+}
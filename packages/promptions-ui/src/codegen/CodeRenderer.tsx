@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useRef, useCallback } from "react";
 import parse, { DOMNode, Element } from "html-react-parser";
-import { postProcess, validateHtml, ValidationResult } from "./postProcessor";
+import { tokens } from "@fluentui/react-components";
+import { useTheme } from "../theme";
+import { postProcess, validateHtml, PostProcessorConfig, ValidationResult } from "./postProcessor";
 
 /**
  * Sandbox permission levels for different security contexts:
@@ -21,12 +23,34 @@ const ALLOWED_SCRIPT_CDNS = [
   "cdnjs.cloudflare.com",
 ];
 
+// Content Security Policy for sandboxed documents, set both as a meta tag and on the iframe
+const SANDBOX_CSP = `default-src 'self' 'unsafe-inline' data: blob:; script-src 'unsafe-inline' ${ALLOWED_SCRIPT_CDNS.map(cdn => `https://${cdn}`).join(" ")}; style-src 'unsafe-inline' https://cdn.tailwindcss.com https://fonts.googleapis.com; font-src https://fonts.gstatic.com data:; img-src * data: blob:; connect-src 'none';`;
+
+export const SANDBOX_LEVELS: ReadonlyArray<SandboxLevel> = ["strict", "moderate", "permissive"];
+
 interface CodeRendererProps {
   code: string;
   onError?: (error: Error) => void;
   onValidation?: (result: ValidationResult) => void;
+  /** Called with a description of each piece of content the sanitizer removed */
+  onBlocked?: (blocked: string[]) => void;
   sandbox?: boolean;
   sandboxLevel?: SandboxLevel;
+  /** Overrides for the post-processing pipeline, e.g. to skip syntax fixes for documents that are already whole */
+  postProcessConfig?: PostProcessorConfig;
+  /** Accessible title of the sandbox iframe */
+  title?: string;
+  /**
+   * Host-authored script added to the sandboxed document's head after sanitization, e.g. an API for talking to
+   * the host. It is trusted as is, so it must never contain model output other than escaped data.
+   */
+  trustedScript?: string;
+  frameRef?: React.Ref<HTMLIFrameElement>;
+  /**
+   * Color scheme of the sandboxed document, the app's theme by default. The document gets a matching
+   * `color-scheme` and a `data-theme` attribute on its root, so system colors and `prefers-color-scheme` follow it.
+   */
+  theme?: "light" | "dark";
   className?: string;
   style?: React.CSSProperties;
 }
@@ -36,6 +60,13 @@ interface RenderState {
   isLoading: boolean;
   error: string | null;
   validation: ValidationResult | null;
+  blocked: string[];
+}
+
+interface SanitizeResult {
+  html: string;
+  /** Human readable description of everything removed, e.g. "script from evil.example" */
+  blocked: string[];
 }
 
 // Get sandbox attribute based on level
@@ -56,9 +87,10 @@ function getSandboxAttribute(level: SandboxLevel): string {
 }
 
 // Sanitize HTML to only allow scripts from whitelisted CDNs
-function sanitizeScripts(html: string): string {
+function sanitizeScripts(html: string): SanitizeResult {
   // Remove inline scripts with dangerous patterns
   let sanitized = html;
+  const blocked = new Set<string>();
 
   // Remove scripts that try to access parent/top/opener
   const dangerousPatterns = [
@@ -75,7 +107,10 @@ function sanitizeScripts(html: string): string {
   ];
 
   for (const pattern of dangerousPatterns) {
-    sanitized = sanitized.replace(pattern, "/* BLOCKED */");
+    sanitized = sanitized.replace(pattern, (match) => {
+      blocked.add(`use of ${match.replace(/\s+/g, "")}`);
+      return "/* BLOCKED */";
+    });
   }
 
   // Remove external scripts not from allowed CDNs
@@ -88,42 +123,57 @@ function sanitizeScripts(html: string): string {
         if (ALLOWED_SCRIPT_CDNS.some(cdn => hostname === cdn || hostname.endsWith(`.${cdn}`))) {
           return match;
         }
+        blocked.add(`script from ${hostname}`);
         return `<!-- BLOCKED: script from ${hostname} -->`;
       } catch {
+        blocked.add("script with an invalid src");
         return `<!-- BLOCKED: invalid script src -->`;
       }
     }
   );
 
-  return sanitized;
+  return { html: sanitized, blocked: [...blocked] };
 }
 
 export function CodeRenderer({
   code,
   onError,
   onValidation,
+  onBlocked,
   sandbox = true,
   sandboxLevel = "moderate",
+  postProcessConfig,
+  title = "Generated Application",
+  trustedScript,
+  frameRef,
+  theme: themeOverride,
   className,
   style,
 }: CodeRendererProps) {
+  const { resolved: appTheme } = useTheme();
+  const theme = themeOverride ?? appTheme;
   const containerRef = useRef<HTMLDivElement>(null);
   const [state, setState] = useState<RenderState>({
     html: "",
     isLoading: true,
     error: null,
     validation: null,
+    blocked: [],
   });
 
   // Process and validate code
   useEffect(() => {
     try {
       // Post-process the code
-      let processedCode = postProcess(code);
+      let processedCode = postProcess(code, postProcessConfig);
 
       // Apply additional script sanitization for security
+      let blocked: string[] = [];
       if (sandbox) {
-        processedCode = sanitizeScripts(processedCode);
+        ({ html: processedCode, blocked } = sanitizeScripts(processedCode));
+        if (blocked.length > 0) {
+          onBlocked?.(blocked);
+        }
       }
 
       // Validate
@@ -137,6 +187,7 @@ export function CodeRenderer({
           isLoading: false,
           error: `Validation failed: ${validation.errors.join(", ")}`,
           validation,
+          blocked,
         }));
         return;
       }
@@ -145,12 +196,17 @@ export function CodeRenderer({
       let finalHtml = processedCode;
       if (sandbox) {
         // Add CSP meta tag for additional protection
-        const cspMeta = `<meta http-equiv="Content-Security-Policy" content="default-src 'self' 'unsafe-inline' data: blob:; script-src 'unsafe-inline' ${ALLOWED_SCRIPT_CDNS.map(cdn => `https://${cdn}`).join(" ")}; style-src 'unsafe-inline' https://cdn.tailwindcss.com https://fonts.googleapis.com; font-src https://fonts.gstatic.com data:; img-src * data: blob:; connect-src 'none';">`;
+        const cspMeta = `<meta http-equiv="Content-Security-Policy" content="${SANDBOX_CSP}">`;
+        const themeMeta = theme ? `<meta name="color-scheme" content="${theme}">` : "";
 
+        // A replacer function, so `$&` and the like in the canvas state are not read as replacement patterns
         finalHtml = processedCode.replace(
           /<head>/i,
-          `<head>${cspMeta}`
+          () => `<head>${cspMeta}${themeMeta}${trustedScript ?? ""}`
         );
+        if (theme) {
+          finalHtml = finalHtml.replace(/<html\b/i, `<html data-theme="${theme}"`);
+        }
 
         // Wrap content in isolated container
         finalHtml = `
@@ -170,6 +226,7 @@ export function CodeRenderer({
         isLoading: false,
         error: null,
         validation,
+        blocked,
       });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Unknown error";
@@ -180,7 +237,7 @@ export function CodeRenderer({
       }));
       onError?.(error instanceof Error ? error : new Error(errorMessage));
     }
-  }, [code, sandbox, sandboxLevel, onError, onValidation]);
+  }, [code, sandbox, sandboxLevel, postProcessConfig, trustedScript, theme, onError, onValidation, onBlocked]);
 
   // Options for html-react-parser (used in non-sandbox mode)
   const parseOptions = {
@@ -217,14 +274,14 @@ export function CodeRenderer({
           alignItems: "center",
           justifyContent: "center",
           minHeight: "200px",
-          backgroundColor: "#f3f4f6",
+          backgroundColor: tokens.colorNeutralBackground3,
           borderRadius: "8px",
         }}>
           <div style={{
             width: "40px",
             height: "40px",
-            border: "3px solid #e5e7eb",
-            borderTopColor: "#3b82f6",
+            border: `3px solid ${tokens.colorNeutralStroke2}`,
+            borderTopColor: tokens.colorBrandStroke1,
             borderRadius: "50%",
             animation: "spin 1s linear infinite",
           }} />
@@ -239,15 +296,15 @@ export function CodeRenderer({
       <div className={className} style={style}>
         <div style={{
           padding: "16px",
-          backgroundColor: "#fef2f2",
-          border: "1px solid #ef4444",
+          backgroundColor: tokens.colorStatusDangerBackground1,
+          border: `1px solid ${tokens.colorStatusDangerBorder1}`,
           borderRadius: "8px",
-          color: "#dc2626",
+          color: tokens.colorStatusDangerForeground1,
         }}>
           <strong>Error rendering code:</strong>
           <p>{state.error}</p>
           {state.validation?.warnings.length ? (
-            <div style={{ marginTop: "8px", fontSize: "14px", color: "#7f1d1d" }}>
+            <div style={{ marginTop: "8px", fontSize: "14px" }}>
               <strong>Warnings:</strong>
               <ul style={{ margin: "4px 0 0 16px" }}>
                 {state.validation.warnings.map((w, i) => (
@@ -258,7 +315,7 @@ export function CodeRenderer({
           ) : null}
         </div>
         <details style={{ marginTop: "8px" }}>
-          <summary style={{ cursor: "pointer", color: "#6b7280" }}>
+          <summary style={{ cursor: "pointer", color: tokens.colorNeutralForeground3 }}>
             View raw code
           </summary>
           <pre style={{
@@ -286,24 +343,50 @@ export function CodeRenderer({
       style={style}
       data-code-renderer="true"
     >
+      {state.blocked.length > 0 && (
+        <details
+          role="status"
+          style={{
+            marginBottom: "8px",
+            padding: "8px 12px",
+            backgroundColor: tokens.colorStatusWarningBackground1,
+            border: `1px solid ${tokens.colorStatusWarningBorder1}`,
+            borderRadius: "8px",
+            color: tokens.colorStatusWarningForeground1,
+            fontSize: "13px",
+          }}
+        >
+          <summary style={{ cursor: "pointer" }}>
+            Blocked {state.blocked.length} unsafe {state.blocked.length === 1 ? "item" : "items"}; parts of this content may not work
+          </summary>
+          <ul style={{ margin: "4px 0 0 16px" }}>
+            {state.blocked.map((item) => (
+              <li key={item}>{item}</li>
+            ))}
+          </ul>
+        </details>
+      )}
       {/* Use iframe for sandboxing when enabled */}
       {sandbox ? (
         <iframe
+          ref={frameRef}
           srcDoc={state.html}
           style={{
             width: "100%",
             minHeight: "400px",
             border: "none",
             borderRadius: "8px",
+            // The frame's prefers-color-scheme follows the color scheme of the iframe element itself
+            colorScheme: theme,
           }}
-          title="Generated Application"
+          title={title}
           // SECURITY: No allow-same-origin - isolates iframe from parent completely
           sandbox={sandboxAttr}
           // Disable referrer for privacy
           referrerPolicy="no-referrer"
           // Block top-level navigation attempts
           // @ts-expect-error - csp attribute is valid but not in React types
-          csp="default-src 'self' 'unsafe-inline'; script-src 'unsafe-inline'"
+          csp={SANDBOX_CSP}
         />
       ) : (
         <div className="code-renderer-content">
@@ -325,15 +408,16 @@ export function useCodeRenderer() {
       let processedCode = postProcess(rawCode);
 
       // Apply script sanitization if sandboxing
+      let blocked: string[] = [];
       if (options?.sandbox !== false) {
-        processedCode = sanitizeScripts(processedCode);
+        ({ html: processedCode, blocked } = sanitizeScripts(processedCode));
       }
 
       const result = validateHtml(processedCode);
       setValidation(result);
       setError(result.valid ? null : result.errors.join(", "));
       setCode(processedCode);
-      return { html: processedCode, validation: result };
+      return { html: processedCode, validation: result, blocked };
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : "Unknown error";
       setError(errorMessage);
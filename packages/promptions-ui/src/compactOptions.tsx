@@ -11,6 +11,8 @@ import {
     Tag,
     TagGroup,
     Button,
+    Slider,
+    SpinButton,
 } from "@fluentui/react-components";
 import { Dismiss12Regular } from "@fluentui/react-icons";
 import {
@@ -18,9 +20,21 @@ import {
     SingleOptionControl,
     MultiOptionControl,
     BinaryOptionControl,
+    SliderControl,
+    RangeControl,
+    TextInputControl,
+    OTHER_OPTION_KEY,
+    formatNumericValue,
+    getChoiceLabel,
+    getChoiceDescription,
     basicOptionSet as b,
 } from "@promptions/promptions-llm";
 import { VisualOptionSet, OptionRenderer } from "./types";
+import { MergeSummary } from "./mergeSummary";
+import { CustomControlOption } from "./customControl";
+import { DraftInput } from "./draftInput";
+import { useSliderDraft } from "./sliderDraft";
+import { ChoiceText, ChoiceTip, ControlInfoTip } from "./controlInfo";
 
 const useStyles = makeStyles({
     optionsContainer: {
@@ -65,12 +79,41 @@ const useStyles = makeStyles({
     },
     dropdownContainer: {
         minWidth: "200px",
+        display: "flex",
+        flexDirection: "column",
+        gap: tokens.spacingVerticalXS,
     },
     multiSelectContainer: {
         display: "flex",
         flexDirection: "column",
         gap: tokens.spacingVerticalS,
     },
+    sliderContainer: {
+        display: "flex",
+        alignItems: "center",
+        gap: tokens.spacingHorizontalS,
+    },
+    sliderValue: {
+        fontSize: tokens.fontSizeBase200,
+        color: tokens.colorNeutralForeground1,
+        fontVariantNumeric: "tabular-nums",
+        whiteSpace: "nowrap",
+    },
+    rangeContainer: {
+        display: "flex",
+        alignItems: "center",
+        gap: tokens.spacingHorizontalXS,
+    },
+    rangeInput: {
+        width: "88px",
+    },
+    rangeUnit: {
+        fontSize: tokens.fontSizeBase200,
+        color: tokens.colorNeutralForeground3,
+    },
+    textInput: {
+        width: "100%",
+    },
     selectedTags: {
         marginTop: tokens.spacingVerticalXS,
         display: "flex",
@@ -102,7 +145,7 @@ const CompactSingleSelectOption: React.FC<CompactSingleSelectOptionProps> = ({
     return (
         <div className={styles.dropdownContainer}>
             <Dropdown
-                value={option.options[currentValue] || currentValue}
+                value={getChoiceLabel(option, currentValue)}
                 selectedOptions={[currentValue]}
                 disabled={disabled}
                 onOptionSelect={(_, data) => {
@@ -114,17 +157,41 @@ const CompactSingleSelectOption: React.FC<CompactSingleSelectOptionProps> = ({
                                 options.options.map((opt, idx) =>
                                     idx === optionIndex ? { ...opt, value: selectedValue } : opt,
                                 ) as any,
+                                options.metadata,
+                                options.kinds,
                             ),
                         );
                     }
                 }}
             >
                 {optionEntries.map(([key, label]) => (
-                    <Option key={key} value={key}>
-                        {label as string}
+                    <Option key={key} value={key} text={label}>
+                        <ChoiceText label={label} description={getChoiceDescription(option, key)} />
                     </Option>
                 ))}
+                {option.allowOther && <Option value={OTHER_OPTION_KEY}>Other…</Option>}
             </Dropdown>
+            {option.allowOther && currentValue === OTHER_OPTION_KEY && (
+                <DraftInput
+                    size="small"
+                    value={option.otherValue ?? ""}
+                    placeholder="Type your own…"
+                    disabled={disabled}
+                    aria-label={`${option.label}: other`}
+                    onCommit={(text) => {
+                        if (disabled) return;
+                        set(
+                            new BasicOptions(
+                                options.options.map((opt, idx) =>
+                                    idx === optionIndex ? { ...opt, otherValue: text } : opt,
+                                ) as any,
+                                options.metadata,
+                                options.kinds,
+                            ),
+                        );
+                    }}
+                />
+            )}
         </div>
     );
 };
@@ -155,7 +222,7 @@ const CompactMultiSelectOption: React.FC<CompactMultiSelectOptionProps> = ({
                 placeholder="Select options..."
                 disabled={disabled}
                 selectedOptions={currentValues}
-                value={currentValues.map((val: string) => option.options[val] || val).join(", ")}
+                value={currentValues.map((val: string) => getChoiceLabel(option, val)).join(", ")}
                 onOptionSelect={(_, data) => {
                     if (disabled) return;
                     const selectedValue = data.optionValue;
@@ -170,23 +237,48 @@ const CompactMultiSelectOption: React.FC<CompactMultiSelectOptionProps> = ({
                                 options.options.map((opt, idx) =>
                                     idx === optionIndex ? { ...opt, value: newValues } : opt,
                                 ) as any,
+                                options.metadata,
+                                options.kinds,
                             ),
                         );
                     }
                 }}
             >
                 {optionEntries.map(([key, label]) => (
-                    <Option key={key} value={key}>
-                        {label as string}
+                    <Option key={key} value={key} text={label}>
+                        <ChoiceText label={label} description={getChoiceDescription(option, key)} />
                     </Option>
                 ))}
+                {option.allowOther && <Option value={OTHER_OPTION_KEY}>Other…</Option>}
             </Combobox>
 
+            {option.allowOther && currentValues.includes(OTHER_OPTION_KEY) && (
+                <DraftInput
+                    size="small"
+                    value={option.otherValue ?? ""}
+                    placeholder="Type your own…"
+                    disabled={disabled}
+                    aria-label={`${option.label}: other`}
+                    onCommit={(text) => {
+                        if (disabled) return;
+                        set(
+                            new BasicOptions(
+                                options.options.map((opt, idx) =>
+                                    idx === optionIndex ? { ...opt, otherValue: text } : opt,
+                                ) as any,
+                                options.metadata,
+                                options.kinds,
+                            ),
+                        );
+                    }}
+                />
+            )}
+
             {currentValues.length > 0 && (
                 <TagGroup className={styles.selectedTags}>
                     {currentValues.map((value: string) => (
                         <div key={value} style={{ display: "flex", alignItems: "center", gap: "4px" }}>
-                            <Tag>{option.options[value] || value}</Tag>
+                            <Tag>{getChoiceLabel(option, value)}</Tag>
                             {!disabled && (
                                 <Button
                                     appearance="subtle"
@@ -199,6 +291,8 @@ const CompactMultiSelectOption: React.FC<CompactMultiSelectOptionProps> = ({
                                                 options.options.map((opt, idx) =>
                                                     idx === optionIndex ? { ...opt, value: newValues } : opt,
                                                 ) as any,
+                                                options.metadata,
+                                                options.kinds,
                                             ),
                                         );
                                     }}
@@ -226,7 +320,11 @@ const CompactBinaryOption: React.FC<CompactBinaryOptionProps> = ({ option, optio
 
     return (
         <div className={styles.toggleContainer}>
-            <Label className={styles.toggleLabel}>{isEnabled ? option.options.enabled : option.options.disabled}</Label>
+            <ChoiceTip description={getChoiceDescription(option, option.value)}>
+                <Label className={styles.toggleLabel}>
+                    {isEnabled ? option.options.enabled : option.options.disabled}
+                </Label>
+            </ChoiceTip>
             <Switch
                 checked={isEnabled}
                 disabled={disabled}
@@ -238,6 +336,8 @@ const CompactBinaryOption: React.FC<CompactBinaryOptionProps> = ({ option, optio
                             options.options.map((opt, idx) =>
                                 idx === optionIndex ? { ...opt, value: newValue } : opt,
                             ) as any,
+                            options.metadata,
+                            options.kinds,
                         ),
                     );
                 }}
@@ -246,6 +346,209 @@ const CompactBinaryOption: React.FC<CompactBinaryOptionProps> = ({ option, optio
     );
 };
 
+interface CompactSliderOptionProps {
+    option: SliderControl;
+    optionIndex: number;
+    options: BasicOptions;
+    set: (options: BasicOptions) => void;
+    disabled: boolean;
+}
+
+const CompactSliderOption: React.FC<CompactSliderOptionProps> = ({ option, optionIndex, options, set, disabled }) => {
+    const styles = useStyles();
+    const { draft, setDraft, commit } = useSliderDraft(option.value, (value) => {
+        if (disabled) return;
+        set(
+            new BasicOptions(
+                options.options.map((opt, idx) => (idx === optionIndex ? { ...opt, value } : opt)) as any,
+                options.metadata,
+                options.kinds,
+            ),
+        );
+    });
+
+    return (
+        <div className={styles.sliderContainer}>
+            <Slider
+                size="small"
+                min={option.min}
+                max={option.max}
+                step={option.step ?? 1}
+                value={draft}
+                disabled={disabled}
+                aria-label={option.label}
+                onChange={(_, data) => setDraft(data.value)}
+                onPointerUp={commit}
+                onKeyUp={commit}
+                onBlur={commit}
+            />
+            <Text className={styles.sliderValue}>{formatNumericValue(draft, option.unit)}</Text>
+        </div>
+    );
+};
+
+interface CompactRangeOptionProps {
+    option: RangeControl;
+    optionIndex: number;
+    options: BasicOptions;
+    set: (options: BasicOptions) => void;
+    disabled: boolean;
+}
+
+const CompactRangeOption: React.FC<CompactRangeOptionProps> = ({ option, optionIndex, options, set, disabled }) => {
+    const styles = useStyles();
+    const [low, high] = option.value;
+
+    const setBound = (bound: 0 | 1, value: number | null | undefined) => {
+        if (disabled || value === null || value === undefined || Number.isNaN(value)) return;
+        const clamped = Math.min(option.max, Math.max(option.min, value));
+        // Keep the bounds ordered so the lower value can never pass the upper one
+        const newValue: [number, number] =
+            bound === 0 ? [Math.min(clamped, high), high] : [low, Math.max(clamped, low)];
+        set(
+            new BasicOptions(
+                options.options.map((opt, idx) => (idx === optionIndex ? { ...opt, value: newValue } : opt)) as any,
+                options.metadata,
+                options.kinds,
+            ),
+        );
+    };
+
+    return (
+        <div className={styles.rangeContainer}>
+            <SpinButton
+                className={styles.rangeInput}
+                size="small"
+                min={option.min}
+                max={option.max}
+                step={option.step ?? 1}
+                value={low}
+                disabled={disabled}
+                aria-label={`${option.label} minimum`}
+                onChange={(_, data) => setBound(0, data.value ?? Number(data.displayValue))}
+            />
+            <Text className={styles.rangeUnit}>to</Text>
+            <SpinButton
+                className={styles.rangeInput}
+                size="small"
+                min={option.min}
+                max={option.max}
+                step={option.step ?? 1}
+                value={high}
+                disabled={disabled}
+                aria-label={`${option.label} maximum`}
+                onChange={(_, data) => setBound(1, data.value ?? Number(data.displayValue))}
+            />
+            {option.unit && <Text className={styles.rangeUnit}>{option.unit}</Text>}
+        </div>
+    );
+};
+
+interface CompactTextInputOptionProps {
+    option: TextInputControl;
+    optionIndex: number;
+    options: BasicOptions;
+    set: (options: BasicOptions) => void;
+    disabled: boolean;
+}
+
+const CompactTextInputOption: React.FC<CompactTextInputOptionProps> = ({
+    option,
+    optionIndex,
+    options,
+    set,
+    disabled,
+}) => {
+    const styles = useStyles();
+
+    return (
+        <DraftInput
+            className={styles.textInput}
+            size="small"
+            value={option.value}
+            placeholder={option.placeholder}
+            multiline={option.multiline}
+            disabled={disabled}
+            aria-label={option.label}
+            onCommit={(text) => {
+                if (disabled) return;
+                set(
+                    new BasicOptions(
+                        options.options.map((opt, idx) => (idx === optionIndex ? { ...opt, value: text } : opt)) as any,
+                        options.metadata,
+                        options.kinds,
+                    ),
+                );
+            }}
+        />
+    );
+};
+
+interface CompactControlProps {
+    option: any;
+    optionIndex: number;
+    options: BasicOptions;
+    set: (options: BasicOptions) => void;
+    disabled: boolean;
+}
+
+/**
+ * The compact input for one control of `options`, chosen by its kind. Used on its own by the wizard.
+ */
+export const CompactControl: React.FC<CompactControlProps> = ({ option, optionIndex, options, set, disabled }) =>
+    option.kind === "single-select" ? (
+        <CompactSingleSelectOption
+            option={option}
+            optionIndex={optionIndex}
+            options={options}
+            set={set}
+            disabled={disabled}
+        />
+    ) : option.kind === "binary-select" ? (
+        <CompactBinaryOption
+            option={option}
+            optionIndex={optionIndex}
+            options={options}
+            set={set}
+            disabled={disabled}
+        />
+    ) : option.kind === "slider" ? (
+        <CompactSliderOption
+            option={option}
+            optionIndex={optionIndex}
+            options={options}
+            set={set}
+            disabled={disabled}
+        />
+    ) : option.kind === "range" ? (
+        <CompactRangeOption option={option} optionIndex={optionIndex} options={options} set={set} disabled={disabled} />
+    ) : option.kind === "text-input" ? (
+        <CompactTextInputOption
+            option={option}
+            optionIndex={optionIndex}
+            options={options}
+            set={set}
+            disabled={disabled}
+        />
+    ) : options.kinds.has(option.kind) ? (
+        <CustomControlOption
+            option={option}
+            optionIndex={optionIndex}
+            options={options}
+            set={set}
+            disabled={disabled}
+            compact={true}
+        />
+    ) : (
+        <CompactMultiSelectOption
+            option={option}
+            optionIndex={optionIndex}
+            options={options}
+            set={set}
+            disabled={disabled}
+        />
+    );
+
 const CompactMessageOptions: OptionRenderer = ({ options, set, disabled = false }) => {
     const styles = useStyles();
 
@@ -255,37 +558,26 @@ const CompactMessageOptions: OptionRenderer = ({ options, set, disabled = false
 
     return (
         <div className={styles.optionsContainer}>
-            {options.options.map((option: any, optionIndex: number) => (
-                <div key={optionIndex} className={styles.optionGroup}>
-                    <Label className={styles.optionLabel}>{option.label}</Label>
-
-                    {option.kind === "single-select" ? (
-                        <CompactSingleSelectOption
-                            option={option}
-                            optionIndex={optionIndex}
-                            options={options}
-                            set={set}
-                            disabled={disabled}
-                        />
-                    ) : option.kind === "binary-select" ? (
-                        <CompactBinaryOption
-                            option={option}
-                            optionIndex={optionIndex}
-                            options={options}
-                            set={set}
-                            disabled={disabled}
-                        />
-                    ) : (
-                        <CompactMultiSelectOption
-                            option={option}
-                            optionIndex={optionIndex}
-                            options={options}
-                            set={set}
-                            disabled={disabled}
-                        />
-                    )}
-                </div>
-            ))}
+            <MergeSummary report={options.getMetadata().merge} />
+            {/* Hidden controls keep their slot so optionIndex still addresses options.options */}
+            {options.options.map(
+                (option: any, optionIndex: number) =>
+                    options.isControlVisible(option) && (
+                        <div key={option.id ?? optionIndex} className={styles.optionGroup}>
+                            <Label className={styles.optionLabel}>
+                                {option.label}
+                                <ControlInfoTip option={option} options={options} />
+                            </Label>
+                            <CompactControl
+                                option={option}
+                                optionIndex={optionIndex}
+                                options={options}
+                                set={set}
+                                disabled={disabled}
+                            />
+                        </div>
+                    ),
+            )}
         </div>
     );
 };
@@ -8,6 +8,7 @@ import {
 } from "@fluentui/react-components";
 import { Chat24Regular, Image24Regular } from "@fluentui/react-icons";
 import { ApiKeysSettings, ApiKeys } from "./ApiKeysSettings";
+import { ThemeSwitcher } from "./ThemeSwitcher";
 
 const useStyles = makeStyles({
     header: {
@@ -98,15 +99,16 @@ export function AppHeader({ activeMode, apiKeys, onApiKeysChange, serverHasKeys
                     Image
                 </Tab>
             </TabList>
-            {onApiKeysChange && (
-                <div className={styles.rightSection}>
+            <div className={styles.rightSection}>
+                <ThemeSwitcher />
+                {onApiKeysChange && (
                     <ApiKeysSettings
                         apiKeys={apiKeys || {}}
                         onSave={onApiKeysChange}
                         serverHasKeys={serverHasKeys}
                     />
-                </div>
-            )}
+                )}
+            </div>
         </header>
     );
 }
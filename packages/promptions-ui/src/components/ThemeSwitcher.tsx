@@ -0,0 +1,56 @@
+import React from "react";
+import {
+    Button,
+    Menu,
+    MenuItemRadio,
+    MenuList,
+    MenuPopover,
+    MenuProps,
+    MenuTrigger,
+    Tooltip,
+} from "@fluentui/react-components";
+import { Desktop20Regular, WeatherMoon20Regular, WeatherSunny20Regular } from "@fluentui/react-icons";
+import { ThemeMode, THEME_MODES, parseThemeMode, useTheme } from "../theme";
+
+const themeModeLabels: Record<ThemeMode, string> = {
+    light: "Light",
+    dark: "Dark",
+    system: "System",
+};
+
+const themeModeIcons: Record<ThemeMode, React.ReactElement> = {
+    light: <WeatherSunny20Regular />,
+    dark: <WeatherMoon20Regular />,
+    system: <Desktop20Regular />,
+};
+
+/**
+ * Header button for choosing between the light, dark and system themes.
+ */
+export function ThemeSwitcher() {
+    const { mode, setMode } = useTheme();
+
+    const handleChange: MenuProps["onCheckedValueChange"] = (_event, data) => {
+        const next = parseThemeMode(data.checkedItems[0]);
+        if (next) setMode(next);
+    };
+
+    return (
+        <Menu checkedValues={{ theme: [mode] }} onCheckedValueChange={handleChange}>
+            <MenuTrigger disableButtonEnhancement>
+                <Tooltip content={`Theme: ${themeModeLabels[mode]}`} relationship="label">
+                    <Button appearance="subtle" icon={themeModeIcons[mode]} />
+                </Tooltip>
+            </MenuTrigger>
+            <MenuPopover>
+                <MenuList>
+                    {THEME_MODES.map((option) => (
+                        <MenuItemRadio key={option} name="theme" value={option} icon={themeModeIcons[option]}>
+                            {themeModeLabels[option]}
+                        </MenuItemRadio>
+                    ))}
+                </MenuList>
+            </MenuPopover>
+        </Menu>
+    );
+}
@@ -2,3 +2,4 @@ export { AppHeader } from "./AppHeader";
 export type { AppHeaderProps, AppMode } from "./AppHeader";
 export { ApiKeysSettings } from "./ApiKeysSettings";
 export type { ApiKeys, ApiKeysSettingsProps } from "./ApiKeysSettings";
+export { ThemeSwitcher } from "./ThemeSwitcher";
@@ -0,0 +1,119 @@
+import React from "react";
+import { makeStyles, tokens, Text, Tooltip } from "@fluentui/react-components";
+import { Info16Regular } from "@fluentui/react-icons";
+import type { BasicOptions, OptionControl } from "@promptions/promptions-llm";
+
+const useStyles = makeStyles({
+    details: {
+        display: "flex",
+        flexDirection: "column",
+        gap: tokens.spacingVerticalXXS,
+        marginBottom: tokens.spacingVerticalS,
+    },
+    description: {
+        fontSize: tokens.fontSizeBase200,
+        color: tokens.colorNeutralForeground3,
+    },
+    rationale: {
+        fontSize: tokens.fontSizeBase200,
+        fontStyle: "italic",
+        color: tokens.colorBrandForeground1,
+    },
+    infoIcon: {
+        marginLeft: tokens.spacingHorizontalXS,
+        verticalAlign: "text-bottom",
+        color: tokens.colorNeutralForeground3,
+        cursor: "help",
+    },
+    choiceText: {
+        display: "flex",
+        flexDirection: "column",
+    },
+    choiceDescription: {
+        fontSize: tokens.fontSizeBase100,
+        color: tokens.colorNeutralForeground3,
+    },
+});
+
+interface ControlInfoProps {
+    option: OptionControl;
+    options: BasicOptions;
+}
+
+/**
+ * The control's description and the model's reason for proposing it, as secondary text below its label.
+ * Renders nothing when the model gave neither.
+ */
+export const ControlDetails: React.FC<ControlInfoProps> = ({ option, options }) => {
+    const styles = useStyles();
+    const rationale = options.getRationale(option);
+
+    if (!option.description && !rationale) {
+        return null;
+    }
+
+    return (
+        <div className={styles.details}>
+            {option.description && <Text className={styles.description}>{option.description}</Text>}
+            {rationale && <Text className={styles.rationale}>Why: {rationale}</Text>}
+        </div>
+    );
+};
+
+/**
+ * An info icon next to a control's label that shows its description and rationale as a tooltip, for layouts
+ * without room for `ControlDetails`.
+ */
+export const ControlInfoTip: React.FC<ControlInfoProps> = ({ option, options }) => {
+    const styles = useStyles();
+    const rationale = options.getRationale(option);
+
+    if (!option.description && !rationale) {
+        return null;
+    }
+
+    const content = (
+        <>
+            {option.description && <div>{option.description}</div>}
+            {rationale && <div>Why: {rationale}</div>}
+        </>
+    );
+    return (
+        <Tooltip content={content} relationship="description">
+            <Info16Regular className={styles.infoIcon} tabIndex={0} aria-label={`About ${option.label}`} />
+        </Tooltip>
+    );
+};
+
+/**
+ * Show a choice's description as a tooltip on the element that presents the choice.
+ */
+export const ChoiceTip: React.FC<{ description?: string; children: React.ReactElement }> = ({
+    description,
+    children,
+}) =>
+    description ? (
+        <Tooltip content={description} relationship="description">
+            {children}
+        </Tooltip>
+    ) : (
+        children
+    );
+
+/**
+ * A choice's label with its description as secondary text below it, e.g. inside a dropdown option.
+ */
+export const ChoiceText: React.FC<{ label: string; description?: string }> = ({ label, description }) => {
+    const styles = useStyles();
+
+    if (!description) {
+        return <>{label}</>;
+    }
+
+    return (
+        <span className={styles.choiceText}>
+            <span>{label}</span>
+            <span className={styles.choiceDescription}>{description}</span>
+        </span>
+    );
+};
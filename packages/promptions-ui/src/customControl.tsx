@@ -0,0 +1,65 @@
+import React from "react";
+import { Text } from "@fluentui/react-components";
+import { BasicOptions, CustomControl, createBasicOptionSet } from "@promptions/promptions-llm";
+import { VisualControlKind, VisualOptionSet } from "./types";
+
+interface CustomControlOptionProps {
+    option: CustomControl;
+    optionIndex: number;
+    options: BasicOptions;
+    set: (options: BasicOptions) => void;
+    disabled: boolean;
+    compact: boolean;
+}
+
+/**
+ * Render a control of a custom kind with the component registered for it, falling back to its formatted
+ * answer for kinds registered without one.
+ */
+export const CustomControlOption: React.FC<CustomControlOptionProps> = ({
+    option,
+    optionIndex,
+    options,
+    set,
+    disabled,
+    compact,
+}) => {
+    const kind = options.kinds.get(option.kind) as VisualControlKind | undefined;
+    if (!kind) return null;
+    if (!kind.Component) return <Text>{kind.formatAnswer(option)}</Text>;
+
+    return (
+        <kind.Component
+            control={option}
+            disabled={disabled}
+            compact={compact}
+            onChange={(control) => {
+                if (disabled) return;
+                set(
+                    new BasicOptions(
+                        options.options.map((opt, idx) => (idx === optionIndex ? control : opt)) as any,
+                        options.metadata,
+                        options.kinds,
+                    ),
+                );
+            }}
+        />
+    );
+};
+
+/**
+ * Compose custom control kinds into a visual option set. The result keeps the set's renderer and the kinds it
+ * already understands, and the prompt, validator and renderer all understand the added kinds as well. An added
+ * kind replaces an existing one with the same name.
+ */
+export function withControlKinds(
+    optionSet: VisualOptionSet<BasicOptions>,
+    kinds: ReadonlyArray<VisualControlKind<any>>,
+): VisualOptionSet<BasicOptions> {
+    const existing = optionSet.emptyOptions().kinds;
+    const added = new Set(kinds.map((kind) => kind.kind));
+    return {
+        ...createBasicOptionSet([...[...existing.values()].filter((kind) => !added.has(kind.kind)), ...kinds]),
+        getComponent: optionSet.getComponent,
+    };
+}
@@ -0,0 +1,78 @@
+import React from "react";
+import { Input, Textarea } from "@fluentui/react-components";
+
+interface DraftInputProps {
+    value: string;
+    onCommit: (value: string) => void;
+    placeholder?: string;
+    multiline?: boolean;
+    disabled?: boolean;
+    size?: "small" | "medium";
+    className?: string;
+    "aria-label"?: string;
+}
+
+/**
+ * Text input that keeps the user's typing in local state and only commits it on blur or Enter
+ * (Ctrl+Enter when multiline). Every committed change can trigger a model round trip, so committing
+ * per keystroke is not an option.
+ */
+export const DraftInput: React.FC<DraftInputProps> = ({
+    value,
+    onCommit,
+    placeholder,
+    multiline,
+    disabled,
+    size = "medium",
+    className,
+    "aria-label": ariaLabel,
+}) => {
+    const [draft, setDraft] = React.useState(value);
+
+    // Pick up external changes (streamed updates, option refreshes) when the user isn't mid-edit
+    React.useEffect(() => {
+        setDraft(value);
+    }, [value]);
+
+    const commit = () => {
+        if (draft !== value) {
+            onCommit(draft);
+        }
+    };
+
+    const onKeyDown = (event: React.KeyboardEvent) => {
+        if (event.key === "Enter" && (!multiline || event.ctrlKey || event.metaKey)) {
+            event.preventDefault();
+            commit();
+        } else if (event.key === "Escape") {
+            setDraft(value);
+        }
+    };
+
+    return multiline ? (
+        <Textarea
+            className={className}
+            size={size}
+            value={draft}
+            placeholder={placeholder}
+            disabled={disabled}
+            aria-label={ariaLabel}
+            resize="vertical"
+            onChange={(_, data) => setDraft(data.value)}
+            onBlur={commit}
+            onKeyDown={onKeyDown}
+        />
+    ) : (
+        <Input
+            className={className}
+            size={size}
+            value={draft}
+            placeholder={placeholder}
+            disabled={disabled}
+            aria-label={ariaLabel}
+            onChange={(_, data) => setDraft(data.value)}
+            onBlur={commit}
+            onKeyDown={onKeyDown}
+        />
+    );
+};
@@ -4,10 +4,34 @@
 export * from "./types";
 export * from "./basicOptions";
 export * from "./compactOptions";
+export * from "./wizardOptions";
+export * from "./customControl";
+export * from "./canvasSandbox";
+export * from "./theme";
+export * from "./canvasBridge";
+export * from "./optionHistory";
+export * from "./optionHistoryView";
 export * from "./components";
 export * from "./registry";
 export * from "./a2ui";
 export * from "./codegen";
 
-export { BasicOptions } from "@promptions/promptions-llm";
-export type { Options, OptionSet } from "@promptions/promptions-llm";
+export {
+    BasicOptions,
+    controlBaseShape,
+    createBasicOptionSet,
+    DEFAULT_ELABORATION_STRATEGY,
+    elaborationStrategies,
+    formatNumericValue,
+    getElaborationStrategy,
+    getChoiceDescription,
+    getChoiceLabel,
+} from "@promptions/promptions-llm";
+export type {
+    ControlKind,
+    CustomControl,
+    ElaborationStrategy,
+    Options,
+    OptionSet,
+    SerializedOptions,
+} from "@promptions/promptions-llm";
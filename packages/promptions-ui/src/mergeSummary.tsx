@@ -0,0 +1,41 @@
+import React from "react";
+import { makeStyles, tokens, Text } from "@fluentui/react-components";
+import type { OptionsMergeReport } from "@promptions/promptions-llm";
+
+const useStyles = makeStyles({
+    summary: {
+        display: "block",
+        fontSize: tokens.fontSizeBase200,
+        color: tokens.colorNeutralForeground3,
+        marginBottom: tokens.spacingVerticalS,
+    },
+});
+
+/**
+ * One-line description of what changed when options were regenerated, e.g. "Options updated: 1 new, 1 removed
+ * (Tone), 2 kept". Renders nothing when nothing was added or removed.
+ */
+export const MergeSummary: React.FC<{ report?: OptionsMergeReport }> = ({ report }) => {
+    const styles = useStyles();
+
+    if (!report || (report.added.length === 0 && report.removed.length === 0)) {
+        return null;
+    }
+
+    const parts: string[] = [];
+    if (report.added.length > 0) {
+        parts.push(`${report.added.length} new`);
+    }
+    if (report.removed.length > 0) {
+        parts.push(`${report.removed.length} removed (${report.removed.map((control) => control.label).join(", ")})`);
+    }
+    if (report.kept.length > 0) {
+        parts.push(`${report.kept.length} kept`);
+    }
+
+    return (
+        <Text className={styles.summary} role="status">
+            Options updated: {parts.join(", ")}
+        </Text>
+    );
+};
@@ -0,0 +1,207 @@
+import React from "react";
+import type { Options } from "@promptions/promptions-llm";
+
+// Oldest states are dropped beyond this many per message
+const MAX_HISTORY_ENTRIES = 50;
+
+export interface OptionHistoryEntry<T extends Options = Options> {
+    /** Unique within the history, usable as a React key */
+    id: number;
+    options: T;
+    /** Short description of the change that produced this state, e.g. "Tone: Casual" */
+    label: string;
+    /** Id of the request the change triggered, so stepping back over it can cancel or supersede it */
+    interactionId?: string;
+}
+
+/**
+ * Result of moving through a message's history: the options to apply, and the entries that were stepped
+ * back over or forward through, most recent move first for `undone` and in order for `redone`.
+ */
+export interface OptionHistoryMove<T extends Options = Options> {
+    messageId: string;
+    options: T;
+    undone: OptionHistoryEntry<T>[];
+    redone: OptionHistoryEntry<T>[];
+}
+
+interface MessageHistory<T extends Options> {
+    entries: OptionHistoryEntry<T>[];
+    index: number;
+}
+
+/**
+ * Describe what changed between two versions of options, using their selections when available.
+ */
+export function describeOptionChange(previous: Options, next: Options): string {
+    if (!previous.getSelections || !next.getSelections) return "Options changed";
+
+    const before = new Map(previous.getSelections().map((selection) => [selection.id, selection.answer]));
+    const changes = next
+        .getSelections()
+        .filter((selection) => before.get(selection.id) !== selection.answer)
+        .map((selection) => `${selection.label}: ${selection.answer}`);
+    return changes.length > 0 ? changes.join(", ") : "Options changed";
+}
+
+/**
+ * Headless undo/redo engine for option interactions. Each message keeps a linear list of option states with
+ * a cursor; recording a change after undoing discards the undone states. Moves return the options to apply
+ * instead of applying them, so the owner decides how they reach its state.
+ */
+export class OptionHistory<T extends Options = Options> {
+    private messages = new Map<string, MessageHistory<T>>();
+    private listeners = new Set<() => void>();
+    private nextId = 1;
+    private version = 0;
+    /** The message changed most recently, which undo and redo act on by default */
+    private lastMessageId: string | undefined;
+
+    /**
+     * Record a change of a message's options. The first change of a message also records the state before it.
+     * When `previous` is not the current state, the message's earlier history no longer applies and is dropped.
+     */
+    record(messageId: string, previous: T, next: T, interactionId?: string): void {
+        let history = this.messages.get(messageId);
+        // Options replaced from elsewhere, such as a refresh, start a new history
+        if (!history || history.entries[history.index].options !== previous) {
+            history = { entries: [{ id: this.nextId++, options: previous, label: "Initial options" }], index: 0 };
+            this.messages.set(messageId, history);
+        }
+
+        history.entries = history.entries.slice(0, history.index + 1);
+        history.entries.push({
+            id: this.nextId++,
+            options: next,
+            label: describeOptionChange(previous, next),
+            interactionId,
+        });
+        if (history.entries.length > MAX_HISTORY_ENTRIES) {
+            history.entries = history.entries.slice(-MAX_HISTORY_ENTRIES);
+        }
+        history.index = history.entries.length - 1;
+        this.lastMessageId = messageId;
+        this.notify();
+    }
+
+    canUndo(messageId = this.lastMessageId): boolean {
+        const history = messageId ? this.messages.get(messageId) : undefined;
+        return !!history && history.index > 0;
+    }
+
+    canRedo(messageId = this.lastMessageId): boolean {
+        const history = messageId ? this.messages.get(messageId) : undefined;
+        return !!history && history.index < history.entries.length - 1;
+    }
+
+    undo(messageId = this.lastMessageId): OptionHistoryMove<T> | undefined {
+        const history = messageId ? this.messages.get(messageId) : undefined;
+        return history ? this.goTo(messageId!, history.index - 1) : undefined;
+    }
+
+    redo(messageId = this.lastMessageId): OptionHistoryMove<T> | undefined {
+        const history = messageId ? this.messages.get(messageId) : undefined;
+        return history ? this.goTo(messageId!, history.index + 1) : undefined;
+    }
+
+    /**
+     * Move a message's cursor to the given entry.
+     */
+    goTo(messageId: string, index: number): OptionHistoryMove<T> | undefined {
+        const history = this.messages.get(messageId);
+        if (!history || index < 0 || index >= history.entries.length || index === history.index) return undefined;
+
+        const undone = history.entries.slice(index + 1, history.index + 1).reverse();
+        const redone = history.entries.slice(history.index + 1, index + 1);
+        history.index = index;
+        this.lastMessageId = messageId;
+        this.notify();
+        return { messageId, options: history.entries[index].options, undone, redone };
+    }
+
+    /**
+     * The message undo and redo act on when called without one.
+     */
+    get activeMessageId(): string | undefined {
+        return this.lastMessageId;
+    }
+
+    getEntries(messageId: string): ReadonlyArray<OptionHistoryEntry<T>> {
+        return this.messages.get(messageId)?.entries ?? [];
+    }
+
+    getIndex(messageId: string): number {
+        return this.messages.get(messageId)?.index ?? -1;
+    }
+
+    /**
+     * Drop the history of messages that no longer exist, or of every message.
+     */
+    forget(messageIds?: Iterable<string>): void {
+        if (messageIds === undefined) {
+            this.messages.clear();
+            this.lastMessageId = undefined;
+        } else {
+            for (const messageId of messageIds) {
+                this.messages.delete(messageId);
+                if (messageId === this.lastMessageId) this.lastMessageId = undefined;
+            }
+        }
+        this.notify();
+    }
+
+    subscribe = (listener: () => void): (() => void) => {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    };
+
+    /**
+     * Changes whenever the history does, for `useSyncExternalStore`.
+     */
+    getSnapshot = (): number => this.version;
+
+    private notify(): void {
+        this.version++;
+        this.listeners.forEach((listener) => listener());
+    }
+}
+
+/**
+ * Create an option history that lives as long as the component and re-renders it when the history changes.
+ */
+export function useOptionHistory<T extends Options = Options>(): OptionHistory<T> {
+    const [history] = React.useState(() => new OptionHistory<T>());
+    React.useSyncExternalStore(history.subscribe, history.getSnapshot);
+    return history;
+}
+
+/**
+ * Bind Ctrl+Z (Cmd+Z) to undo and Ctrl+Shift+Z or Ctrl+Y to redo. Shortcuts typed into text fields are left to
+ * the field so text editing keeps its own undo.
+ */
+export function useUndoRedoShortcuts(onUndo: () => void, onRedo: () => void, enabled = true): void {
+    const handlers = React.useRef({ onUndo, onRedo });
+    handlers.current = { onUndo, onRedo };
+
+    React.useEffect(() => {
+        if (!enabled) return;
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+            const target = event.target as HTMLElement | null;
+            if (target?.closest("input, textarea, [contenteditable='true']")) return;
+
+            const key = event.key.toLowerCase();
+            if (key === "z" && !event.shiftKey) {
+                event.preventDefault();
+                handlers.current.onUndo();
+            } else if ((key === "z" && event.shiftKey) || key === "y") {
+                event.preventDefault();
+                handlers.current.onRedo();
+            }
+        };
+
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    }, [enabled]);
+}
@@ -0,0 +1,133 @@
+import React from "react";
+import { makeStyles, mergeClasses, tokens, Button, Text, Tooltip } from "@fluentui/react-components";
+import { ArrowRedo16Regular, ArrowUndo16Regular } from "@fluentui/react-icons";
+import type { Options } from "@promptions/promptions-llm";
+import { OptionHistory, OptionHistoryMove } from "./optionHistory";
+
+const useStyles = makeStyles({
+    container: {
+        marginTop: tokens.spacingVerticalS,
+        fontSize: tokens.fontSizeBase200,
+    },
+    toolbar: {
+        display: "flex",
+        alignItems: "center",
+        gap: tokens.spacingHorizontalXS,
+    },
+    title: {
+        flex: 1,
+        fontSize: tokens.fontSizeBase200,
+        color: tokens.colorNeutralForeground3,
+    },
+    list: {
+        listStyleType: "none",
+        margin: 0,
+        padding: 0,
+        maxHeight: "160px",
+        overflowY: "auto",
+    },
+    entry: {
+        display: "block",
+        width: "100%",
+        textAlign: "left",
+        padding: `${tokens.spacingVerticalXXS} ${tokens.spacingHorizontalS}`,
+        border: "none",
+        borderRadius: tokens.borderRadiusSmall,
+        backgroundColor: "transparent",
+        color: tokens.colorNeutralForeground2,
+        fontSize: tokens.fontSizeBase200,
+        cursor: "pointer",
+        overflow: "hidden",
+        textOverflow: "ellipsis",
+        whiteSpace: "nowrap",
+        "&:hover": {
+            backgroundColor: tokens.colorNeutralBackground3,
+        },
+    },
+    current: {
+        backgroundColor: tokens.colorBrandBackground2,
+        color: tokens.colorNeutralForeground1,
+        fontWeight: tokens.fontWeightSemibold,
+    },
+    undone: {
+        color: tokens.colorNeutralForeground4,
+        textDecorationLine: "line-through",
+    },
+});
+
+interface OptionHistoryViewProps<T extends Options> {
+    history: OptionHistory<T>;
+    messageId: string;
+    /** Apply a move made from the view, exactly like one made with the keyboard shortcuts */
+    onMove: (move: OptionHistoryMove<T>) => void;
+    disabled?: boolean;
+}
+
+/**
+ * Undo and redo buttons plus the list of option states of one message, newest last. Selecting an entry
+ * jumps to it. Renders nothing until the message's options have been changed.
+ */
+export function OptionHistoryView<T extends Options>({
+    history,
+    messageId,
+    onMove,
+    disabled,
+}: OptionHistoryViewProps<T>) {
+    const styles = useStyles();
+    const entries = history.getEntries(messageId);
+    const index = history.getIndex(messageId);
+
+    if (entries.length < 2) {
+        return null;
+    }
+
+    const move = (result: OptionHistoryMove<T> | undefined) => {
+        if (result) onMove(result);
+    };
+
+    return (
+        <div className={styles.container}>
+            <div className={styles.toolbar}>
+                <Text className={styles.title}>History</Text>
+                <Tooltip content="Undo (Ctrl+Z)" relationship="label">
+                    <Button
+                        appearance="subtle"
+                        size="small"
+                        icon={<ArrowUndo16Regular />}
+                        disabled={disabled || !history.canUndo(messageId)}
+                        onClick={() => move(history.undo(messageId))}
+                    />
+                </Tooltip>
+                <Tooltip content="Redo (Ctrl+Shift+Z)" relationship="label">
+                    <Button
+                        appearance="subtle"
+                        size="small"
+                        icon={<ArrowRedo16Regular />}
+                        disabled={disabled || !history.canRedo(messageId)}
+                        onClick={() => move(history.redo(messageId))}
+                    />
+                </Tooltip>
+            </div>
+            <ol className={styles.list} aria-label="Option history">
+                {entries.map((entry, entryIndex) => (
+                    <li key={entry.id}>
+                        <button
+                            type="button"
+                            className={mergeClasses(
+                                styles.entry,
+                                entryIndex === index && styles.current,
+                                entryIndex > index && styles.undone,
+                            )}
+                            title={entry.label}
+                            aria-current={entryIndex === index ? "step" : undefined}
+                            disabled={disabled}
+                            onClick={() => move(history.goTo(messageId, entryIndex))}
+                        >
+                            {entry.label}
+                        </button>
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+}
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import React from "react";
+import { zodToJsonSchema } from "@promptions/promptions-llm";
 
 // Schema types for component props
 export type Schema = z.ZodType<unknown>;
@@ -20,6 +21,24 @@ export interface RegistryEntry {
   schema: z.ZodSchema<unknown>;
   description?: string;
   category: "generative" | "interactable";
+  /** The component places its children itself, from its `children` prop, instead of having them rendered after it */
+  container?: boolean;
+  /** Prop holding the value of a form field, e.g. "value" or "checked"; set for components a Form can collect */
+  valueProp?: string;
+  /**
+   * Action types the component already handles itself, e.g. switching tabs. They are recorded for the next action's
+   * snapshot instead of being sent, unless a client handler on the component asks to send them.
+   */
+  localEvents?: string[];
+}
+
+// Options accepted when registering a component
+export interface RegisterOptions {
+  description?: string;
+  category?: "generative" | "interactable";
+  container?: boolean;
+  valueProp?: string;
+  localEvents?: string[];
 }
 
 // The component registry
@@ -30,7 +49,7 @@ class ComponentRegistry {
     name: string,
     component: React.ComponentType<TProps>,
     schema: z.ZodSchema<TProps>,
-    options?: { description?: string; category?: "generative" | "interactable" }
+    options?: RegisterOptions
   ): void {
     if (this.registry.has(name)) {
       console.warn(`Component "${name}" is already registered. Overwriting.`);
@@ -40,6 +59,9 @@ class ComponentRegistry {
       schema: schema as z.ZodSchema<unknown>,
       description: options?.description,
       category: options?.category || "generative",
+      container: options?.container,
+      valueProp: options?.valueProp,
+      localEvents: options?.localEvents,
     });
   }
 
@@ -83,7 +105,7 @@ export function registerComponent<TProps extends Record<string, unknown>>(
   name: string,
   component: React.ComponentType<TProps>,
   schema: z.ZodSchema<TProps>,
-  options?: { description?: string; category?: "generative" | "interactable" }
+  options?: RegisterOptions
 ): void {
   registry.register(name, component, schema, options);
 }
@@ -93,6 +115,30 @@ export function getRegisteredComponent(name: string) {
   return registry.get(name);
 }
 
+// What the server is told about a registered component
+export interface ComponentDescriptor {
+  name: string;
+  description?: string;
+  category: "generative" | "interactable";
+  /** JSON Schema of the component's props */
+  propsSchema: Record<string, unknown>;
+}
+
+// Convert a props schema to JSON Schema with the converter the option sets use for structured output
+export function getPropsJsonSchema(schema: z.ZodSchema<unknown>): Record<string, unknown> {
+  return zodToJsonSchema(schema);
+}
+
+// Describe registered components, with their props as JSON Schema, for the A2UI server
+export function describeComponents(components: Map<string, RegistryEntry>): ComponentDescriptor[] {
+  return Array.from(components.entries()).map(([name, entry]) => ({
+    name,
+    description: entry.description,
+    category: entry.category,
+    propsSchema: getPropsJsonSchema(entry.schema),
+  }));
+}
+
 // Common schema types
 export const Schemas = {
   string: z.string(),
@@ -101,5 +147,5 @@ export const Schemas = {
   array: <T extends Schema>(item: T) => z.array(item),
   object: <T extends SchemaRecord>(schema: T) => z.object(schema),
   optional: <T extends Schema>(schema: T) => schema.optional(),
-  union: <T extends Schema[]>(schemas: T) => z.union(schemas),
+  union: <T extends [Schema, Schema, ...Schema[]]>(schemas: T) => z.union(schemas),
 };
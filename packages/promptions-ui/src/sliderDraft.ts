@@ -0,0 +1,42 @@
+import React from "react";
+
+type SliderValue = number | [number, number];
+
+interface SliderDraft<T extends SliderValue> {
+    /** The value to show while the user drags, the committed value otherwise */
+    draft: T;
+    setDraft: (value: T) => void;
+    /** Hand the dragged value to `onCommit`, if it differs from the committed one */
+    commit: () => void;
+}
+
+/**
+ * Keep a slider's value in local state while it is dragged and only commit it on release. A Fluent `Slider`
+ * reports every step it passes, and every committed change can trigger a model round trip, so wire `commit` to
+ * the slider's `onPointerUp`, `onKeyUp` and `onBlur`.
+ */
+export function useSliderDraft<T extends SliderValue>(value: T, onCommit: (value: T) => void): SliderDraft<T> {
+    const [draft, setDraftState] = React.useState(value);
+    // Release events can arrive before the last drag step re-renders, so commit from a ref
+    const latest = React.useRef(value);
+    const key = JSON.stringify(value);
+
+    // Pick up external changes (streamed updates, undo) to the committed value
+    React.useEffect(() => {
+        latest.current = value;
+        setDraftState(value);
+    }, [key]);
+
+    const setDraft = (next: T) => {
+        latest.current = next;
+        setDraftState(next);
+    };
+
+    const commit = () => {
+        if (JSON.stringify(latest.current) !== key) {
+            onCommit(latest.current);
+        }
+    };
+
+    return { draft, setDraft, commit };
+}
@@ -0,0 +1,93 @@
+import React from "react";
+import { FluentProvider, webDarkTheme, webLightTheme } from "@fluentui/react-components";
+
+export type ThemeMode = "light" | "dark" | "system";
+
+/** The theme actually shown, with "system" resolved to the operating system's preference */
+export type ResolvedTheme = "light" | "dark";
+
+export const THEME_MODES: ReadonlyArray<ThemeMode> = ["light", "dark", "system"];
+
+const STORAGE_KEY = "promptions-theme";
+const DARK_QUERY = "(prefers-color-scheme: dark)";
+
+interface ThemeContextValue {
+    mode: ThemeMode;
+    resolved: ResolvedTheme;
+    setMode: (mode: ThemeMode) => void;
+}
+
+// Components rendered outside a provider, e.g. in isolation, get the light theme and cannot change it
+const ThemeContext = React.createContext<ThemeContextValue>({
+    mode: "light",
+    resolved: "light",
+    setMode: () => {},
+});
+
+/**
+ * Read a theme mode from storage or configuration, returning undefined for missing or unknown values.
+ */
+export function parseThemeMode(value: string | null | undefined): ThemeMode | undefined {
+    return THEME_MODES.find((mode) => mode === value?.trim().toLowerCase());
+}
+
+function loadThemeMode(): ThemeMode | undefined {
+    try {
+        return parseThemeMode(localStorage.getItem(STORAGE_KEY));
+    } catch (e) {
+        console.error("Failed to load theme from storage:", e);
+        return undefined;
+    }
+}
+
+function saveThemeMode(mode: ThemeMode): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, mode);
+    } catch (e) {
+        console.error("Failed to save theme to storage:", e);
+    }
+}
+
+function subscribeToSystemTheme(listener: () => void): () => void {
+    if (typeof window === "undefined" || !window.matchMedia) return () => {};
+    const query = window.matchMedia(DARK_QUERY);
+    query.addEventListener("change", listener);
+    return () => query.removeEventListener("change", listener);
+}
+
+function getSystemTheme(): ResolvedTheme {
+    return typeof window !== "undefined" && window.matchMedia?.(DARK_QUERY).matches ? "dark" : "light";
+}
+
+export interface ThemeProviderProps {
+    /** Mode used until the user picks one */
+    defaultMode?: ThemeMode;
+    children: React.ReactNode;
+}
+
+/**
+ * Apply the user's theme to everything below: the Fluent theme, and through `useTheme` the A2UI components and
+ * sandboxed canvases. The chosen mode is kept in local storage, and "system" follows the OS setting live.
+ */
+export function ThemeProvider({ defaultMode = "system", children }: ThemeProviderProps) {
+    const [mode, setModeState] = React.useState<ThemeMode>(() => loadThemeMode() ?? defaultMode);
+    const systemTheme = React.useSyncExternalStore(subscribeToSystemTheme, getSystemTheme, () => "light" as const);
+    const resolved = mode === "system" ? systemTheme : mode;
+
+    const setMode = React.useCallback((next: ThemeMode) => {
+        setModeState(next);
+        saveThemeMode(next);
+    }, []);
+
+    const value = React.useMemo(() => ({ mode, resolved, setMode }), [mode, resolved, setMode]);
+
+    return (
+        <ThemeContext.Provider value={value}>
+            <FluentProvider theme={resolved === "dark" ? webDarkTheme : webLightTheme}>{children}</FluentProvider>
+        </ThemeContext.Provider>
+    );
+}
+
+export function useTheme(): ThemeContextValue {
+    return React.useContext(ThemeContext);
+}
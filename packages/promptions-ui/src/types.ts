@@ -1,4 +1,4 @@
-import { Options, OptionSet } from "@promptions/promptions-llm";
+import { ControlKind, CustomControl, Options, OptionSet } from "@promptions/promptions-llm";
 
 export type OptionRenderer = React.FC<{
     options: Options;
@@ -9,3 +9,19 @@ export type OptionRenderer = React.FC<{
 export interface VisualOptionSet<T extends Options> extends OptionSet<T> {
     getComponent: () => OptionRenderer;
 }
+
+export interface ControlRendererProps<C extends CustomControl = CustomControl> {
+    control: C;
+    /** Replace the control, typically with a new `value` */
+    onChange: (control: C) => void;
+    disabled: boolean;
+    /** True when rendered by the compact option set, which has less room per control */
+    compact: boolean;
+}
+
+/**
+ * A custom control kind together with the component that renders it in both option renderers.
+ */
+export interface VisualControlKind<C extends CustomControl = CustomControl> extends ControlKind<C> {
+    Component: React.FC<ControlRendererProps<C>>;
+}
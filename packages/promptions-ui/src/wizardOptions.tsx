@@ -0,0 +1,245 @@
+import React from "react";
+import { makeStyles, mergeClasses, tokens, Button, Label, ProgressBar, Text } from "@fluentui/react-components";
+import { ArrowLeft16Regular, ArrowRight16Regular, Checkmark16Regular } from "@fluentui/react-icons";
+import { BasicOptions, OptionControl, basicOptionSet as b } from "@promptions/promptions-llm";
+import { VisualOptionSet, OptionRenderer } from "./types";
+import { MergeSummary } from "./mergeSummary";
+import { CompactControl } from "./compactOptions";
+import { CanvasOption } from "./basicOptions";
+import { ControlDetails } from "./controlInfo";
+
+const useStyles = makeStyles({
+    optionsContainer: {
+        marginBottom: tokens.spacingVerticalM,
+        padding: tokens.spacingVerticalS,
+        borderRadius: tokens.borderRadiusMedium,
+        backgroundColor: tokens.colorNeutralBackground2,
+        border: `1px solid ${tokens.colorNeutralStroke2}`,
+        display: "flex",
+        flexDirection: "column",
+        gap: tokens.spacingVerticalS,
+    },
+    progressText: {
+        fontSize: tokens.fontSizeBase100,
+        color: tokens.colorNeutralForeground3,
+    },
+    optionLabel: {
+        fontSize: tokens.fontSizeBase200,
+        fontWeight: tokens.fontWeightSemibold,
+        marginBottom: tokens.spacingVerticalXS,
+        color: tokens.colorNeutralForeground1,
+        display: "block",
+    },
+    step: {
+        minHeight: "64px",
+    },
+    reviewList: {
+        listStyleType: "none",
+        margin: 0,
+        padding: 0,
+        display: "flex",
+        flexDirection: "column",
+        gap: tokens.spacingVerticalXXS,
+    },
+    reviewItem: {
+        display: "flex",
+        justifyContent: "space-between",
+        gap: tokens.spacingHorizontalS,
+        width: "100%",
+        padding: `${tokens.spacingVerticalXXS} ${tokens.spacingHorizontalXS}`,
+        border: "none",
+        borderRadius: tokens.borderRadiusSmall,
+        backgroundColor: "transparent",
+        fontSize: tokens.fontSizeBase200,
+        textAlign: "left",
+        cursor: "pointer",
+        "&:hover": {
+            backgroundColor: tokens.colorNeutralBackground3,
+        },
+    },
+    reviewLabel: {
+        color: tokens.colorNeutralForeground2,
+    },
+    reviewAnswer: {
+        color: tokens.colorNeutralForeground1,
+        fontWeight: tokens.fontWeightSemibold,
+        overflow: "hidden",
+        textOverflow: "ellipsis",
+        whiteSpace: "nowrap",
+    },
+    edited: {
+        color: tokens.colorBrandForeground1,
+    },
+    navigation: {
+        display: "flex",
+        justifyContent: "space-between",
+        gap: tokens.spacingHorizontalS,
+    },
+});
+
+interface WizardDraft {
+    /** The options the edits were made on */
+    base: BasicOptions;
+    options: BasicOptions;
+}
+
+/**
+ * Carry the values edited in a draft over to a newer version of the options, e.g. one with more controls
+ * streamed in. Controls the user has not touched take the newer version as is.
+ */
+function rebaseDraft(draft: WizardDraft, latest: BasicOptions): BasicOptions {
+    if (draft.base === latest) return draft.options;
+
+    const base = new Map(draft.base.options.map((control) => [control.id, control]));
+    const edited = new Map(
+        draft.options.options
+            .filter((control) => base.get(control.id) !== control)
+            .map((control) => [control.id, control]),
+    );
+    if (edited.size === 0) return latest;
+
+    return new BasicOptions(
+        latest.options.map((control) => {
+            const edit = edited.get(control.id) as Record<string, unknown> | undefined;
+            if (!edit || edit.kind !== control.kind) return control;
+            const otherValue = "otherValue" in edit ? { otherValue: edit.otherValue } : {};
+            return { ...control, value: edit.value, ...otherValue } as OptionControl;
+        }),
+        latest.metadata,
+        latest.kinds,
+    );
+}
+
+/**
+ * Presents one control at a time with a review step at the end. Edits are kept as a draft until "Submit all",
+ * so a long option set produces a single update instead of one per control.
+ */
+const WizardMessageOptions: OptionRenderer = ({ options, set, disabled = false }) => {
+    const styles = useStyles();
+    const [draft, setDraft] = React.useState<WizardDraft | null>(null);
+    const [stepIndex, setStepIndex] = React.useState(0);
+
+    if (!(options instanceof BasicOptions)) {
+        throw new Error("Expected options to be an instance of BasicOptions");
+    }
+
+    // Edits made while controls are still streaming in carry over to each newer snapshot
+    const working = draft ? rebaseDraft(draft, options) : options;
+    const edits = draft && working !== options;
+
+    // Steps address controls by index so `set` keeps working on the full option list as controls stream in
+    const steps = working.options
+        .map((control, index) => ({ control, index }))
+        .filter(({ control }) => working.isControlVisible(control));
+    const reviewing = stepIndex >= steps.length;
+    const step = Math.min(stepIndex, steps.length);
+    const answers = new Map(working.getSelections().map((selection) => [selection.id, selection.answer]));
+    const editedIds = new Set(
+        options.options.filter((control, index) => working.options[index] !== control).map((control) => control.id),
+    );
+
+    const edit = (updated: BasicOptions) => setDraft({ base: options, options: updated });
+
+    const submit = () => {
+        set(working);
+        setDraft(null);
+    };
+
+    if (steps.length === 0) {
+        return (
+            <div className={styles.optionsContainer}>
+                <Text className={styles.progressText}>Waiting for options…</Text>
+            </div>
+        );
+    }
+
+    return (
+        <div className={styles.optionsContainer}>
+            <MergeSummary report={working.getMetadata().merge} />
+            <Text className={styles.progressText}>
+                {reviewing ? `Review ${steps.length} selections` : `Step ${step + 1} of ${steps.length}`}
+            </Text>
+            <ProgressBar value={step / steps.length} thickness="medium" />
+
+            {reviewing ? (
+                <ol className={styles.reviewList} aria-label="Review selections">
+                    {steps.map(({ control }, index) => (
+                        <li key={control.id ?? index}>
+                            <button type="button" className={styles.reviewItem} onClick={() => setStepIndex(index)}>
+                                <span className={styles.reviewLabel}>{control.label}</span>
+                                <span
+                                    className={mergeClasses(
+                                        styles.reviewAnswer,
+                                        editedIds.has(control.id) && styles.edited,
+                                    )}
+                                >
+                                    {answers.get(control.id!) ?? ""}
+                                </span>
+                            </button>
+                        </li>
+                    ))}
+                </ol>
+            ) : (
+                <div className={styles.step} key={steps[step].control.id ?? steps[step].index}>
+                    <Label className={styles.optionLabel}>{steps[step].control.label}</Label>
+                    <ControlDetails option={steps[step].control} options={working} />
+                    {steps[step].control.kind === "canvas" ? (
+                        // A canvas has no compact form, so its step shows the same sandboxed canvas as the full view
+                        <CanvasOption
+                            option={steps[step].control}
+                            optionIndex={steps[step].index}
+                            options={working}
+                            set={edit}
+                            disabled={disabled}
+                        />
+                    ) : (
+                        <CompactControl
+                            option={steps[step].control}
+                            optionIndex={steps[step].index}
+                            options={working}
+                            set={edit}
+                            disabled={disabled}
+                        />
+                    )}
+                </div>
+            )}
+
+            <div className={styles.navigation}>
+                <Button
+                    size="small"
+                    icon={<ArrowLeft16Regular />}
+                    disabled={step === 0}
+                    onClick={() => setStepIndex(step - 1)}
+                >
+                    Back
+                </Button>
+                {reviewing ? (
+                    <Button
+                        size="small"
+                        appearance="primary"
+                        icon={<Checkmark16Regular />}
+                        disabled={disabled || !edits}
+                        onClick={submit}
+                    >
+                        Submit all
+                    </Button>
+                ) : (
+                    <Button
+                        size="small"
+                        appearance={step === steps.length - 1 ? "primary" : "secondary"}
+                        icon={<ArrowRight16Regular />}
+                        iconPosition="after"
+                        onClick={() => setStepIndex(step + 1)}
+                    >
+                        {step === steps.length - 1 ? "Review" : "Next"}
+                    </Button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export const wizardOptionSet: VisualOptionSet<BasicOptions> = {
+    ...b,
+    getComponent: () => WizardMessageOptions,
+};
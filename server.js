@@ -161,6 +161,19 @@ function readBody(req) {
   });
 }
 
+// OpenAI-style structured output. Strict mode is off because it requires every property to be
+// required and cannot express records, which the option schemas use for choice maps.
+function getResponseFormat(responseSchema) {
+  return {
+    type: 'json_schema',
+    json_schema: {
+      name: responseSchema.name,
+      schema: responseSchema.schema,
+      strict: false,
+    },
+  };
+}
+
 // Get provider config based on provider name
 // Supports user-provided API keys via request body, falling back to server defaults
 function getProviderConfig(provider, body, stream) {
@@ -196,6 +209,12 @@ function getProviderConfig(provider, body, stream) {
         postData.systemInstruction = { parts: [{ text: systemMessage.content }] };
       }
 
+      if (body.responseSchema) {
+        // The OpenAPI-subset responseSchema cannot express records, so send the schema as plain JSON Schema
+        postData.generationConfig.responseMimeType = 'application/json';
+        postData.generationConfig.responseJsonSchema = body.responseSchema.schema;
+      }
+
       const model = body.model || 'gemini-2.0-flash';
       const streamSuffix = stream ? ':streamGenerateContent?alt=sse' : ':generateContent';
 
@@ -220,6 +239,7 @@ function getProviderConfig(provider, body, stream) {
         temperature: body.temperature ?? 0.7,
         max_tokens: body.max_tokens ?? 1000,
         stream: stream,
+        ...(body.responseSchema && { response_format: getResponseFormat(body.responseSchema) }),
       });
       return {
         hostname: 'openrouter.ai',
@@ -246,6 +266,7 @@ function getProviderConfig(provider, body, stream) {
         temperature: body.temperature ?? 0.7,
         max_tokens: body.max_tokens ?? 1000,
         stream: stream,
+        ...(body.responseSchema && { response_format: getResponseFormat(body.responseSchema) }),
       });
       return {
         hostname: 'api.openai.com',
@@ -354,38 +375,270 @@ async function handleChatStreamProxy(req, res) {
   }
 }
 
-function buildA2UISystemPrompt(components) {
-  const allowed = Array.isArray(components)
-    ? components
-      .map((c) => {
-        const name = typeof c?.name === 'string' ? c.name : '';
-        const desc = typeof c?.description === 'string' ? c.description : '';
-        const category = typeof c?.category === 'string' ? c.category : '';
-        return name ? `- ${name}${category ? ` (${category})` : ''}${desc ? `: ${desc}` : ''}` : null;
-      })
-      .filter(Boolean)
-      .join('\n')
-    : '';
+// Props schemas come from the client, so keep each one short enough not to crowd out the instructions
+const MAX_A2UI_PROPS_SCHEMA_LENGTH = 2000;
+
+// One line per registered component, followed by the JSON Schema of its props when the client sent one
+function formatA2UIComponents(components) {
+  if (!Array.isArray(components)) return '';
+  return components
+    .map((c) => {
+      const name = typeof c?.name === 'string' ? c.name : '';
+      const desc = typeof c?.description === 'string' ? c.description : '';
+      const category = typeof c?.category === 'string' ? c.category : '';
+      if (!name) return null;
+      const line = `- ${name}${category ? ` (${category})` : ''}${desc ? `: ${desc}` : ''}`;
+      if (!c.propsSchema || typeof c.propsSchema !== 'object') return line;
+      const schema = JSON.stringify(c.propsSchema);
+      if (schema.length > MAX_A2UI_PROPS_SCHEMA_LENGTH) return line;
+      return `${line}\n  props (JSON Schema): ${schema}`;
+    })
+    .filter(Boolean)
+    .join('\n');
+}
 
-  return `You are an API that emits UI using the A2UI protocol.
+// Message shapes and how to use them, shared by the initial and the action prompt
+const A2UI_PROTOCOL_GUIDANCE = `{"type":"component","data":{"id":"...","type":"<AllowedComponentType>","props":{},"layout":{},"style":{}},"parentId":"<optional parent id>"}
+{"type":"insert","data":{"id":"...","type":"<AllowedComponentType>","props":{}},"parentId":"<optional parent id>","index":0}
+{"type":"move","id":"<componentId>","parentId":"<optional new parent id>","index":0}
+{"type":"update","id":"<componentId>","props":{}}
+{"type":"remove","id":"<componentId>"}
+{"type":"data","path":"/cart/total","value":42}
+{"type":"error","message":"...","recoverable":false}
 
-Output format:
+Building the tree:
+- Emit a container first, then each child as its own message with "parentId" set to the container's id, so the UI appears progressively.
+- "component" appends to the parent (or adds a root component when "parentId" is omitted); "insert" places a new component at "index" among its siblings.
+- "move" reparents or reorders an existing component; omit "parentId" to make it a root component.
+- A parent must be emitted before its children. Inline "children" arrays still work but should be kept for small groups.
+
+Data binding:
+- Keep values shared by several components in the data model and bind props to them with {"$bind":"<JSON Pointer>"}, e.g. "props":{"text":{"$bind":"/cart/total"}}.
+- "data" sets the value at "path" (omit "path" for the whole model); add "op":"merge" to merge an object or "op":"remove" to delete the value.
+- One "data" message updates every component bound to that path, so prefer it over several "update" messages.
+- Fields whose "value" or "checked" prop is bound write the user's entry back to the model, as do Tabs "selected", Accordion "expanded", Modal "open" and Stepper "current".
+
+Forms:
+- To collect several values, add a "Form" and emit its fields (text inputs, checkboxes, selects, radio groups, sliders and date pickers) with "parentId" set to the form's id. Give each field a "name".
+- Declare validation on the fields with "required":true and, for text inputs, "pattern" (a regular expression the whole value must match) with an optional "patternMessage".
+- Edits inside a form stay on the client; the form sends a single "submit" action with payload {"values":{"<name>":<value>}} once every field is valid.
+
+Client actions:
+- Handle simple interactions on the client by adding "handlers" to a component's data, e.g. "handlers":[{"on":"click","do":[{"set":"/ui/tab","value":"details"}]}].
+- Operations: {"set":"<path>","value":...}, {"toggle":"<path>"}, {"increment":"<path>","by":1}, {"show":"<componentId>"}, {"hide":"<componentId>"}.
+- "hidden":true hides a component until a handler shows it; "hidden":{"$bind":"<path>"} hides it while that value is truthy.
+- Use handlers for toggling sections, switching tabs, dismissing alerts and counters. Actions a handler covers never reach you unless it sets "send":true.`;
+
+// NDJSON by default; with structured output the model writes one JSON object holding a "messages" array
+function formatA2UIOutputFormat(structured) {
+  if (structured) {
+    return `Output format:
+- Output ONE JSON object of the form {"messages":[...]}, matching the response schema.
+- Each item of "messages" is one A2UI message, applied in order.
+- Do NOT wrap output in markdown fences or extra text.
+
+Each message must match one of these shapes:`;
+  }
+  return `Output format:
 - Output ONLY newline-delimited JSON (NDJSON).
 - Every line MUST be a single JSON object.
+- Keep EACH JSON object on ONE line (no pretty-print).
 - Do NOT wrap output in markdown fences, arrays, or extra text.
 
-Each line must match one of these shapes:
-{"type":"component","data":{"id":"...","type":"<AllowedComponentType>","props":{},"layout":{},"style":{},"children":[]}}
-{"type":"update","id":"<componentId>","props":{}}
-{"type":"remove","id":"<componentId>"}
-{"type":"error","message":"...","recoverable":false}
+Each line must match one of these shapes:`;
+}
+
+const A2UI_BINDING_SCHEMA = {
+  type: 'object',
+  properties: { $bind: { type: 'string' } },
+  required: ['$bind'],
+};
+
+// Let each top-level prop be either its declared value or a {"$bind": "<path>"} into the data model
+function allowA2UIBindings(propsSchema) {
+  if (!propsSchema.properties || typeof propsSchema.properties !== 'object') return propsSchema;
+  const properties = Object.fromEntries(
+    Object.entries(propsSchema.properties).map(([key, schema]) => [key, { anyOf: [schema, A2UI_BINDING_SCHEMA] }]),
+  );
+  return { ...propsSchema, properties };
+}
+
+// Client handler shape for structured output, mirroring the handlers field in the UI package's protocol
+const A2UI_CLIENT_HANDLERS_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      on: { type: 'string', enum: ['click', 'input', 'select', 'scroll', 'submit', 'custom'] },
+      do: {
+        type: 'array',
+        items: {
+          anyOf: [
+            { type: 'object', properties: { set: { type: 'string' }, value: {} }, required: ['set', 'value'] },
+            { type: 'object', properties: { toggle: { type: 'string' } }, required: ['toggle'] },
+            {
+              type: 'object',
+              properties: { increment: { type: 'string' }, by: { type: 'number' } },
+              required: ['increment'],
+            },
+            { type: 'object', properties: { show: { type: 'string' } }, required: ['show'] },
+            { type: 'object', properties: { hide: { type: 'string' } }, required: ['hide'] },
+          ],
+        },
+      },
+      send: { type: 'boolean' },
+    },
+    required: ['on', 'do'],
+  },
+};
+
+/**
+ * Response schema for structured output: a "messages" array whose component messages are tied to the props
+ * schema of their component type. Returns null when no component sent a props schema.
+ */
+function buildA2UIResponseSchema(components) {
+  if (!Array.isArray(components)) return null;
+
+  const componentMessages = components
+    .filter((c) => typeof c?.name === 'string' && c.propsSchema && typeof c.propsSchema === 'object')
+    .flatMap((c) => {
+      const data = {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          type: { type: 'string', enum: [c.name] },
+          props: allowA2UIBindings(c.propsSchema),
+          layout: { type: 'object' },
+          style: { type: 'object' },
+          hidden: { anyOf: [{ type: 'boolean' }, A2UI_BINDING_SCHEMA] },
+          handlers: A2UI_CLIENT_HANDLERS_SCHEMA,
+        },
+        required: ['id', 'type', 'props'],
+      };
+      return ['component', 'insert'].map((type) => ({
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: [type] },
+          data,
+          parentId: { type: 'string' },
+          index: { type: 'integer', minimum: 0 },
+        },
+        required: type === 'insert' ? ['type', 'data', 'index'] : ['type', 'data'],
+      }));
+    });
+
+  if (componentMessages.length === 0) return null;
+
+  const otherMessages = [
+    {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: ['move'] },
+        id: { type: 'string' },
+        parentId: { type: 'string' },
+        index: { type: 'integer', minimum: 0 },
+      },
+      required: ['type', 'id'],
+    },
+    {
+      type: 'object',
+      properties: { type: { type: 'string', enum: ['update'] }, id: { type: 'string' }, props: { type: 'object' } },
+      required: ['type', 'id', 'props'],
+    },
+    {
+      type: 'object',
+      properties: { type: { type: 'string', enum: ['remove'] }, id: { type: 'string' } },
+      required: ['type', 'id'],
+    },
+    {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: ['data'] },
+        path: { type: 'string' },
+        value: {},
+        op: { type: 'string', enum: ['set', 'merge', 'remove'] },
+      },
+      required: ['type'],
+    },
+    {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: ['error'] },
+        message: { type: 'string' },
+        recoverable: { type: 'boolean' },
+      },
+      required: ['type', 'message'],
+    },
+  ];
+
+  return {
+    name: 'a2ui_messages',
+    schema: {
+      type: 'object',
+      properties: {
+        messages: { type: 'array', items: { anyOf: [...componentMessages, ...otherMessages] } },
+      },
+      required: ['messages'],
+    },
+  };
+}
+
+/**
+ * Pull each finished item out of a streamed {"messages":[...]} document and pass it on as one compact JSON line,
+ * so structured output reaches the client as NDJSON while the model is still writing.
+ */
+function createA2UIMessageExtractor(onMessage) {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let item = null;
+
+  return (text) => {
+    for (const ch of text) {
+      if (item !== null) item += ch;
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === '\\') escaped = true;
+        else if (ch === '"') inString = false;
+        continue;
+      }
+
+      if (ch === '"') {
+        inString = true;
+      } else if (ch === '{' || ch === '[') {
+        depth++;
+        // Depth 1 is the document, 2 the messages array, 3 an item
+        if (depth === 3 && ch === '{') item = ch;
+      } else if (ch === '}' || ch === ']') {
+        if (depth === 3 && item !== null) {
+          try {
+            onMessage(JSON.stringify(JSON.parse(item)));
+          } catch {
+            // Malformed item; the client would reject it anyway
+          }
+          item = null;
+        }
+        depth--;
+      }
+    }
+  };
+}
+
+function buildA2UISystemPrompt(components, structured = false) {
+  const allowed = formatA2UIComponents(components);
+
+  return `You are an API that emits UI using the A2UI protocol.
+
+${formatA2UIOutputFormat(structured)}
+${A2UI_PROTOCOL_GUIDANCE}
 
 Strict Mode Rules:
 - Use ONLY allowed component types listed below. NO exceptions.
+- Props MUST match the props JSON Schema listed with each component; leave out props it does not define.
 - Do NOT hallucinate component types or props that are not standard (e.g. no "valid" or "error" props unless specified).
 - Generate stable, unique component ids (e.g. "ui-root", "ui-1", "ui-2").
 - Keep props JSON-serializable.
-- Keep EACH JSON object on ONE line (no pretty-print).
 - For text content, ensure it is safe and semantic.
 
 Allowed components:
@@ -407,18 +660,61 @@ function extractStreamText(provider, parsed) {
   return '';
 }
 
-function buildA2UIActionPrompt(action, components) {
-  const allowed = Array.isArray(components)
-    ? components
-      .map((c) => {
-        const name = typeof c?.name === 'string' ? c.name : '';
-        const desc = typeof c?.description === 'string' ? c.description : '';
-        const category = typeof c?.category === 'string' ? c.category : '';
-        return name ? `- ${name}${category ? ` (${category})` : ''}${desc ? `: ${desc}` : ''}` : null;
-      })
-      .filter(Boolean)
-      .join('\n')
-    : '';
+// The client keeps its snapshot small, but the request body is untrusted, so cap it again here
+const MAX_A2UI_SNAPSHOT_NODES = 200;
+const MAX_A2UI_SNAPSHOT_DEPTH = 20;
+const MAX_A2UI_SNAPSHOT_LINE = 400;
+const MAX_A2UI_ACTION_HISTORY = 10;
+const MAX_A2UI_DATA_MODEL_LENGTH = 4000;
+
+function clipPromptLine(line) {
+  return line.length > MAX_A2UI_SNAPSHOT_LINE ? `${line.slice(0, MAX_A2UI_SNAPSHOT_LINE)}…` : line;
+}
+
+// One line per component, indented by depth: `- <id> (<type>) props: {...} value: ...`
+function formatA2UISnapshotTree(snapshot) {
+  const lines = [];
+
+  const visit = (nodes, depth) => {
+    if (!Array.isArray(nodes) || depth > MAX_A2UI_SNAPSHOT_DEPTH) return;
+    for (const node of nodes) {
+      if (lines.length >= MAX_A2UI_SNAPSHOT_NODES) return;
+      if (typeof node?.id !== 'string' || typeof node?.type !== 'string') continue;
+
+      let line = `${'  '.repeat(depth)}- ${node.id} (${node.type})`;
+      if (node.props && typeof node.props === 'object') line += ` props: ${JSON.stringify(node.props)}`;
+      if (node.value !== undefined) line += ` value: ${JSON.stringify(node.value)}`;
+      if (node.hidden === true) line += ' hidden';
+      lines.push(clipPromptLine(line));
+
+      visit(node.children, depth + 1);
+    }
+  };
+
+  visit(snapshot?.components, 0);
+  return lines.join('\n');
+}
+
+function formatA2UIDataModel(snapshot) {
+  if (!snapshot?.data || typeof snapshot.data !== 'object') return '';
+  const json = JSON.stringify(snapshot.data);
+  return json.length > MAX_A2UI_DATA_MODEL_LENGTH ? `${json.slice(0, MAX_A2UI_DATA_MODEL_LENGTH)}…` : json;
+}
+
+function formatA2UIActionHistory(snapshot) {
+  if (!Array.isArray(snapshot?.actions)) return '';
+  return snapshot.actions
+    .slice(-MAX_A2UI_ACTION_HISTORY)
+    .filter((a) => typeof a?.type === 'string' && typeof a?.componentId === 'string')
+    .map((a) => clipPromptLine(`- ${a.type} on ${a.componentId}${a.payload ? ` ${JSON.stringify(a.payload)}` : ''}`))
+    .join('\n');
+}
+
+function buildA2UIActionPrompt(action, components, snapshot, structured = false) {
+  const allowed = formatA2UIComponents(components);
+  const tree = formatA2UISnapshotTree(snapshot);
+  const history = formatA2UIActionHistory(snapshot);
+  const data = formatA2UIDataModel(snapshot);
 
   return `You are an API that updates UI based on user actions using the A2UI protocol.
 
@@ -427,21 +723,24 @@ A user action was triggered:
 - Action type: ${action.type}
 - Payload: ${JSON.stringify(action.payload || {})}
 
-Output format:
-- Output ONLY newline-delimited JSON (NDJSON).
-- Every line MUST be a single JSON object.
-- Do NOT wrap output in markdown fences, arrays, or extra text.
+Current UI (every component on screen; "value" is what the user entered or picked):
+${tree || '- (not provided)'}
+${snapshot?.truncated ? '(Some props, long text or deeply nested components were left out to save space.)\n' : ''}
+Data model (what {"$bind": "<path>"} props read):
+${data || '(empty)'}
 
-Each line must match one of these shapes:
-{"type":"component","data":{"id":"...","type":"<AllowedComponentType>","props":{},"layout":{},"style":{},"children":[]}}
-{"type":"update","id":"<componentId>","props":{}}
-{"type":"remove","id":"<componentId>"}
-{"type":"error","message":"...","recoverable":false}
+Recent actions, oldest first (the last is the action above):
+${history || '- (none)'}
+
+${formatA2UIOutputFormat(structured)}
+${A2UI_PROTOCOL_GUIDANCE}
 
 Rules:
 - Respond to the action by updating, adding, or removing components as appropriate.
+- "update" and "remove" MUST target ids listed under Current UI. Never guess ids.
+- New components MUST use ids that are not already in Current UI.
 - Use ONLY allowed component types listed below.
-- Keep EACH JSON object on ONE line (no pretty-print).
+- Props MUST match the props JSON Schema listed with each component.
 
 Allowed components:
 ${allowed || '- (none provided)'}
@@ -458,10 +757,12 @@ async function handleA2UI(req, res) {
       const provider = body.provider || 'openai';
       const action = body.action;
 
-      const actionPrompt = buildA2UIActionPrompt(action, body.components);
+      const responseSchema = body.structuredOutput === true ? buildA2UIResponseSchema(body.components) : null;
+      const actionPrompt = buildA2UIActionPrompt(action, body.components, body.snapshot, Boolean(responseSchema));
 
       const llmBody = {
         ...body,
+        ...(responseSchema && { responseSchema }),
         temperature: body.temperature ?? 0.2,
         max_tokens: body.max_tokens ?? 800,
         messages: [
@@ -498,6 +799,7 @@ async function handleA2UI(req, res) {
 
       let sseBuffer = '';
       let outputBuffer = '';
+      const extractMessages = responseSchema && createA2UIMessageExtractor((line) => res.write(line + '\n'));
 
       const proxyReq = https.request(options, (proxyRes) => {
         proxyRes.setEncoding('utf8');
@@ -536,6 +838,11 @@ async function handleA2UI(req, res) {
             const delta = extractStreamText(provider, parsed);
             if (!delta) continue;
 
+            if (extractMessages) {
+              extractMessages(delta);
+              continue;
+            }
+
             outputBuffer += delta;
 
             while (outputBuffer.includes('\n')) {
@@ -594,10 +901,12 @@ async function handleA2UI(req, res) {
       return;
     }
 
-    const systemPrompt = buildA2UISystemPrompt(body.components);
+    const responseSchema = body.structuredOutput === true ? buildA2UIResponseSchema(body.components) : null;
+    const systemPrompt = buildA2UISystemPrompt(body.components, Boolean(responseSchema));
 
     const llmBody = {
       ...body,
+      ...(responseSchema && { responseSchema }),
       temperature: body.temperature ?? 0.2,
       max_tokens: body.max_tokens ?? 1200,
       messages: [
@@ -634,6 +943,7 @@ async function handleA2UI(req, res) {
 
     let sseBuffer = '';
     let outputBuffer = '';
+    const extractMessages = responseSchema && createA2UIMessageExtractor((line) => res.write(line + '\n'));
 
     const proxyReq = https.request(options, (proxyRes) => {
       proxyRes.setEncoding('utf8');
@@ -673,6 +983,11 @@ async function handleA2UI(req, res) {
           const delta = extractStreamText(provider, parsed);
           if (!delta) continue;
 
+          if (extractMessages) {
+            extractMessages(delta);
+            continue;
+          }
+
           outputBuffer += delta;
 
           while (outputBuffer.includes('\n')) {